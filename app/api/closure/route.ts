@@ -1,12 +1,22 @@
 import { NextRequest, NextResponse } from "next/server";
 import { maximumWeightClosure, solveClosureBySize } from "@/lib/closure";
-import { Graph } from "@/lib/types";
+import { Graph, WeightComponent } from "@/lib/types";
 
 const parseSize = (value: string | null, fallback = 4) => {
   const parsed = Number.parseInt(value ?? "", 10);
   return Number.isNaN(parsed) ? fallback : parsed;
 };
 
+// Sums the weight components of the chosen chunks, so a result can be explained signal by signal.
+const closureBreakdown = (graph: Graph, ids: string[]) =>
+  ids.reduce<Partial<Record<WeightComponent, number>>>((acc, id) => {
+    Object.entries(graph.chunks[id]?.weightBreakdown ?? {}).forEach(([name, value]) => {
+      const key = name as WeightComponent;
+      acc[key] = Number(((acc[key] ?? 0) + value).toFixed(3));
+    });
+    return acc;
+  }, {});
+
 export async function GET(req: NextRequest) {
   const sizeParam = req.nextUrl.searchParams.get("size");
   const size = parseSize(sizeParam, 4);
@@ -24,7 +34,11 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ error: "Graph is required." }, { status: 400 });
     }
     const closure = solveClosureBySize(graph, size);
-    return NextResponse.json({ closure, graphSize: Object.keys(graph.chunks).length });
+    return NextResponse.json({
+      closure,
+      weightBreakdown: closureBreakdown(graph, closure.closure),
+      graphSize: Object.keys(graph.chunks).length,
+    });
   } catch (err: any) {
     return NextResponse.json({ error: err?.message ?? "Closure solve failed." }, { status: 500 });
   }
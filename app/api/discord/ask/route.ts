@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from "next/server";
+import { answerQuestion } from "@/lib/ask";
+import { withLLMCache } from "@/lib/cache";
+import { createLLMProvider, llmCost, llmPriceFor, LLMProviderName, resolveLLMProviderConfig } from "@/lib/llm";
+import { loadDiscordKnowledgeStore } from "@/lib/persist";
+import { resolveDiscordWorkspace } from "@/lib/workspaces";
+
+type AskPayload = {
+  workspace?: string;
+  question?: string;
+  provider?: LLMProviderName;
+  model?: string;
+  maxTickets?: number;
+  evidencePerTicket?: number;
+  llmCache?: boolean;
+  llmMaxRetries?: number;
+  llmTimeoutMs?: number;
+};
+
+const MAX_QUESTION_LENGTH = 500;
+
+export async function POST(req: NextRequest) {
+  const payload = (await req.json().catch(() => ({}))) as AskPayload;
+  const workspace = await resolveDiscordWorkspace(payload.workspace);
+  if (!workspace) {
+    return NextResponse.json({ error: `Unknown workspace: ${payload.workspace}` }, { status: 404 });
+  }
+  const question = typeof payload.question === "string" ? payload.question.trim() : "";
+  if (!question) {
+    return NextResponse.json({ error: "A question is required." }, { status: 400 });
+  }
+  if (question.length > MAX_QUESTION_LENGTH) {
+    return NextResponse.json(
+      { error: `Questions are limited to ${MAX_QUESTION_LENGTH} characters.` },
+      { status: 400 },
+    );
+  }
+  const llmConfig = resolveLLMProviderConfig({
+    provider: payload.provider ?? workspace.settings.provider,
+    model: payload.model ?? workspace.settings.model,
+    baseUrl: workspace.settings.llmBaseUrl,
+  });
+  if ("error" in llmConfig) {
+    return NextResponse.json({ error: llmConfig.error }, { status: 400 });
+  }
+
+  const store = await loadDiscordKnowledgeStore(workspace.storePath);
+  const provider = createLLMProvider(llmConfig);
+  const result = await answerQuestion(question, Object.values(store.ticketsById), {
+    provider: payload.llmCache === false ? provider : withLLMCache(provider, workspace.llmCacheDir),
+    maxTickets: Math.min(20, Math.max(1, Math.floor(Number(payload.maxTickets)) || 5)),
+    evidencePerTicket: Math.min(5, Math.max(1, Math.floor(Number(payload.evidencePerTicket)) || 2)),
+    maxRetries: payload.llmMaxRetries,
+    timeoutMs: payload.llmTimeoutMs,
+    signal: req.signal,
+  });
+  const costUsd = result.answer.cached
+    ? 0
+    : Number(llmCost(result.answer.usage, llmPriceFor(llmConfig.model, workspace.settings.llmPricing)).toFixed(6));
+  const body = {
+    workspace: workspace.id,
+    question,
+    provider: provider.name,
+    model: provider.model,
+    ...result.answer,
+    costUsd,
+  };
+
+  if ("failure" in result) {
+    if (result.failure.reason === "aborted") {
+      return NextResponse.json({ error: "Client disconnected; question cancelled." }, { status: 499 });
+    }
+    return NextResponse.json(
+      { error: `Could not answer the question: ${result.failure.message}`, details: result.failure, ...body },
+      { status: 502 },
+    );
+  }
+  return NextResponse.json(body);
+}
@@ -1,7 +1,13 @@
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
 import { listDiscordExportFiles } from "@/lib/discord";
+import { resolveDiscordWorkspace, workspaceExportSource } from "@/lib/workspaces";
 
-export async function GET() {
-  const channels = await listDiscordExportFiles();
+export async function GET(req: NextRequest) {
+  const workspaceId = req.nextUrl.searchParams.get("workspace");
+  const workspace = await resolveDiscordWorkspace(workspaceId);
+  if (!workspace) {
+    return NextResponse.json({ error: `Unknown workspace: ${workspaceId}` }, { status: 404 });
+  }
+  const channels = await listDiscordExportFiles(workspaceExportSource(workspace));
   return NextResponse.json({ channels });
 }
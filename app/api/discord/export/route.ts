@@ -1,7 +1,14 @@
 import { NextRequest, NextResponse } from "next/server";
 import fs from "fs/promises";
 import path from "path";
-import { DISCORD_EXPORT_DIR, listDiscordExportFiles } from "@/lib/discord";
+import { DiscordExportFormat, listDiscordExportFiles } from "@/lib/discord";
+import { resolveDiscordWorkspace, workspaceExportSource } from "@/lib/workspaces";
+
+const EXPORT_CONTENT_TYPES: Record<DiscordExportFormat, string> = {
+  html: "text/html",
+  json: "application/json",
+  txt: "text/plain",
+};
 
 export async function GET(req: NextRequest) {
   const fileParam = req.nextUrl.searchParams.get("file");
@@ -9,15 +16,21 @@ export async function GET(req: NextRequest) {
     return NextResponse.json({ error: "file is required." }, { status: 400 });
   }
 
+  const workspaceId = req.nextUrl.searchParams.get("workspace");
+  const workspace = await resolveDiscordWorkspace(workspaceId);
+  if (!workspace) {
+    return NextResponse.json({ error: `Unknown workspace: ${workspaceId}` }, { status: 404 });
+  }
+
   const file = path.basename(fileParam);
-  const channels = await listDiscordExportFiles();
+  const channels = await listDiscordExportFiles(workspaceExportSource(workspace));
   const match = channels.find((channel) => channel.file === file);
   if (!match) {
     return NextResponse.json({ error: "file not found." }, { status: 404 });
   }
 
-  const html = await fs.readFile(path.join(DISCORD_EXPORT_DIR, match.file), "utf8");
-  return new NextResponse(html, {
-    headers: { "Content-Type": "text/html; charset=utf-8" },
+  const contents = await fs.readFile(path.join(workspace.exportDir, match.file), "utf8");
+  return new NextResponse(contents, {
+    headers: { "Content-Type": `${EXPORT_CONTENT_TYPES[match.format]}; charset=utf-8` },
   });
 }
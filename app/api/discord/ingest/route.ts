@@ -1,74 +1,190 @@
 import { NextRequest, NextResponse } from "next/server";
 import {
+  activeSampleFilters,
+  channelMarkKey,
+  compareMessageIds,
+  createDiscordMessageSampler,
   DiscordSampleConfig,
+  isAfterMark,
   listDiscordExportFiles,
-  parseDiscordExportFile,
-  sampleDiscordMessages,
+  selectDiscordChannels,
+  streamDiscordExportFile,
+  validateSampleConfig,
 } from "@/lib/discord";
 import { buildKnowledgeResponse } from "@/lib/knowledge";
+import { withLLMCache } from "@/lib/cache";
+import { createEmbedder, EmbeddingProviderName, resolveEmbeddingConfig } from "@/lib/embeddings";
+import { createLLMProvider, llmPriceFor, LLMProviderName, resolveLLMProviderConfig } from "@/lib/llm";
+import { DiscordMessage, EdgeRelation } from "@/lib/types";
 import { loadOqoqoDocAnalyzerContext } from "@/lib/oqoqo";
+import { clusterTickets } from "@/lib/cluster";
+import { inferTicketEdges } from "@/lib/edges";
 import {
+  clusterDiscordKnowledge,
   createEmptyDiscordKnowledgeStore,
+  DiscordChannelMark,
+  inferDiscordKnowledgeEdges,
   loadDiscordKnowledgeStore,
   mergeDiscordKnowledge,
   saveDiscordKnowledgeStore,
 } from "@/lib/persist";
+import { loadDiscordRoster, normalizeDiscordRoster } from "@/lib/roster";
+import { loadTicketRules } from "@/lib/rules";
+import { buildSearchIndex, loadSearchIndex, saveSearchIndex, SearchIndexStats } from "@/lib/search";
+import { resolveDiscordWorkspace, workspaceExportSource } from "@/lib/workspaces";
 import {
   buildTicketsFromMessages,
+  extendTicketsAcrossBoundary,
   refineTicketsWithLLM,
+  TicketLLMRefineStats,
+  TicketSegmenter,
 } from "@/lib/tickets";
+import { TicketWeightConfig, validateWeightConfig } from "@/lib/weights";
 
 type IngestPayload = DiscordSampleConfig & {
+  workspace?: string;
   channels?: string[];
   maxTickets?: number;
   maxMessagesPerTicket?: number;
   windowMinutes?: number;
+  segmenter?: TicketSegmenter;
+  dedupe?: boolean;
+  dedupeThreshold?: number;
+  inferEdges?: boolean;
+  edgeThresholds?: Partial<Record<EdgeRelation, number>>;
+  weighting?: TicketWeightConfig;
   useLLM?: boolean;
+  provider?: LLMProviderName;
   model?: string;
   llmTicketLimit?: number;
   llmMaxInputChars?: number;
+  llmConcurrency?: number;
+  llmMaxRetries?: number;
+  llmTimeoutMs?: number;
+  llmCache?: boolean;
+  llmBudgetUsd?: number;
+  searchIndex?: boolean;
+  embeddingProvider?: EmbeddingProviderName;
+  embeddingModel?: string;
   persist?: boolean;
   persistMode?: "append" | "replace";
+  ingestMode?: "full" | "incremental";
+  staffAuthors?: string[];
+  botAuthors?: string[];
   includeOqoqoContext?: boolean;
   oqoqoMaxIssues?: number;
   oqoqoMaxChars?: number;
 };
 
 export async function POST(req: NextRequest) {
-  const body = (await req.json().catch(() => ({}))) as IngestPayload;
-  const channelFilter = body.channels ?? [];
-  const allChannels = await listDiscordExportFiles();
-
-  const selected =
-    channelFilter.length > 0
-      ? allChannels.filter((meta) =>
-          channelFilter.some(
-            (value) =>
-              value === meta.file ||
-              value === meta.channelId ||
-              value === meta.channel ||
-              value === meta.label,
-          ),
-        )
-      : allChannels.slice(0, 4);
+  const payload = (await req.json().catch(() => ({}))) as IngestPayload;
+  const workspace = await resolveDiscordWorkspace(payload.workspace);
+  if (!workspace) {
+    return NextResponse.json({ error: `Unknown workspace: ${payload.workspace}` }, { status: 404 });
+  }
+  // Workspace settings act as defaults; anything in the payload wins.
+  const body: IngestPayload = { ...workspace.settings, ...payload };
+  const sampleError = validateSampleConfig(body) ?? validateWeightConfig(body.weighting);
+  if (sampleError) {
+    return NextResponse.json({ error: sampleError }, { status: 400 });
+  }
+  const allChannels = await listDiscordExportFiles(workspaceExportSource(workspace));
+  const selected = selectDiscordChannels(allChannels, body.channels);
 
   if (selected.length === 0) {
     return NextResponse.json({ error: "No matching channels found." }, { status: 400 });
   }
 
-  const messageGroups = await Promise.all(selected.map((meta) => parseDiscordExportFile(meta)));
-  const allMessages = messageGroups.flat();
-  const sampled = sampleDiscordMessages(allMessages, {
+  const persist = body.persist !== false;
+  const persistMode = body.persistMode ?? "append";
+  const ingestMode = body.ingestMode ?? "full";
+  if (ingestMode === "incremental" && persist && persistMode === "replace") {
+    return NextResponse.json(
+      { error: "Incremental ingest cannot be combined with persistMode \"replace\"." },
+      { status: 400 },
+    );
+  }
+  // The channel mark moves past every streamed message, so messages a filter leaves out of an
+  // incremental run would never be seen by a later one.
+  const filters = ingestMode === "incremental" ? activeSampleFilters(body) : [];
+  if (filters.length) {
+    return NextResponse.json(
+      { error: `Incremental ingest cannot be combined with message filters (${filters.join(", ")}).` },
+      { status: 400 },
+    );
+  }
+  const { rules, errors: ruleErrors } = await loadTicketRules(workspace.rulesPath);
+  if (ruleErrors.length) {
+    return NextResponse.json({ error: `Invalid rules file: ${ruleErrors.join(" ")}` }, { status: 400 });
+  }
+  const stored = persist || ingestMode === "incremental" ? await loadDiscordKnowledgeStore(workspace.storePath) : null;
+
+  // Channels are streamed one at a time so only one export is being read at once, and messages
+  // go straight into the sampler, which keeps a bounded buffer per channel.
+  // Every streamed message advances the channel mark, even in incremental mode where only
+  // messages past the previous mark are kept; filters are rejected above for that reason.
+  const sampler = createDiscordMessageSampler({
     maxMessagesPerChannel: body.maxMessagesPerChannel,
     maxMessagesTotal: body.maxMessagesTotal,
     maxCharsPerMessage: body.maxCharsPerMessage,
     sampleStrategy: body.sampleStrategy,
+    since: body.since,
+    until: body.until,
+    includeAuthors: body.includeAuthors,
+    excludeAuthors: body.excludeAuthors,
+    minContentLength: body.minContentLength,
+    includePatterns: body.includePatterns,
+    excludePatterns: body.excludePatterns,
   });
+  const channelMarks: Record<string, DiscordChannelMark> = {};
+  for (const meta of selected) {
+    const key = channelMarkKey(meta);
+    const previousMark = ingestMode === "incremental" ? stored?.channelMarks[key] : undefined;
+    let newest: DiscordMessage | undefined;
+    for await (const message of streamDiscordExportFile(meta, { exportDir: workspace.exportDir })) {
+      if (!newest || compareMessageIds(message.id, newest.id) > 0) newest = message;
+      if (previousMark && !isAfterMark(message, previousMark)) continue;
+      sampler.add(message);
+    }
+    if (newest) {
+      channelMarks[key] = {
+        lastMessageId: newest.id,
+        ...(newest.timestamp ? { lastTimestamp: newest.timestamp } : {}),
+        updatedAt: new Date().toISOString(),
+      };
+    } else if (previousMark) {
+      channelMarks[key] = previousMark;
+    }
+  }
+  const sampled = sampler.finish();
 
-  const { tickets: baseTickets, edges, ticketSources } = await buildTicketsFromMessages(sampled, {
+  // Roster fields in the payload override the saved roster for this run only.
+  const savedRoster = await loadDiscordRoster(workspace.rosterPath);
+  const roster = normalizeDiscordRoster({
+    staff: body.staffAuthors ?? savedRoster.staff,
+    bots: body.botAuthors ?? savedRoster.bots,
+  });
+
+  // Conversations that straddle the previous mark extend their stored tickets.
+  const extension =
+    ingestMode === "incremental" && stored
+      ? extendTicketsAcrossBoundary(sampled, Object.values(stored.ticketsById), {
+          maxMessagesPerTicket: body.maxMessagesPerTicket,
+          windowMinutes: body.windowMinutes,
+          roster,
+          rules,
+        })
+      : { tickets: [], remaining: sampled, ticketSources: {} };
+
+  const { tickets: baseTickets, edges, ticketSources } = await buildTicketsFromMessages(extension.remaining, {
     maxTickets: body.maxTickets,
     maxMessagesPerTicket: body.maxMessagesPerTicket,
     windowMinutes: body.windowMinutes,
+    roster,
+    rules,
+    segmenter: body.segmenter,
+    // Edges are inferred once the new tickets sit alongside the stored ones.
+    edges: false,
   });
 
   let oqoqoContextSummary = "";
@@ -84,51 +200,70 @@ export async function POST(req: NextRequest) {
     oqoqoContextError = oqoqo.error;
   }
 
-  const persist = body.persist !== false;
-  const persistMode = body.persistMode ?? "append";
-  const stored = persist ? await loadDiscordKnowledgeStore() : null;
-
   // If a ticket already exists in the store, reuse it to avoid re-paying LLM costs.
-  const knownTicketsById = stored?.ticketsById ?? {};
+  const knownTicketsById = persist ? stored?.ticketsById ?? {} : {};
   let tickets = baseTickets.map((ticket) => knownTicketsById[ticket.id] ?? ticket);
 
+  let llmStats: TicketLLMRefineStats | undefined;
+  let llmError: string | undefined;
   if (body.useLLM) {
-    const apiKey = process.env.OPENAI_API_KEY;
-    if (!apiKey) {
-      return NextResponse.json(
-        { error: "OPENAI_API_KEY is required when useLLM is true." },
-        { status: 400 },
-      );
+    if (body.llmBudgetUsd !== undefined && !(typeof body.llmBudgetUsd === "number" && body.llmBudgetUsd >= 0)) {
+      return NextResponse.json({ error: "llmBudgetUsd must be a non-negative number." }, { status: 400 });
+    }
+    const llmConfig = resolveLLMProviderConfig({
+      provider: body.provider,
+      model: body.model,
+      baseUrl: workspace.settings.llmBaseUrl,
+    });
+    if ("error" in llmConfig) {
+      return NextResponse.json({ error: llmConfig.error }, { status: 400 });
     }
-    const model = body.model ?? "gpt-4o-mini";
-    const knownIds = new Set(Object.keys(knownTicketsById));
-    const toRefine = tickets.filter((t) => !knownIds.has(t.id));
+    const knownIds = new Set([
+      ...Object.keys(knownTicketsById),
+      ...(persist ? Object.keys(stored?.aliases ?? {}) : []),
+    ]);
+    // Tickets whose last refinement was rejected get another try.
+    const toRefine = tickets.filter((t) => !knownIds.has(t.id) || t.refinement?.status === "rejected");
+    const provider = createLLMProvider(llmConfig);
     if (toRefine.length > 0) {
       const { tickets: refinedNew, stats } = await refineTicketsWithLLM(toRefine, ticketSources, {
-        apiKey,
-        model,
+        provider: body.llmCache === false ? provider : withLLMCache(provider, workspace.llmCacheDir),
+        price: llmPriceFor(llmConfig.model, workspace.settings.llmPricing),
+        budgetUsd: body.llmBudgetUsd,
         maxTickets: body.llmTicketLimit,
         maxInputChars: body.llmMaxInputChars,
         extraContext: oqoqoContextSummary || undefined,
+        concurrency: body.llmConcurrency,
+        maxRetries: body.llmMaxRetries,
+        timeoutMs: body.llmTimeoutMs,
+        signal: req.signal,
       });
-      if (toRefine.length > 0 && stats.succeeded === 0) {
-        return NextResponse.json(
-          {
-            error: "LLM refinement produced no successful tickets.",
-            details: stats,
-          },
-          { status: 502 },
-        );
+      llmStats = stats;
+      // Nobody is waiting for the result, and a half-refined run should not be persisted.
+      if (stats.aborted) {
+        return NextResponse.json({ error: "Client disconnected; ingest cancelled.", details: stats }, { status: 499 });
+      }
+      // The heuristic tickets are still saved; the rejected ones are retried on the next run.
+      if (stats.succeeded === 0 && !stats.usage.skippedForBudget) {
+        llmError = "LLM refinement produced no successful tickets; heuristic tickets were kept.";
       }
       const refinedMap = new Map(refinedNew.map((t) => [t.id, t] as const));
       tickets = tickets.map((t) => refinedMap.get(t.id) ?? t);
     }
   }
+  tickets = [...tickets, ...extension.tickets];
 
   let knowledgeTickets = tickets;
   let knowledgeEdges = edges;
   let updatedAt: string | undefined;
   let newTicketsAdded: number | undefined;
+  let mergedDuplicates: number | undefined;
+  let inferredEdgeCount: number | undefined;
+  let searchIndex: SearchIndexStats | undefined;
+  let searchIndexError: string | undefined;
+  const dedupe = body.dedupe !== false;
+  const inferEdges = body.inferEdges !== false;
+  const edgeConfig = { thresholds: body.edgeThresholds };
 
   if (persist) {
     const baseStore =
@@ -136,21 +271,72 @@ export async function POST(req: NextRequest) {
         ? createEmptyDiscordKnowledgeStore()
         : stored ?? createEmptyDiscordKnowledgeStore();
     const prevCount = Object.keys(baseStore.ticketsById).length;
-    const merged = mergeDiscordKnowledge(baseStore, { tickets, edges });
-    await saveDiscordKnowledgeStore(merged);
+    let merged = mergeDiscordKnowledge(baseStore, { tickets, edges, channelMarks });
+    if (dedupe) {
+      const clustered = clusterDiscordKnowledge(merged, { threshold: body.dedupeThreshold });
+      merged = clustered.store;
+      mergedDuplicates = clustered.mergedCount;
+    }
+    if (inferEdges) {
+      const inferred = inferDiscordKnowledgeEdges(merged, edgeConfig);
+      merged = inferred.store;
+      inferredEdgeCount = inferred.inferredCount;
+    }
+    await saveDiscordKnowledgeStore(merged, workspace.storePath);
     knowledgeTickets = Object.values(merged.ticketsById);
     knowledgeEdges = merged.edges;
     updatedAt = merged.updatedAt;
     newTicketsAdded = Object.keys(merged.ticketsById).length - prevCount;
+
+    // The search index follows the saved store. A failure here is reported but does not undo the
+    // ingest; the search route rebuilds a missing index on demand.
+    if (body.searchIndex !== false) {
+      const embeddingConfig = resolveEmbeddingConfig({
+        provider: body.embeddingProvider,
+        model: body.embeddingModel,
+        baseUrl: workspace.settings.embeddingBaseUrl,
+      });
+      if ("error" in embeddingConfig) {
+        searchIndexError = embeddingConfig.error;
+      } else {
+        const messageContent = Object.fromEntries(
+          [...Object.values(ticketSources), ...Object.values(extension.ticketSources)]
+            .flat()
+            .map((msg) => [msg.id, msg.content] as const),
+        );
+        const built = await buildSearchIndex(knowledgeTickets, createEmbedder(embeddingConfig), {
+          messageContent,
+          previous: await loadSearchIndex(workspace.searchIndexPath),
+          signal: req.signal,
+        });
+        if ("failure" in built) {
+          searchIndexError = built.failure.message;
+        } else {
+          await saveSearchIndex(built.index, workspace.searchIndexPath);
+          searchIndex = built.stats;
+        }
+      }
+    }
+  } else {
+    if (dedupe) {
+      const clustered = clusterTickets(tickets, { threshold: body.dedupeThreshold });
+      knowledgeTickets = clustered.tickets;
+      mergedDuplicates = clustered.mergedCount;
+    }
+    if (inferEdges) {
+      knowledgeEdges = inferTicketEdges(knowledgeTickets, edgeConfig);
+      inferredEdgeCount = knowledgeEdges.length;
+    }
   }
 
-  const knowledge = buildKnowledgeResponse(knowledgeTickets, knowledgeEdges, updatedAt);
+  const knowledge = buildKnowledgeResponse(knowledgeTickets, knowledgeEdges, updatedAt, body.weighting);
   const evidenceMessageCount = knowledge.messageCount;
   const prompt = oqoqoContextSummary
     ? `${knowledge.prompt}\n\nDoc-analyzer context (~/Desktop/oqoqo):\n${oqoqoContextSummary}`
     : knowledge.prompt;
 
   return NextResponse.json({
+    workspace: workspace.id,
     channels: selected.map((meta) => meta.label),
     messageCount: evidenceMessageCount,
     sampledMessageCount: sampled.length,
@@ -163,5 +349,13 @@ export async function POST(req: NextRequest) {
     oqoqoContextError,
     updatedAt,
     newTicketsAdded,
+    mergedDuplicates,
+    inferredEdgeCount,
+    ...(llmStats ? { llmStats } : {}),
+    ...(llmError ? { llmError } : {}),
+    ...(searchIndex ? { searchIndex } : {}),
+    ...(searchIndexError ? { searchIndexError } : {}),
+    ingestMode,
+    extendedTicketCount: extension.tickets.length,
   });
 }
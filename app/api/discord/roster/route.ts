@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { DiscordRoster, loadDiscordRoster, normalizeDiscordRoster, saveDiscordRoster } from "@/lib/roster";
+import { resolveDiscordWorkspace } from "@/lib/workspaces";
+
+export async function GET(req: NextRequest) {
+  const workspaceId = req.nextUrl.searchParams.get("workspace");
+  const workspace = await resolveDiscordWorkspace(workspaceId);
+  if (!workspace) {
+    return NextResponse.json({ error: `Unknown workspace: ${workspaceId}` }, { status: 404 });
+  }
+  const roster = await loadDiscordRoster(workspace.rosterPath);
+  return NextResponse.json({ roster });
+}
+
+export async function PUT(req: NextRequest) {
+  const workspaceId = req.nextUrl.searchParams.get("workspace");
+  const workspace = await resolveDiscordWorkspace(workspaceId);
+  if (!workspace) {
+    return NextResponse.json({ error: `Unknown workspace: ${workspaceId}` }, { status: 404 });
+  }
+  const body = (await req.json().catch(() => null)) as Partial<DiscordRoster> | null;
+  if (!body || typeof body !== "object") {
+    return NextResponse.json({ error: "Expected a JSON body with staff and bots arrays." }, { status: 400 });
+  }
+  const roster = normalizeDiscordRoster(body);
+  await saveDiscordRoster(roster, workspace.rosterPath);
+  return NextResponse.json({ roster });
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server";
+import { evaluateTicketRules, loadTicketRules, normalizeTicketRules, TicketRules, validateTicketRules } from "@/lib/rules";
+import { resolveDiscordWorkspace } from "@/lib/workspaces";
+
+type DryRunPayload = {
+  workspace?: string;
+  content?: string;
+  channel?: string;
+  links?: string[];
+  rules?: Partial<TicketRules>;
+};
+
+// Shows which rules fire for a single message. Pass `rules` to try out edits before saving them;
+// otherwise the workspace's rules file (or the defaults) is used.
+export async function POST(req: NextRequest) {
+  const body = (await req.json().catch(() => ({}))) as DryRunPayload;
+  const workspace = await resolveDiscordWorkspace(body.workspace);
+  if (!workspace) {
+    return NextResponse.json({ error: `Unknown workspace: ${body.workspace}` }, { status: 404 });
+  }
+  if (typeof body.content !== "string" || !body.content.trim()) {
+    return NextResponse.json({ error: "content is required." }, { status: 400 });
+  }
+
+  let rules: TicketRules;
+  if (body.rules !== undefined) {
+    const errors = validateTicketRules(body.rules);
+    if (errors.length) {
+      return NextResponse.json({ error: "Invalid rules.", errors }, { status: 400 });
+    }
+    rules = normalizeTicketRules(body.rules);
+  } else {
+    const loaded = await loadTicketRules(workspace.rulesPath);
+    if (loaded.errors.length) {
+      return NextResponse.json({ error: "Invalid rules file.", errors: loaded.errors }, { status: 400 });
+    }
+    rules = loaded.rules;
+  }
+
+  const evaluation = evaluateTicketRules(rules, {
+    text: body.content,
+    channel: body.channel ?? "",
+    links: Array.isArray(body.links) ? body.links : undefined,
+  });
+  return NextResponse.json({ workspace: workspace.id, ...evaluation });
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from "next/server";
+import { loadTicketRules, normalizeTicketRules, saveTicketRules, TicketRules, validateTicketRules } from "@/lib/rules";
+import { resolveDiscordWorkspace } from "@/lib/workspaces";
+
+// `custom` is false when the workspace has no rules file and the built-in defaults apply.
+export async function GET(req: NextRequest) {
+  const workspaceId = req.nextUrl.searchParams.get("workspace");
+  const workspace = await resolveDiscordWorkspace(workspaceId);
+  if (!workspace) {
+    return NextResponse.json({ error: `Unknown workspace: ${workspaceId}` }, { status: 404 });
+  }
+  const { rules, custom, errors } = await loadTicketRules(workspace.rulesPath);
+  return NextResponse.json({ rules, custom, errors });
+}
+
+export async function PUT(req: NextRequest) {
+  const workspaceId = req.nextUrl.searchParams.get("workspace");
+  const workspace = await resolveDiscordWorkspace(workspaceId);
+  if (!workspace) {
+    return NextResponse.json({ error: `Unknown workspace: ${workspaceId}` }, { status: 404 });
+  }
+  const body = (await req.json().catch(() => null)) as Partial<TicketRules> | null;
+  const errors = validateTicketRules(body);
+  if (errors.length) {
+    return NextResponse.json({ error: "Invalid rules.", errors }, { status: 400 });
+  }
+  const rules = normalizeTicketRules(body ?? {});
+  await saveTicketRules(rules, workspace.rulesPath);
+  return NextResponse.json({ rules });
+}
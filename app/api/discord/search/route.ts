@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createEmbedder, resolveEmbeddingConfig } from "@/lib/embeddings";
+import { loadDiscordKnowledgeStore } from "@/lib/persist";
+import { buildSearchIndex, loadSearchIndex, saveSearchIndex, SearchDocumentType, searchIndex } from "@/lib/search";
+import { TicketSeverity } from "@/lib/types";
+import { resolveDiscordWorkspace } from "@/lib/workspaces";
+
+const SEVERITIES: TicketSeverity[] = ["low", "medium", "high", "critical"];
+const DOCUMENT_TYPES: SearchDocumentType[] = ["ticket", "message"];
+const MODES = ["hybrid", "keyword", "vector"] as const;
+
+const parseList = (value: string | null) =>
+  value
+    ?.split(",")
+    .map((item) => item.trim())
+    .filter(Boolean) ?? [];
+
+// `channel`, `severity` and `type` take comma-separated lists; `since` and `until` are dates.
+// `mode` picks hybrid (default), keyword-only or vector-only ranking.
+export async function GET(req: NextRequest) {
+  const params = req.nextUrl.searchParams;
+  const workspaceId = params.get("workspace");
+  const workspace = await resolveDiscordWorkspace(workspaceId);
+  if (!workspace) {
+    return NextResponse.json({ error: `Unknown workspace: ${workspaceId}` }, { status: 404 });
+  }
+  const query = params.get("q")?.trim() ?? "";
+  if (!query) {
+    return NextResponse.json({ error: "A query (q) is required." }, { status: 400 });
+  }
+  const severities = parseList(params.get("severity"));
+  const unknownSeverity = severities.find((value) => !SEVERITIES.includes(value as TicketSeverity));
+  if (unknownSeverity) {
+    return NextResponse.json(
+      { error: `Unknown severity: ${unknownSeverity}. Expected one of ${SEVERITIES.join(", ")}.` },
+      { status: 400 },
+    );
+  }
+  const types = parseList(params.get("type"));
+  const unknownType = types.find((value) => !DOCUMENT_TYPES.includes(value as SearchDocumentType));
+  if (unknownType) {
+    return NextResponse.json(
+      { error: `Unknown document type: ${unknownType}. Expected one of ${DOCUMENT_TYPES.join(", ")}.` },
+      { status: 400 },
+    );
+  }
+  const mode = (params.get("mode") ?? "hybrid") as (typeof MODES)[number];
+  if (!MODES.includes(mode)) {
+    return NextResponse.json({ error: `Unknown mode: ${mode}. Expected one of ${MODES.join(", ")}.` }, { status: 400 });
+  }
+  const since = params.get("since") ?? undefined;
+  const until = params.get("until") ?? undefined;
+  const badDate = [since, until].find((value) => value && Number.isNaN(Date.parse(value)));
+  if (badDate) {
+    return NextResponse.json({ error: `Invalid date: ${badDate}` }, { status: 400 });
+  }
+  const limit = Math.min(100, Math.max(1, Number(params.get("limit")) || 20));
+
+  // Stores written before the index existed get one built on first search.
+  let index = await loadSearchIndex(workspace.searchIndexPath);
+  const embeddingConfig = resolveEmbeddingConfig({
+    provider: index?.embedder.provider ?? workspace.settings.embeddingProvider,
+    model: index?.embedder.model ?? workspace.settings.embeddingModel,
+    baseUrl: workspace.settings.embeddingBaseUrl,
+  });
+  const embedder = "error" in embeddingConfig ? null : createEmbedder(embeddingConfig);
+  const embedderError = "error" in embeddingConfig ? embeddingConfig.error : undefined;
+  if (!index) {
+    if (!embedder) {
+      return NextResponse.json({ error: embedderError }, { status: 400 });
+    }
+    const store = await loadDiscordKnowledgeStore(workspace.storePath);
+    const built = await buildSearchIndex(Object.values(store.ticketsById), embedder, { signal: req.signal });
+    if ("failure" in built) {
+      return NextResponse.json(
+        { error: `Could not build the search index: ${built.failure.message}` },
+        { status: 502 },
+      );
+    }
+    await saveSearchIndex(built.index, workspace.searchIndexPath);
+    index = built.index;
+  }
+
+  // If the query cannot be embedded (no key, server down) the search falls back to keywords.
+  let queryVector: number[] | undefined;
+  let warning: string | undefined;
+  if (mode !== "keyword") {
+    const embedded = embedder ? await embedder.embed([query], req.signal) : undefined;
+    if (embedded?.ok) {
+      queryVector = embedded.vectors[0];
+    } else {
+      const reason = embedded ? embedded.failure.message : embedderError;
+      warning = `Vector search unavailable, showing keyword results: ${reason}`;
+    }
+  }
+
+  const results = searchIndex(index, query, queryVector, {
+    limit,
+    alpha: mode === "vector" ? 1 : mode === "keyword" ? 0 : undefined,
+    channels: parseList(params.get("channel")),
+    severities: severities as TicketSeverity[],
+    types: types as SearchDocumentType[],
+    since,
+    until,
+  });
+  return NextResponse.json({
+    workspace: workspace.id,
+    query,
+    mode: queryVector ? mode : "keyword",
+    embedder: `${index.embedder.provider}:${index.embedder.model}`,
+    indexedAt: index.builtAt,
+    documentCount: index.documents.length,
+    results,
+    ...(warning ? { warning } : {}),
+  });
+}
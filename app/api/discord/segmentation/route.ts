@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  createDiscordMessageSampler,
+  DiscordSampleConfig,
+  listDiscordExportFiles,
+  selectDiscordChannels,
+  streamDiscordExportFile,
+  validateSampleConfig,
+} from "@/lib/discord";
+import { loadDiscordRoster } from "@/lib/roster";
+import { loadTicketRules } from "@/lib/rules";
+import { segmentConversations, SegmentationConfig } from "@/lib/segment";
+import { compareTicketSegmenters, ticketSegmentationConfig } from "@/lib/tickets";
+import { resolveDiscordWorkspace, workspaceExportSource } from "@/lib/workspaces";
+
+type SegmentationPayload = DiscordSampleConfig & {
+  workspace?: string;
+  channels?: string[];
+  maxTickets?: number;
+  maxMessagesPerTicket?: number;
+  windowMinutes?: number;
+  segmentation?: SegmentationConfig;
+  segmentPreviewLimit?: number;
+};
+
+// Runs both segmenters over the same sample so their groupings can be compared side by side.
+export async function POST(req: NextRequest) {
+  const payload = (await req.json().catch(() => ({}))) as SegmentationPayload;
+  const workspace = await resolveDiscordWorkspace(payload.workspace);
+  if (!workspace) {
+    return NextResponse.json({ error: `Unknown workspace: ${payload.workspace}` }, { status: 404 });
+  }
+  const body: SegmentationPayload = { ...workspace.settings, ...payload };
+  const sampleError = validateSampleConfig(body);
+  if (sampleError) {
+    return NextResponse.json({ error: sampleError }, { status: 400 });
+  }
+
+  const { rules, errors: ruleErrors } = await loadTicketRules(workspace.rulesPath);
+  if (ruleErrors.length) {
+    return NextResponse.json({ error: `Invalid rules file: ${ruleErrors.join(" ")}` }, { status: 400 });
+  }
+
+  const selected = selectDiscordChannels(await listDiscordExportFiles(workspaceExportSource(workspace)), body.channels);
+  if (selected.length === 0) {
+    return NextResponse.json({ error: "No matching channels found." }, { status: 400 });
+  }
+
+  const sampler = createDiscordMessageSampler(body);
+  for (const meta of selected) {
+    for await (const message of streamDiscordExportFile(meta, { exportDir: workspace.exportDir })) {
+      sampler.add(message);
+    }
+  }
+  const sampled = sampler.finish();
+  const roster = await loadDiscordRoster(workspace.rosterPath);
+  const comparison = await compareTicketSegmenters(sampled, {
+    maxTickets: body.maxTickets,
+    maxMessagesPerTicket: body.maxMessagesPerTicket,
+    windowMinutes: body.windowMinutes,
+    segmentation: body.segmentation,
+    roster,
+    rules,
+  });
+  const segments = segmentConversations(sampled, ticketSegmentationConfig(body))
+    .slice(0, body.segmentPreviewLimit ?? 25)
+    .map((segment) => ({
+      id: segment.id,
+      channel: segment.channel,
+      threadId: segment.threadId,
+      messageIds: segment.messages.map((m) => m.id),
+      links: segment.links,
+    }));
+
+  return NextResponse.json({
+    workspace: workspace.id,
+    channels: selected.map((meta) => meta.label),
+    sampledMessageCount: sampled.length,
+    comparison,
+    segments,
+  });
+}
@@ -1,19 +1,60 @@
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
 import { buildKnowledgeResponse } from "@/lib/knowledge";
 import { clearDiscordKnowledgeStore, loadDiscordKnowledgeStore } from "@/lib/persist";
+import { TICKET_KINDS } from "@/lib/rules";
+import { clearSearchIndex } from "@/lib/search";
+import { TicketKind } from "@/lib/types";
+import { validateWeightConfig } from "@/lib/weights";
+import { resolveDiscordWorkspace } from "@/lib/workspaces";
 
-export async function GET() {
-  const store = await loadDiscordKnowledgeStore();
-  const tickets = Object.values(store.ticketsById).sort((a, b) => {
-    const at = a.evidence[0]?.timestamp ?? "";
-    const bt = b.evidence[0]?.timestamp ?? "";
-    return at.localeCompare(bt);
-  });
-  return NextResponse.json(buildKnowledgeResponse(tickets, store.edges, store.updatedAt));
+const parseKinds = (value: string | null) =>
+  value
+    ?.split(",")
+    .map((kind) => kind.trim())
+    .filter(Boolean) ?? [];
+
+// `kind` keeps only the listed kinds and `excludeKind` drops them, both comma-separated.
+export async function GET(req: NextRequest) {
+  const workspaceId = req.nextUrl.searchParams.get("workspace");
+  const workspace = await resolveDiscordWorkspace(workspaceId);
+  if (!workspace) {
+    return NextResponse.json({ error: `Unknown workspace: ${workspaceId}` }, { status: 404 });
+  }
+  const includeKinds = parseKinds(req.nextUrl.searchParams.get("kind"));
+  const excludeKinds = parseKinds(req.nextUrl.searchParams.get("excludeKind"));
+  const unknownKind = [...includeKinds, ...excludeKinds].find((kind) => !TICKET_KINDS.includes(kind as TicketKind));
+  if (unknownKind) {
+    return NextResponse.json(
+      { error: `Unknown ticket kind: ${unknownKind}. Expected one of ${TICKET_KINDS.join(", ")}.` },
+      { status: 400 },
+    );
+  }
+  const weightError = validateWeightConfig(workspace.settings.weighting);
+  if (weightError) {
+    return NextResponse.json({ error: `Invalid workspace weighting: ${weightError}` }, { status: 400 });
+  }
+
+  const store = await loadDiscordKnowledgeStore(workspace.storePath);
+  const tickets = Object.values(store.ticketsById)
+    .filter((ticket) => !includeKinds.length || (ticket.kind && includeKinds.includes(ticket.kind)))
+    .filter((ticket) => !ticket.kind || !excludeKinds.includes(ticket.kind))
+    .sort((a, b) => {
+      const at = a.evidence[0]?.timestamp ?? "";
+      const bt = b.evidence[0]?.timestamp ?? "";
+      return at.localeCompare(bt);
+    });
+  const kept = new Set(tickets.map((ticket) => ticket.id));
+  const edges = store.edges.filter((edge) => kept.has(edge.from) && kept.has(edge.to));
+  return NextResponse.json(buildKnowledgeResponse(tickets, edges, store.updatedAt, workspace.settings.weighting));
 }
 
-export async function DELETE() {
-  await clearDiscordKnowledgeStore();
+export async function DELETE(req: NextRequest) {
+  const workspaceId = req.nextUrl.searchParams.get("workspace");
+  const workspace = await resolveDiscordWorkspace(workspaceId);
+  if (!workspace) {
+    return NextResponse.json({ error: `Unknown workspace: ${workspaceId}` }, { status: 404 });
+  }
+  await clearDiscordKnowledgeStore(workspace.storePath);
+  await clearSearchIndex(workspace.searchIndexPath);
   return NextResponse.json({ ok: true });
 }
-
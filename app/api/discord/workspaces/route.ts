@@ -0,0 +1,7 @@
+import { NextResponse } from "next/server";
+import { listDiscordWorkspaces, publicWorkspace } from "@/lib/workspaces";
+
+export async function GET() {
+  const workspaces = await listDiscordWorkspaces();
+  return NextResponse.json({ workspaces: workspaces.map(publicWorkspace) });
+}
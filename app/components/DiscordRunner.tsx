@@ -1,11 +1,17 @@
 "use client";
 
 import { useEffect, useMemo, useState } from "react";
-import { Chunk, Graph, Ticket } from "@/lib/types";
+import { Chunk, EdgeRelation, Graph, Ticket, TicketKind } from "@/lib/types";
 import GraphViewer from "@/app/components/GraphViewer";
+import { ENTITY_TYPES, EntityType } from "@/lib/entities";
+import type { AskAnswer } from "@/lib/ask";
+import type { LLMProviderName } from "@/lib/llm";
+import type { SearchIndexStats, SearchResult } from "@/lib/search";
+import type { TicketLLMRefineStats } from "@/lib/tickets";
 
 type ChannelMeta = {
   file: string;
+  format: "html" | "json" | "txt";
   channel: string;
   channelId?: string;
   category?: string;
@@ -23,11 +29,104 @@ type IngestResponse = {
   evidenceMessageCount?: number;
   updatedAt?: string;
   newTicketsAdded?: number;
+  extendedTicketCount?: number;
+  mergedDuplicates?: number;
+  inferredEdgeCount?: number;
+  llmStats?: TicketLLMRefineStats;
+  llmError?: string;
+  searchIndex?: SearchIndexStats;
+  searchIndexError?: string;
   oqoqoContextIncluded?: boolean;
   oqoqoContextError?: string;
   error?: string;
 };
 
+type AskResponse = AskAnswer & {
+  costUsd?: number;
+  error?: string;
+};
+
+type SearchResponse = {
+  results?: SearchResult[];
+  mode?: string;
+  warning?: string;
+  error?: string;
+};
+
+type SampleStrategy = "recent" | "random" | "stratified" | "unanswered";
+
+type WorkspaceSettings = {
+  maxMessagesTotal?: number;
+  maxMessagesPerChannel?: number;
+  maxCharsPerMessage?: number;
+  maxTickets?: number;
+  maxMessagesPerTicket?: number;
+  windowMinutes?: number;
+  sampleStrategy?: SampleStrategy;
+  provider?: LLMProviderName;
+  model?: string;
+};
+
+type WorkspaceMeta = {
+  id: string;
+  name: string;
+  settings: WorkspaceSettings;
+};
+
+const splitList = (value: string) =>
+  value
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+const formatLatency = (minutes: number) => {
+  if (minutes < 60) return `${minutes}m`;
+  if (minutes < 48 * 60) return `${Math.round(minutes / 60)}h`;
+  return `${Math.round(minutes / 1440)}d`;
+};
+
+const kindLabels: Record<TicketKind, string> = {
+  bug: "Bug",
+  question: "Question",
+  feature_request: "Feature request",
+  doc_gap: "Doc gap",
+  announcement: "Announcement",
+};
+
+const entityLabels: Record<EntityType, string> = {
+  languages: "Language",
+  deployments: "Deployment",
+  versions: "Version",
+  errors: "Error",
+  symbols: "API symbol",
+};
+
+const relationLabels: Record<EdgeRelation, string> = {
+  duplicate: "Duplicate of",
+  same_symbol: "Same API symbol as",
+  same_doc_gap: "Same doc page as",
+  follow_up: "Follow-up to",
+};
+
+const providerLabels: Record<LLMProviderName, string> = {
+  openai: "OpenAI",
+  "openai-compatible": "OpenAI-compatible",
+  anthropic: "Anthropic",
+  mock: "Mock (offline)",
+};
+
+const providerDefaultModels: Record<LLMProviderName, string> = {
+  openai: "gpt-4o-mini",
+  "openai-compatible": "",
+  anthropic: "claude-3-5-haiku-latest",
+  mock: "mock",
+};
+
+const redactionTotal = (stats: TicketLLMRefineStats) =>
+  Object.values(stats.redactions ?? {}).reduce((sum, count) => sum + (count ?? 0), 0);
+
+const formatDay = (timestamp?: string) => (timestamp ? new Date(timestamp).toLocaleDateString() : "?");
+
 type SeverityStyle = {
   bg: string;
   fg: string;
@@ -43,6 +142,8 @@ const severityStyles: Record<string, SeverityStyle> = {
 };
 
 export default function DiscordRunner() {
+  const [workspaces, setWorkspaces] = useState<WorkspaceMeta[]>([]);
+  const [workspace, setWorkspace] = useState("default");
   const [channels, setChannels] = useState<ChannelMeta[]>([]);
   const [selected, setSelected] = useState<Set<string>>(new Set());
   const [maxMessagesTotal, setMaxMessagesTotal] = useState(400);
@@ -51,32 +152,82 @@ export default function DiscordRunner() {
   const [maxTickets, setMaxTickets] = useState(60);
   const [maxMessagesPerTicket, setMaxMessagesPerTicket] = useState(6);
   const [windowMinutes, setWindowMinutes] = useState(45);
-  const [sampleStrategy, setSampleStrategy] = useState<"recent" | "random">("recent");
+  const [segmenter, setSegmenter] = useState<"conversation" | "window">("conversation");
+  const [sampleStrategy, setSampleStrategy] = useState<SampleStrategy>("recent");
+  const [since, setSince] = useState("");
+  const [until, setUntil] = useState("");
+  const [includeAuthors, setIncludeAuthors] = useState("");
+  const [excludeAuthors, setExcludeAuthors] = useState("");
+  const [minContentLength, setMinContentLength] = useState(0);
+  const [includePattern, setIncludePattern] = useState("");
+  const [excludePattern, setExcludePattern] = useState("");
+  const [staffAuthors, setStaffAuthors] = useState("");
+  const [botAuthors, setBotAuthors] = useState("");
+  const [rosterStatus, setRosterStatus] = useState<string | null>(null);
+  const [statusFilter, setStatusFilter] = useState<"all" | "open" | "answered" | "resolved">("all");
+  const [kindFilter, setKindFilter] = useState<"all" | TicketKind>("all");
+  const [entityFilter, setEntityFilter] = useState("");
+  const [groupBy, setGroupBy] = useState<"none" | EntityType>("none");
+  const [incremental, setIncremental] = useState(false);
+  const [dedupe, setDedupe] = useState(true);
   const [useLLM, setUseLLM] = useState(false);
   const [includeOqoqoContext, setIncludeOqoqoContext] = useState(false);
+  const [provider, setProvider] = useState<LLMProviderName>("openai");
   const [model, setModel] = useState("gpt-4o-mini");
   const [llmTicketLimit, setLlmTicketLimit] = useState(12);
   const [llmMaxInputChars, setLlmMaxInputChars] = useState(6000);
+  const [llmBudgetUsd, setLlmBudgetUsd] = useState("");
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [result, setResult] = useState<IngestResponse | null>(null);
   const [activeChunk, setActiveChunk] = useState<Chunk | null>(null);
   const [showReasoning, setShowReasoning] = useState(false);
+  const [question, setQuestion] = useState("");
+  const [asking, setAsking] = useState(false);
+  const [askResult, setAskResult] = useState<AskResponse | null>(null);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [searchSeverity, setSearchSeverity] = useState("");
+  const [searchChannel, setSearchChannel] = useState("");
+  const [searchMode, setSearchMode] = useState<"hybrid" | "keyword" | "vector">("hybrid");
+  const [searchResult, setSearchResult] = useState<SearchResponse | null>(null);
+
+  const workspaceQuery = `workspace=${encodeURIComponent(workspace)}`;
+
+  useEffect(() => {
+    const loadWorkspaces = async () => {
+      const res = await fetch("/api/discord/workspaces");
+      if (!res.ok) return;
+      const json = (await res.json()) as { workspaces?: WorkspaceMeta[] };
+      setWorkspaces(json.workspaces ?? []);
+    };
+    loadWorkspaces().catch(() => setWorkspaces([]));
+  }, []);
 
   useEffect(() => {
     const loadChannels = async () => {
-      const res = await fetch("/api/discord/channels");
+      const res = await fetch(`/api/discord/channels?${workspaceQuery}`);
       const json = (await res.json()) as { channels: ChannelMeta[] };
       setChannels(json.channels ?? []);
       const initial = new Set((json.channels ?? []).slice(0, 4).map((c) => c.file));
       setSelected(initial);
     };
     loadChannels().catch(() => setChannels([]));
-  }, []);
+  }, [workspaceQuery]);
+
+  useEffect(() => {
+    const loadRoster = async () => {
+      const res = await fetch(`/api/discord/roster?${workspaceQuery}`);
+      if (!res.ok) return;
+      const json = (await res.json()) as { roster?: { staff: string[]; bots: string[] } };
+      setStaffAuthors(json.roster?.staff.join(", ") ?? "");
+      setBotAuthors(json.roster?.bots.join(", ") ?? "");
+    };
+    loadRoster().catch(() => null);
+  }, [workspaceQuery]);
 
   useEffect(() => {
     const loadPersisted = async () => {
-      const res = await fetch("/api/discord/state");
+      const res = await fetch(`/api/discord/state?${workspaceQuery}`);
       if (!res.ok) return;
       const json = (await res.json()) as IngestResponse;
       if (json?.tickets?.length) {
@@ -84,18 +235,79 @@ export default function DiscordRunner() {
       }
     };
     loadPersisted().catch(() => null);
-  }, []);
+  }, [workspaceQuery]);
+
+  const selectWorkspace = (id: string) => {
+    setWorkspace(id);
+    setResult(null);
+    setRosterStatus(null);
+    const settings = workspaces.find((w) => w.id === id)?.settings ?? {};
+    if (typeof settings.maxMessagesTotal === "number") setMaxMessagesTotal(settings.maxMessagesTotal);
+    if (typeof settings.maxMessagesPerChannel === "number") setMaxMessagesPerChannel(settings.maxMessagesPerChannel);
+    if (typeof settings.maxCharsPerMessage === "number") setMaxCharsPerMessage(settings.maxCharsPerMessage);
+    if (typeof settings.maxTickets === "number") setMaxTickets(settings.maxTickets);
+    if (typeof settings.maxMessagesPerTicket === "number") setMaxMessagesPerTicket(settings.maxMessagesPerTicket);
+    if (typeof settings.windowMinutes === "number") setWindowMinutes(settings.windowMinutes);
+    if (settings.sampleStrategy) setSampleStrategy(settings.sampleStrategy);
+    if (settings.provider) setProvider(settings.provider);
+    if (settings.model) setModel(settings.model);
+  };
 
   const selectedChannels = useMemo(() => {
     return channels.filter((c) => selected.has(c.file));
   }, [channels, selected]);
 
+  const activeEdges = useMemo(() => {
+    if (!activeChunk) return [];
+    return (result?.graph.edges ?? []).filter((edge) => edge.from === activeChunk.id || edge.to === activeChunk.id);
+  }, [result, activeChunk]);
+
   const ticketsById = useMemo(() => {
     const map = new Map<string, Ticket>();
     result?.tickets?.forEach((ticket) => map.set(ticket.id, ticket));
     return map;
   }, [result]);
 
+  const visibleTickets = useMemo(() => {
+    return (result?.tickets ?? [])
+      .filter((ticket) => statusFilter === "all" || ticket.status === statusFilter)
+      .filter((ticket) => kindFilter === "all" || ticket.kind === kindFilter)
+      .filter((ticket) => {
+        const needle = entityFilter.trim().toLowerCase();
+        if (!needle) return true;
+        return ENTITY_TYPES.some((type) =>
+          ticket.entities?.[type]?.some((value) => value.toLowerCase().includes(needle)),
+        );
+      });
+  }, [result, statusFilter, kindFilter, entityFilter]);
+
+  // A ticket with several values for the grouped entity appears under each of them.
+  const ticketGroups = useMemo(() => {
+    if (groupBy === "none") return [{ key: "all", label: "", tickets: visibleTickets }];
+    const groups = new Map<string, Ticket[]>();
+    visibleTickets.forEach((ticket) => {
+      const values = ticket.entities?.[groupBy] ?? [`No ${entityLabels[groupBy].toLowerCase()}`];
+      values.forEach((value) => groups.set(value, [...(groups.get(value) ?? []), ticket]));
+    });
+    return [...groups.entries()]
+      .sort((a, b) => b[1].length - a[1].length)
+      .map(([value, tickets]) => ({ key: value, label: `${entityLabels[groupBy]}: ${value}`, tickets }));
+  }, [visibleTickets, groupBy]);
+
+  const saveRoster = async () => {
+    setRosterStatus(null);
+    try {
+      const res = await fetch(`/api/discord/roster?${workspaceQuery}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ staff: splitList(staffAuthors), bots: splitList(botAuthors) }),
+      });
+      setRosterStatus(res.ok ? "Roster saved." : "Could not save roster.");
+    } catch {
+      setRosterStatus("Could not save roster.");
+    }
+  };
+
   const runIngest = async () => {
     setLoading(true);
     setError(null);
@@ -105,6 +317,7 @@ export default function DiscordRunner() {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
+          workspace,
           channels: [...selected],
           maxMessagesTotal,
           maxMessagesPerChannel,
@@ -112,11 +325,25 @@ export default function DiscordRunner() {
           maxTickets,
           maxMessagesPerTicket,
           windowMinutes,
+          segmenter,
           sampleStrategy,
+          since: since || undefined,
+          until: until || undefined,
+          includeAuthors: splitList(includeAuthors),
+          excludeAuthors: splitList(excludeAuthors),
+          minContentLength,
+          includePatterns: includePattern ? [includePattern] : undefined,
+          excludePatterns: excludePattern ? [excludePattern] : undefined,
+          staffAuthors: splitList(staffAuthors),
+          botAuthors: splitList(botAuthors),
+          ingestMode: incremental ? "incremental" : "full",
+          dedupe,
           useLLM,
+          provider,
           model,
           llmTicketLimit,
           llmMaxInputChars,
+          llmBudgetUsd: llmBudgetUsd.trim() ? Number(llmBudgetUsd) : undefined,
           includeOqoqoContext,
         }),
       });
@@ -133,6 +360,36 @@ export default function DiscordRunner() {
     }
   };
 
+  // Answers come from the saved store, so this works without re-running an ingest.
+  const runAsk = async () => {
+    setAsking(true);
+    setAskResult(null);
+    try {
+      const res = await fetch("/api/discord/ask", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ workspace, question, provider, model }),
+      });
+      setAskResult((await res.json()) as AskResponse);
+    } catch (err) {
+      setAskResult({ error: err instanceof Error ? err.message : "Unknown error." } as AskResponse);
+    } finally {
+      setAsking(false);
+    }
+  };
+
+  const runSearch = async () => {
+    const params = new URLSearchParams({ workspace, q: searchQuery, mode: searchMode });
+    if (searchSeverity) params.set("severity", searchSeverity);
+    if (searchChannel) params.set("channel", searchChannel);
+    try {
+      const res = await fetch(`/api/discord/search?${params.toString()}`);
+      setSearchResult((await res.json()) as SearchResponse);
+    } catch (err) {
+      setSearchResult({ error: err instanceof Error ? err.message : "Unknown error." });
+    }
+  };
+
   const buttonSecondary = {
     padding: "6px 10px",
     borderRadius: 8,
@@ -162,6 +419,22 @@ export default function DiscordRunner() {
       </div>
 
       <div style={{ display: "grid", gap: 12, marginTop: 14 }}>
+        {workspaces.length > 1 ? (
+          <label style={{ display: "flex", alignItems: "center", gap: 8, fontSize: 13 }}>
+            Workspace
+            <select
+              value={workspace}
+              onChange={(e) => selectWorkspace(e.target.value)}
+              style={{ ...inputBase, width: 220 }}
+            >
+              {workspaces.map((w) => (
+                <option key={w.id} value={w.id}>
+                  {w.name}
+                </option>
+              ))}
+            </select>
+          </label>
+        ) : null}
         <div style={{ display: "flex", gap: 8, flexWrap: "wrap", alignItems: "center" }}>
           <button type="button" onClick={() => setSelected(new Set(channels.map((c) => c.file)))} style={buttonSecondary}>
             Select all
@@ -172,7 +445,7 @@ export default function DiscordRunner() {
           <button
             type="button"
             onClick={async () => {
-              await fetch("/api/discord/state", { method: "DELETE" });
+              await fetch(`/api/discord/state?${workspaceQuery}`, { method: "DELETE" });
               setResult(null);
             }}
             style={buttonSecondary}
@@ -289,19 +562,124 @@ export default function DiscordRunner() {
               style={{ ...inputBase, width: 120 }}
             />
           </label>
+          <label style={{ display: "flex", flexDirection: "column", gap: 4, fontSize: 12 }}>
+            Grouping
+            <select
+              value={segmenter}
+              onChange={(e) => setSegmenter(e.target.value as "conversation" | "window")}
+              style={{ ...inputBase, width: 160 }}
+            >
+              <option value="conversation">Conversations</option>
+              <option value="window">Time window</option>
+            </select>
+          </label>
           <label style={{ display: "flex", flexDirection: "column", gap: 4, fontSize: 12 }}>
             Sample strategy
             <select
               value={sampleStrategy}
-              onChange={(e) => setSampleStrategy(e.target.value as "recent" | "random")}
+              onChange={(e) => setSampleStrategy(e.target.value as SampleStrategy)}
               style={{ ...inputBase, width: 160 }}
             >
               <option value="recent">Recent</option>
               <option value="random">Random</option>
+              <option value="stratified">Spread across weeks</option>
+              <option value="unanswered">Unanswered questions first</option>
             </select>
           </label>
         </div>
 
+        <div style={{ display: "flex", gap: 12, flexWrap: "wrap" }}>
+          <label style={{ display: "flex", flexDirection: "column", gap: 4, fontSize: 12 }}>
+            Since
+            <input
+              type="date"
+              value={since}
+              onChange={(e) => setSince(e.target.value)}
+              style={{ ...inputBase, width: 160 }}
+            />
+          </label>
+          <label style={{ display: "flex", flexDirection: "column", gap: 4, fontSize: 12 }}>
+            Until
+            <input
+              type="date"
+              value={until}
+              onChange={(e) => setUntil(e.target.value)}
+              style={{ ...inputBase, width: 160 }}
+            />
+          </label>
+          <label style={{ display: "flex", flexDirection: "column", gap: 4, fontSize: 12 }}>
+            Only authors (comma-separated)
+            <input
+              type="text"
+              value={includeAuthors}
+              onChange={(e) => setIncludeAuthors(e.target.value)}
+              style={{ ...inputBase, width: 200 }}
+            />
+          </label>
+          <label style={{ display: "flex", flexDirection: "column", gap: 4, fontSize: 12 }}>
+            Exclude authors (comma-separated)
+            <input
+              type="text"
+              value={excludeAuthors}
+              onChange={(e) => setExcludeAuthors(e.target.value)}
+              style={{ ...inputBase, width: 200 }}
+            />
+          </label>
+          <label style={{ display: "flex", flexDirection: "column", gap: 4, fontSize: 12 }}>
+            Min chars/message
+            <input
+              type="number"
+              value={minContentLength}
+              min={0}
+              onChange={(e) => setMinContentLength(Number.parseInt(e.target.value, 10) || 0)}
+              style={{ ...inputBase, width: 140 }}
+            />
+          </label>
+          <label style={{ display: "flex", flexDirection: "column", gap: 4, fontSize: 12 }}>
+            Include regex
+            <input
+              type="text"
+              value={includePattern}
+              onChange={(e) => setIncludePattern(e.target.value)}
+              style={{ ...inputBase, width: 180 }}
+            />
+          </label>
+          <label style={{ display: "flex", flexDirection: "column", gap: 4, fontSize: 12 }}>
+            Exclude regex
+            <input
+              type="text"
+              value={excludePattern}
+              onChange={(e) => setExcludePattern(e.target.value)}
+              style={{ ...inputBase, width: 180 }}
+            />
+          </label>
+        </div>
+
+        <div style={{ display: "flex", gap: 12, flexWrap: "wrap", alignItems: "flex-end" }}>
+          <label style={{ display: "flex", flexDirection: "column", gap: 4, fontSize: 12 }}>
+            Staff authors (comma-separated)
+            <input
+              type="text"
+              value={staffAuthors}
+              onChange={(e) => setStaffAuthors(e.target.value)}
+              style={{ ...inputBase, width: 280 }}
+            />
+          </label>
+          <label style={{ display: "flex", flexDirection: "column", gap: 4, fontSize: 12 }}>
+            Bot accounts (comma-separated)
+            <input
+              type="text"
+              value={botAuthors}
+              onChange={(e) => setBotAuthors(e.target.value)}
+              style={{ ...inputBase, width: 220 }}
+            />
+          </label>
+          <button type="button" onClick={saveRoster} style={buttonSecondary}>
+            Save roster
+          </button>
+          {rosterStatus ? <span style={{ fontSize: 12, color: "var(--muted)" }}>{rosterStatus}</span> : null}
+        </div>
+
         <div
           style={{
             display: "grid",
@@ -312,9 +690,17 @@ export default function DiscordRunner() {
             background: "var(--card)",
           }}
         >
+          <label style={{ display: "flex", alignItems: "center", gap: 8, fontSize: 13 }}>
+            <input type="checkbox" checked={incremental} onChange={() => setIncremental((prev) => !prev)} />
+            Only ingest messages newer than the last run
+          </label>
+          <label style={{ display: "flex", alignItems: "center", gap: 8, fontSize: 13 }}>
+            <input type="checkbox" checked={dedupe} onChange={() => setDedupe((prev) => !prev)} />
+            Merge recurring issues into one ticket
+          </label>
           <label style={{ display: "flex", alignItems: "center", gap: 8, fontSize: 13 }}>
             <input type="checkbox" checked={useLLM} onChange={() => setUseLLM((prev) => !prev)} />
-            Use OpenAI to refine tickets
+            Use an LLM to refine tickets
           </label>
           <label style={{ display: "flex", alignItems: "center", gap: 8, fontSize: 13 }}>
             <input
@@ -332,6 +718,25 @@ export default function DiscordRunner() {
               opacity: useLLM ? 1 : 0.5,
             }}
           >
+            <label style={{ display: "flex", flexDirection: "column", gap: 4, fontSize: 12 }}>
+              Provider
+              <select
+                value={provider}
+                onChange={(e) => {
+                  const next = e.target.value as LLMProviderName;
+                  setProvider(next);
+                  setModel(providerDefaultModels[next]);
+                }}
+                disabled={!useLLM}
+                style={{ ...inputBase, width: 180 }}
+              >
+                {(Object.keys(providerLabels) as LLMProviderName[]).map((name) => (
+                  <option key={name} value={name}>
+                    {providerLabels[name]}
+                  </option>
+                ))}
+              </select>
+            </label>
             <label style={{ display: "flex", flexDirection: "column", gap: 4, fontSize: 12 }}>
               Model
               <input
@@ -364,8 +769,21 @@ export default function DiscordRunner() {
                 style={{ ...inputBase, width: 160 }}
               />
             </label>
+            <label style={{ display: "flex", flexDirection: "column", gap: 4, fontSize: 12 }}>
+              Budget (USD)
+              <input
+                type="number"
+                value={llmBudgetUsd}
+                min={0}
+                step={0.01}
+                placeholder="No cap"
+                onChange={(e) => setLlmBudgetUsd(e.target.value)}
+                disabled={!useLLM}
+                style={{ ...inputBase, width: 120 }}
+              />
+            </label>
             <span style={{ fontSize: 12, color: "var(--muted)", alignSelf: "flex-end" }}>
-              Requires OPENAI_API_KEY in the server environment.
+              Keys and the OpenAI-compatible base URL are read from the server environment.
             </span>
           </div>
         </div>
@@ -424,7 +842,46 @@ export default function DiscordRunner() {
                 {typeof result.newTicketsAdded === "number" ? (
                   <span style={{ marginLeft: 8, color: "var(--muted)", fontSize: 12 }}>(+{result.newTicketsAdded} new)</span>
                 ) : null}
+                {result.extendedTicketCount ? (
+                  <span style={{ marginLeft: 8, color: "var(--muted)", fontSize: 12 }}>({result.extendedTicketCount} extended)</span>
+                ) : null}
+                {result.mergedDuplicates ? (
+                  <span style={{ marginLeft: 8, color: "var(--muted)", fontSize: 12 }}>({result.mergedDuplicates} duplicates merged)</span>
+                ) : null}
+                {result.inferredEdgeCount ? (
+                  <span style={{ marginLeft: 8, color: "var(--muted)", fontSize: 12 }}>({result.inferredEdgeCount} inferred links)</span>
+                ) : null}
               </div>
+              {result.llmStats ? (
+                <div style={{ fontSize: 12, color: result.llmStats.failed ? "#b91c1c" : "var(--muted)" }}>
+                  <strong>LLM refinement:</strong> {result.llmStats.succeeded}/{result.llmStats.attempted} succeeded
+                  {result.llmStats.retried ? `, ${result.llmStats.retried} retries` : ""}
+                  {`, ${result.llmStats.usage.cachedCalls} cached, $${result.llmStats.usage.costUsd.toFixed(4)}`}
+                  {result.llmStats.usage.budgetExceeded
+                    ? ` (budget reached, ${result.llmStats.usage.skippedForBudget} skipped)`
+                    : ""}
+                  {redactionTotal(result.llmStats) ? `, ${redactionTotal(result.llmStats)} redacted` : ""}
+                  {result.llmStats.injectionSuspected
+                    ? `, ${result.llmStats.injectionSuspected} with suspected prompt injection`
+                    : ""}
+                  {result.llmStats.failures.length
+                    ? ` (${result.llmStats.failures
+                        .slice(0, 3)
+                        .map((f) => (f.status ? `${f.reason} ${f.status}` : f.reason))
+                        .join(", ")}${result.llmStats.failures.length > 3 ? ", ..." : ""})`
+                    : ""}
+                  {result.llmError ? `. ${result.llmError}` : ""}
+                </div>
+              ) : null}
+              {result.searchIndex || result.searchIndexError ? (
+                <div style={{ fontSize: 12, color: result.searchIndexError ? "#b91c1c" : "var(--muted)" }}>
+                  <strong>Search index:</strong>{" "}
+                  {result.searchIndex
+                    ? `${result.searchIndex.documents} documents (${result.searchIndex.embedded} embedded, ` +
+                      `${result.searchIndex.reused} reused, ${result.searchIndex.embedder})`
+                    : result.searchIndexError}
+                </div>
+              ) : null}
               {result.updatedAt ? (
                 <div style={{ fontSize: 12, color: "var(--muted)" }}>Last saved: {new Date(result.updatedAt).toLocaleString()}</div>
               ) : null}
@@ -450,61 +907,292 @@ export default function DiscordRunner() {
               />
               Show background reasoning
             </label>
+            <label style={{ display: "flex", alignItems: "center", gap: 6, fontSize: 13, color: "var(--muted)" }}>
+              Status
+              <select
+                value={statusFilter}
+                onChange={(e) => setStatusFilter(e.target.value as typeof statusFilter)}
+                style={{ ...inputBase, width: 130 }}
+              >
+                <option value="all">All</option>
+                <option value="open">Open</option>
+                <option value="answered">Answered</option>
+                <option value="resolved">Resolved</option>
+              </select>
+            </label>
+            <label style={{ display: "flex", alignItems: "center", gap: 6, fontSize: 13, color: "var(--muted)" }}>
+              Kind
+              <select
+                value={kindFilter}
+                onChange={(e) => setKindFilter(e.target.value as typeof kindFilter)}
+                style={{ ...inputBase, width: 150 }}
+              >
+                <option value="all">All</option>
+                {(Object.keys(kindLabels) as TicketKind[]).map((kind) => (
+                  <option key={kind} value={kind}>
+                    {kindLabels[kind]}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label style={{ display: "flex", alignItems: "center", gap: 6, fontSize: 13, color: "var(--muted)" }}>
+              Entity
+              <input
+                value={entityFilter}
+                onChange={(e) => setEntityFilter(e.target.value)}
+                placeholder="python, create_table, lancedb@0.17"
+                style={{ ...inputBase, width: 200 }}
+              />
+            </label>
+            <label style={{ display: "flex", alignItems: "center", gap: 6, fontSize: 13, color: "var(--muted)" }}>
+              Group by
+              <select
+                value={groupBy}
+                onChange={(e) => setGroupBy(e.target.value as typeof groupBy)}
+                style={{ ...inputBase, width: 140 }}
+              >
+                <option value="none">Nothing</option>
+                {ENTITY_TYPES.map((type) => (
+                  <option key={type} value={type}>
+                    {entityLabels[type]}
+                  </option>
+                ))}
+              </select>
+            </label>
           </div>
 
-          <div className="grid" style={{ gridTemplateColumns: "repeat(auto-fit, minmax(280px, 1fr))" }}>
-            {result.tickets.map((ticket) => {
-              const style = severityStyles[ticket.severity] ?? severityStyles.low;
-              return (
-                <div
-                  key={ticket.id}
-                  className="card"
-                  style={{ display: "flex", flexDirection: "column", gap: 8, minHeight: 240, background: "var(--card)" }}
-                >
-                  <div style={{ display: "flex", justifyContent: "space-between", gap: 8 }}>
-                    <span
-                      style={{
-                        background: style.bg,
-                        color: style.fg,
-                        padding: "2px 8px",
-                        borderRadius: 999,
-                        fontSize: 11,
-                        textTransform: "uppercase",
-                        border: `1px solid ${style.border}`,
-                        fontWeight: style.fontWeight ?? 500,
-                      }}
+          {ticketGroups.map((group) => (
+            <div key={group.key} style={{ display: "grid", gap: 8 }}>
+              {group.label ? (
+                <strong style={{ fontSize: 14 }}>
+                  {group.label} ({group.tickets.length})
+                </strong>
+              ) : null}
+              <div className="grid" style={{ gridTemplateColumns: "repeat(auto-fit, minmax(280px, 1fr))" }}>
+                {group.tickets.map((ticket) => {
+                  const style = severityStyles[ticket.severity] ?? severityStyles.low;
+                  return (
+                    <div
+                      key={ticket.id}
+                      className="card"
+                      style={{ display: "flex", flexDirection: "column", gap: 8, minHeight: 240, background: "var(--card)" }}
                     >
-                      {ticket.severity}
-                    </span>
-                    <span style={{ fontSize: 12, color: "var(--muted)" }}>{ticket.docCoverage}</span>
-                  </div>
-                  <h3 style={{ margin: "4px 0 0 0", lineHeight: 1.3 }}>{ticket.title}</h3>
-                  <p style={{ marginTop: 4, color: "rgba(26, 26, 26, 0.85)", lineHeight: 1.45 }}>{ticket.summary}</p>
-                  {ticket.affectedItems?.length ? (
+                      <div style={{ display: "flex", justifyContent: "space-between", gap: 8 }}>
+                        <span
+                          style={{
+                            background: style.bg,
+                            color: style.fg,
+                            padding: "2px 8px",
+                            borderRadius: 999,
+                            fontSize: 11,
+                            textTransform: "uppercase",
+                            border: `1px solid ${style.border}`,
+                            fontWeight: style.fontWeight ?? 500,
+                          }}
+                        >
+                          {ticket.severity}
+                        </span>
+                        <span style={{ fontSize: 12, color: "var(--muted)" }}>
+                          {ticket.kind ? `${kindLabels[ticket.kind]} · ` : ""}
+                          {ticket.status ? `${ticket.status} · ` : ""}
+                          {ticket.docCoverage}
+                        </span>
+                        {ticket.refinement?.status === "rejected" ? (
+                          <span
+                            title={ticket.refinement.message}
+                            style={{
+                              fontSize: 11,
+                              color: "#b91c1c",
+                              border: "1px solid #fecaca",
+                              borderRadius: 999,
+                              padding: "1px 6px",
+                            }}
+                          >
+                            LLM rejected: {ticket.refinement.reason ?? "unknown"}
+                          </span>
+                        ) : null}
+                      </div>
+                      <h3 style={{ margin: "4px 0 0 0", lineHeight: 1.3 }}>{ticket.title}</h3>
+                      <p style={{ marginTop: 4, color: "rgba(26, 26, 26, 0.85)", lineHeight: 1.45 }}>{ticket.summary}</p>
+                      {ticket.affectedItems?.length ? (
+                        <div style={{ fontSize: 12, color: "var(--muted)" }}>
+                          Affected: {ticket.affectedItems.slice(0, 2).join(", ")}
+                        </div>
+                      ) : null}
+                      {ticket.entities ? (
+                        <div style={{ fontSize: 12, color: "var(--muted)" }}>
+                          {ENTITY_TYPES.flatMap((type) => ticket.entities?.[type]?.slice(0, 3) ?? []).join(" · ")}
+                        </div>
+                      ) : null}
+                      {ticket.status ? (
+                        <div style={{ fontSize: 12, color: "var(--muted)" }}>
+                          {typeof ticket.firstResponseMinutes === "number"
+                            ? `First reply after ${formatLatency(ticket.firstResponseMinutes)}`
+                            : "No reply yet"}
+                          {ticket.staffReplied ? " · staff replied" : ""}
+                          {ticket.askerConfirmed ? " · asker confirmed fix" : ""}
+                        </div>
+                      ) : null}
+                      {(ticket.occurrenceCount ?? 1) > 1 ? (
+                        <div style={{ fontSize: 12, color: "var(--muted)" }}>
+                          Seen {ticket.occurrenceCount} times · first {formatDay(ticket.firstSeen)} · last{" "}
+                          {formatDay(ticket.lastSeen)}
+                        </div>
+                      ) : null}
+                      <div style={{ fontSize: 12, color: "var(--muted)" }}>
+                        Evidence
+                        {ticket.reactionCount ? ` (${ticket.reactionCount} reactions)` : ""}
+                      </div>
+                      <ul style={{ margin: 0, paddingLeft: 16, fontSize: 12, color: "rgba(26, 26, 26, 0.85)" }}>
+                        {ticket.evidence.slice(0, 3).map((ev) => (
+                          <li key={ev.messageId}>
+                            {ev.url ? (
+                              <a href={ev.url} target="_blank" rel="noreferrer" style={{ color: "var(--link)" }}>
+                                {ev.channel}: {ev.snippet}
+                              </a>
+                            ) : (
+                              `${ev.channel}: ${ev.snippet}`
+                            )}
+                          </li>
+                        ))}
+                      </ul>
+                      {showReasoning && ticket.reasoning ? (
+                        <p style={{ fontSize: 12, color: "var(--muted)" }}>{ticket.reasoning}</p>
+                      ) : null}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          ))}
+
+          <div id="search" className="card" style={{ background: "var(--card)" }}>
+            <strong>Search tickets and messages</strong>
+            <div style={{ display: "flex", gap: 8, marginTop: 10, flexWrap: "wrap" }}>
+              <input
+                type="text"
+                value={searchQuery}
+                placeholder="Search"
+                onChange={(e) => setSearchQuery(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter" && searchQuery.trim()) runSearch();
+                }}
+                style={{ ...inputBase, flex: 1, minWidth: 200 }}
+              />
+              <select value={searchChannel} onChange={(e) => setSearchChannel(e.target.value)} style={inputBase}>
+                <option value="">All channels</option>
+                {result.channels.map((channel) => (
+                  <option key={channel} value={channel}>
+                    {channel}
+                  </option>
+                ))}
+              </select>
+              <select value={searchSeverity} onChange={(e) => setSearchSeverity(e.target.value)} style={inputBase}>
+                <option value="">Any severity</option>
+                {["low", "medium", "high", "critical"].map((severity) => (
+                  <option key={severity} value={severity}>
+                    {severity}
+                  </option>
+                ))}
+              </select>
+              <select
+                value={searchMode}
+                onChange={(e) => setSearchMode(e.target.value as "hybrid" | "keyword" | "vector")}
+                style={inputBase}
+              >
+                <option value="hybrid">Hybrid</option>
+                <option value="keyword">Keyword</option>
+                <option value="vector">Vector</option>
+              </select>
+              <button type="button" onClick={runSearch} disabled={!searchQuery.trim()} style={buttonSecondary}>
+                Search
+              </button>
+            </div>
+            {searchResult ? (
+              <div style={{ marginTop: 10, fontSize: 13, display: "grid", gap: 6 }}>
+                {searchResult.error ? <div style={{ color: "#b91c1c" }}>{searchResult.error}</div> : null}
+                {searchResult.warning ? (
+                  <div style={{ fontSize: 12, color: "var(--muted)" }}>{searchResult.warning}</div>
+                ) : null}
+                {searchResult.results && !searchResult.results.length ? (
+                  <div style={{ color: "var(--muted)" }}>No matches.</div>
+                ) : null}
+                {searchResult.results?.map((hit) => (
+                  <div key={hit.id} style={{ borderTop: "1px solid var(--border)", paddingTop: 6 }}>
                     <div style={{ fontSize: 12, color: "var(--muted)" }}>
-                      Affected: {ticket.affectedItems.slice(0, 2).join(", ")}
+                      {[hit.type, hit.channel ?? "unknown", hit.severity, formatDay(hit.timestamp)].join(" · ")}
+                      {` · score ${hit.score.toFixed(2)}`}
                     </div>
-                  ) : null}
-                  <div style={{ fontSize: 12, color: "var(--muted)" }}>Evidence</div>
-                  <ul style={{ margin: 0, paddingLeft: 16, fontSize: 12, color: "rgba(26, 26, 26, 0.85)" }}>
-                    {ticket.evidence.slice(0, 3).map((ev) => (
-                      <li key={ev.messageId}>
-                        {ev.url ? (
-                          <a href={ev.url} target="_blank" rel="noreferrer" style={{ color: "var(--link)" }}>
-                            {ev.channel}: {ev.snippet}
+                    {hit.url ? (
+                      <a href={hit.url} target="_blank" rel="noreferrer">
+                        {hit.title}
+                      </a>
+                    ) : (
+                      <span>{hit.title}</span>
+                    )}
+                    <div style={{ color: "var(--muted)" }}>{hit.snippet}</div>
+                  </div>
+                ))}
+              </div>
+            ) : null}
+          </div>
+
+          <div id="ask" className="card" style={{ background: "var(--card)" }}>
+            <strong>Ask the knowledge store</strong>
+            <div style={{ display: "flex", gap: 8, marginTop: 10, flexWrap: "wrap" }}>
+              <input
+                type="text"
+                value={question}
+                placeholder="e.g. Why does create_index hang on large tables?"
+                onChange={(e) => setQuestion(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter" && question.trim() && !asking) runAsk();
+                }}
+                style={{ ...inputBase, flex: 1, minWidth: 240 }}
+              />
+              <button type="button" onClick={runAsk} disabled={!question.trim() || asking} style={buttonSecondary}>
+                {asking ? "Asking..." : "Ask"}
+              </button>
+            </div>
+            {askResult ? (
+              <div style={{ marginTop: 10, fontSize: 13, display: "grid", gap: 6 }}>
+                {askResult.error ? <div style={{ color: "#b91c1c" }}>{askResult.error}</div> : null}
+                {askResult.claims?.length ? (
+                  <ul style={{ margin: 0, paddingLeft: 18 }}>
+                    {askResult.claims.map((claim, idx) => (
+                      <li key={idx}>
+                        {claim.text}{" "}
+                        {claim.citations.map((source) => (
+                          <a
+                            key={source.id}
+                            href={source.url}
+                            target="_blank"
+                            rel="noreferrer"
+                            title={`${source.ticketTitle} (#${source.channel})`}
+                            style={{ marginRight: 4 }}
+                          >
+                            [{source.id}]
                           </a>
-                        ) : (
-                          `${ev.channel}: ${ev.snippet}`
-                        )}
+                        ))}
                       </li>
                     ))}
                   </ul>
-                  {showReasoning && ticket.reasoning ? (
-                    <p style={{ fontSize: 12, color: "var(--muted)" }}>{ticket.reasoning}</p>
-                  ) : null}
-                </div>
-              );
-            })}
+                ) : !askResult.error ? (
+                  <div style={{ color: "var(--muted)" }}>{askResult.answer}</div>
+                ) : null}
+                {askResult.rejectedClaims?.length ? (
+                  <div style={{ fontSize: 12, color: "var(--muted)" }}>
+                    {askResult.rejectedClaims.length} claim(s) dropped for missing or unsupported citations.
+                  </div>
+                ) : null}
+                {askResult.costUsd !== undefined ? (
+                  <div style={{ fontSize: 12, color: "var(--muted)" }}>
+                    {askResult.sources?.length ?? 0} sources, ${askResult.costUsd.toFixed(4)}
+                    {askResult.cached ? " (cached)" : ""}
+                  </div>
+                ) : null}
+              </div>
+            ) : null}
           </div>
 
           <div id="prompt" className="card" style={{ background: "var(--card)" }}>
@@ -578,6 +1266,36 @@ export default function DiscordRunner() {
                     <strong>Affected items:</strong> {activeChunk.ticket.affectedItems.join(", ")}
                   </div>
                 ) : null}
+                {activeEdges.length ? (
+                  <div style={{ marginTop: 8 }}>
+                    <strong>Links:</strong>
+                    <ul style={{ margin: "4px 0 0 0", paddingLeft: 16 }}>
+                      {activeEdges.map((edge) => {
+                        const outgoing = edge.from === activeChunk.id;
+                        const other = ticketsById.get(outgoing ? edge.to : edge.from);
+                        const label = edge.relation ? relationLabels[edge.relation] : "Depends on";
+                        return (
+                          <li key={`${edge.from}::${edge.to}`}>
+                            {outgoing ? label : `Linked from (${label.toLowerCase()})`} {other?.title ?? "unknown ticket"}
+                            <span style={{ color: "var(--muted)", fontSize: 12 }}>
+                              {" "}
+                              · {edge.inferred ? `inferred, ${Math.round((edge.confidence ?? 0) * 100)}%` : "manual"}
+                            </span>
+                            {edge.rationale ? (
+                              <div style={{ color: "var(--muted)", fontSize: 12 }}>{edge.rationale}</div>
+                            ) : null}
+                          </li>
+                        );
+                      })}
+                    </ul>
+                  </div>
+                ) : null}
+                {activeChunk.ticket.refinement?.status === "rejected" ? (
+                  <p style={{ marginTop: 8, fontSize: 12, color: "#b91c1c" }}>
+                    LLM refinement rejected ({activeChunk.ticket.refinement.reason ?? "unknown"}); showing heuristic
+                    fields. {activeChunk.ticket.refinement.message}
+                  </p>
+                ) : null}
                 {showReasoning && activeChunk.ticket.reasoning ? (
                   <p style={{ marginTop: 8, color: "var(--muted)" }}>{activeChunk.ticket.reasoning}</p>
                 ) : null}
@@ -594,6 +1312,14 @@ export default function DiscordRunner() {
               <span>Channel: {activeChunk.component ?? "n/a"}</span>
               <strong>Weight {activeChunk.weight.toFixed(1)}</strong>
             </div>
+            {activeChunk.weightBreakdown ? (
+              <p style={{ marginTop: 4, fontSize: 12, color: "var(--muted)" }}>
+                {Object.entries(activeChunk.weightBreakdown)
+                  .sort(([, a], [, b]) => Math.abs(b) - Math.abs(a))
+                  .map(([name, value]) => `${name} ${value > 0 ? "+" : ""}${value.toFixed(1)}`)
+                  .join(" · ")}
+              </p>
+            ) : null}
             {activeChunk.sourceRef ? (
               <a
                 href={activeChunk.sourceRef}
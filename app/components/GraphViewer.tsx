@@ -11,7 +11,7 @@ type Props = {
 };
 
 type NodePos = { id: string; x: number; y: number; chunk: Chunk };
-type EdgePos = { from: NodePos; to: NodePos };
+type EdgePos = { from: NodePos; to: NodePos; inferred?: boolean };
 
 const buildLayout = (graph: Graph): { nodes: NodePos[]; edges: EdgePos[] } => {
   const chunks = Object.values(graph.chunks);
@@ -45,7 +45,7 @@ const buildLayout = (graph: Graph): { nodes: NodePos[]; edges: EdgePos[] } => {
       const from = nodeMap.get(e.from);
       const to = nodeMap.get(e.to);
       if (!from || !to) return null;
-      return { from, to };
+      return { from, to, inferred: e.inferred };
     })
     .filter(Boolean) as EdgePos[];
 
@@ -177,13 +177,16 @@ export default function GraphViewer({
       ctx.scale(transform.k, transform.k);
 
       // Edges
-      ctx.strokeStyle = "rgba(17, 24, 39, 0.35)";
+      // Inferred edges are dashed and tinted so hand-made ones stand out.
       ctx.lineWidth = 1;
       edgesToDraw.forEach((e) => {
+        ctx.strokeStyle = e.inferred ? "rgba(37, 99, 235, 0.45)" : "rgba(17, 24, 39, 0.35)";
+        ctx.setLineDash(e.inferred ? [6, 4] : []);
         ctx.beginPath();
         ctx.moveTo(e.from.x, e.from.y);
         ctx.lineTo(e.to.x, e.to.y);
         ctx.stroke();
+        ctx.setLineDash([]);
 
         // Arrowhead
         if (edgesToDraw.length > 0) {
@@ -201,7 +204,7 @@ export default function GraphViewer({
           ctx.lineTo(px - uy * arrowWidth - ux * arrowLen, py + ux * arrowWidth - uy * arrowLen);
           ctx.lineTo(px + uy * arrowWidth - ux * arrowLen, py - ux * arrowWidth - uy * arrowLen);
           ctx.closePath();
-          ctx.fillStyle = "rgba(17, 24, 39, 0.55)";
+          ctx.fillStyle = e.inferred ? "rgba(37, 99, 235, 0.6)" : "rgba(17, 24, 39, 0.55)";
           ctx.fill();
         }
       });
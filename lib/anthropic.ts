@@ -0,0 +1,74 @@
+import {
+  DEFAULT_LLM_MAX_TOKENS,
+  LLMJsonRequest,
+  LLMProvider,
+  LLMProviderConfig,
+  LLMResult,
+  postProviderJSON,
+} from "./llm";
+
+const ANTHROPIC_BASE_URL = "https://api.anthropic.com";
+const ANTHROPIC_VERSION = "2023-06-01";
+
+type MessagesPayload = {
+  content?: Array<{ type?: string; name?: string; input?: unknown; text?: string }>;
+  stop_reason?: string;
+  usage?: { input_tokens?: number; output_tokens?: number };
+};
+
+// Structured output goes through a single forced tool call whose input schema is the requested
+// schema; the tool input is the JSON we want.
+export const createAnthropicProvider = (config: LLMProviderConfig): LLMProvider => {
+  const baseUrl = (config.baseUrl ?? ANTHROPIC_BASE_URL).replace(/\/+$/, "");
+
+  return {
+    name: "anthropic",
+    model: config.model,
+    completeJSON: async (request: LLMJsonRequest): Promise<LLMResult> => {
+      const response = await postProviderJSON(
+        `${baseUrl}/v1/messages`,
+        { "x-api-key": config.apiKey ?? "", "anthropic-version": ANTHROPIC_VERSION },
+        {
+          model: config.model,
+          system: request.system,
+          messages: [{ role: "user", content: request.prompt }],
+          tools: [
+            {
+              name: request.schemaName,
+              description: "Record the structured result.",
+              input_schema: request.schema,
+            },
+          ],
+          tool_choice: { type: "tool", name: request.schemaName },
+          temperature: request.temperature ?? 0.2,
+          max_tokens: request.maxTokens ?? DEFAULT_LLM_MAX_TOKENS,
+        },
+        request,
+      );
+
+      if (!response.ok) {
+        console.warn(`[LLM] Anthropic request failed (model=${config.model}): ${response.failure.message}`);
+        return response;
+      }
+
+      const payload = response.payload as MessagesPayload;
+      if (payload?.stop_reason === "refusal") {
+        const text = payload.content?.find((item) => item.type === "text")?.text;
+        return { ok: false, failure: { reason: "refusal", message: text || "The model declined to respond." } };
+      }
+      const block = payload?.content?.find((item) => item.type === "tool_use" && item.name === request.schemaName);
+      if (!block?.input) {
+        const message = `No tool call returned (stop_reason=${payload?.stop_reason ?? "none"}).`;
+        return { ok: false, failure: { reason: "empty", message } };
+      }
+
+      console.info(
+        `[LLM] Anthropic request succeeded (model=${config.model}, chars=${request.prompt.length}).`,
+      );
+      const usage = payload.usage
+        ? { inputTokens: payload.usage.input_tokens ?? 0, outputTokens: payload.usage.output_tokens ?? 0 }
+        : undefined;
+      return { ok: true, content: JSON.stringify(block.input), ...(usage ? { usage } : {}) };
+    },
+  };
+};
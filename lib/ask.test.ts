@@ -0,0 +1,128 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { answerQuestion, checkAskClaims, NO_EVIDENCE_ANSWER, retrieveTickets, selectAskSources } from "./ask";
+import { createLLMProvider } from "./llm";
+import { Ticket } from "./types";
+
+const ticket = (id: string, title: string, snippets: string[], withUrls = true): Ticket => ({
+  id,
+  title,
+  summary: title,
+  severity: "medium",
+  docCoverage: "unknown",
+  channel: "help",
+  evidence: snippets.map((snippet, i) => ({
+    messageId: `${id}-${i}`,
+    channel: "help",
+    snippet,
+    ...(withUrls ? { url: `https://discord.com/channels/1/2/${id}-${i}` } : {}),
+  })),
+});
+
+const tickets = [
+  ticket("t1", "Crash on create_index with IVF_PQ", [
+    "Calling create_index with IVF_PQ on an empty table segfaults.",
+    "Upgrading to lancedb 0.5 fixed the create_index crash for me.",
+  ]),
+  ticket("t2", "How to filter by date in search", ["Use a where clause with a timestamp column to filter by date."]),
+  ticket("t3", "Welcome to the community", ["Say hello and introduce yourself."]),
+];
+
+describe("retrieveTickets", () => {
+  it("ranks the ticket that matches the question first", () => {
+    const retrieved = retrieveTickets("create_index crash IVF_PQ", tickets);
+    assert.equal(retrieved[0].ticket.id, "t1");
+    assert.ok(retrieved.every((item) => item.score > 0));
+  });
+
+  it("drops tickets sharing no words with the question and honours the limit", () => {
+    assert.deepEqual(retrieveTickets("kubernetes helm chart", tickets), []);
+    assert.equal(retrieveTickets("create_index filter date", tickets, 1).length, 1);
+  });
+});
+
+describe("selectAskSources", () => {
+  it("numbers sources across tickets, most overlapping snippet first", () => {
+    const sources = selectAskSources("did upgrading fix the create_index crash", [
+      { ticket: tickets[0], score: 2 },
+      { ticket: tickets[1], score: 1 },
+    ]);
+    assert.deepEqual(
+      sources.map((source) => [source.id, source.ticketId, source.snippet]),
+      [
+        ["S1", "t1", tickets[0].evidence[1].snippet],
+        ["S2", "t1", tickets[0].evidence[0].snippet],
+        ["S3", "t2", tickets[1].evidence[0].snippet],
+      ],
+    );
+  });
+
+  it("skips evidence without a message link and caps snippets per ticket", () => {
+    const unlinked = ticket("t4", "Unlinked", ["create_index crash"], false);
+    const sources = selectAskSources(
+      "create_index crash",
+      [
+        { ticket: unlinked, score: 3 },
+        { ticket: tickets[0], score: 2 },
+      ],
+      1,
+    );
+    assert.deepEqual(sources.map((source) => source.ticketId), ["t1"]);
+  });
+});
+
+describe("checkAskClaims", () => {
+  const sources = selectAskSources("create_index crash", [{ ticket: tickets[0], score: 1 }]);
+
+  it("accepts a claim supported by the source it cites", () => {
+    const { accepted, rejected } = checkAskClaims(
+      [{ text: "Upgrading lancedb fixed the create_index crash.", sources: ["S1"] }],
+      sources,
+    );
+    assert.equal(rejected.length, 0);
+    assert.deepEqual(accepted.map((claim) => claim.citations.map((source) => source.id)), [["S1"]]);
+  });
+
+  it("rejects a claim its citation does not support", () => {
+    const { accepted, rejected } = checkAskClaims(
+      [{ text: "Rotating the kubernetes credentials resolves authentication timeouts.", sources: ["S1"] }],
+      sources,
+    );
+    assert.equal(accepted.length, 0);
+    assert.equal(rejected[0].reason, "unsupported");
+  });
+
+  it("rejects a claim citing a source that was not offered", () => {
+    const { accepted, rejected } = checkAskClaims(
+      [{ text: "Upgrading lancedb fixed the create_index crash.", sources: ["S1", "S9"] }],
+      sources,
+    );
+    assert.equal(accepted.length, 0);
+    assert.deepEqual(rejected[0], {
+      text: "Upgrading lancedb fixed the create_index crash.",
+      citations: ["S1", "S9"],
+      reason: "unknown_source",
+    });
+  });
+
+  it("rejects a claim without citations", () => {
+    const { rejected } = checkAskClaims([{ text: "It crashes.", sources: [] }], sources);
+    assert.equal(rejected[0].reason, "uncited");
+  });
+});
+
+describe("answerQuestion", () => {
+  it("answers from cited evidence with the mock provider", async () => {
+    const claims = [{ text: "Upgrading to lancedb 0.5 fixed the create_index crash.", sources: ["S1"] }];
+    const provider = createLLMProvider({
+      provider: "mock",
+      model: "mock",
+      fixtures: { default: JSON.stringify({ claims, insufficientEvidence: false }) },
+    });
+    const result = await answerQuestion("create_index crash", tickets, { provider, maxRetries: 0 });
+    assert.ok(!("failure" in result));
+    assert.equal(result.answer.insufficientEvidence, false);
+    assert.equal(result.answer.claims[0].citations[0].id, "S1");
+    assert.notEqual(result.answer.answer, NO_EVIDENCE_ANSWER);
+  });
+});
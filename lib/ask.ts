@@ -0,0 +1,271 @@
+import { completeWithRetries, JsonSchema, LLMFailure, LLMProvider, LLMRetryConfig, LLMUsage } from "./llm";
+import {
+  detectInjectedOutput,
+  pseudonymizeAuthor,
+  pseudonymizeMentions,
+  redactSecrets,
+  UNTRUSTED_CONTENT_NOTICE,
+  wrapUntrusted,
+} from "./sanitize";
+import { bm25Scores } from "./search";
+import { tokenizeWords } from "./segment";
+import { Ticket, TicketEvidence } from "./types";
+
+export type RetrievedTicket = {
+  ticket: Ticket;
+  score: number;
+};
+
+export type AskSource = {
+  id: string;
+  ticketId: string;
+  ticketTitle: string;
+  url: string;
+  channel: string;
+  snippet: string;
+  author?: string;
+  timestamp?: string;
+};
+
+export type AskClaim = {
+  text: string;
+  citations: AskSource[];
+};
+
+export type AskRejectedClaim = {
+  text: string;
+  citations: string[];
+  reason: "uncited" | "unknown_source" | "unsupported";
+};
+
+export type AskAnswer = {
+  answer: string;
+  claims: AskClaim[];
+  rejectedClaims: AskRejectedClaim[];
+  insufficientEvidence: boolean;
+  sources: AskSource[];
+  retrieved: Array<{ ticketId: string; title: string; score: number }>;
+  usage?: LLMUsage;
+  cached?: boolean;
+};
+
+export type AskConfig = Omit<LLMRetryConfig, "signal"> & {
+  provider: LLMProvider;
+  maxTickets?: number;
+  evidencePerTicket?: number;
+  maxSourceChars?: number;
+  timeoutMs?: number;
+  signal?: AbortSignal;
+};
+
+const ticketText = (ticket: Ticket) =>
+  [
+    ticket.title,
+    ticket.summary,
+    ...(ticket.tags ?? []),
+    ...(ticket.affectedItems ?? []),
+    ...Object.values(ticket.entities ?? {}).flat(),
+    ...ticket.evidence.map((ev) => ev.snippet),
+  ].join("\n");
+
+// BM25 over each ticket's title, summary, tags, entities and evidence snippets.
+export const retrieveTickets = (question: string, tickets: Ticket[], limit = 5): RetrievedTicket[] => {
+  const scores = bm25Scores(
+    tokenizeWords(question),
+    tickets.map((ticket) => tokenizeWords(ticketText(ticket))),
+  );
+  return tickets
+    .map((ticket, i) => ({ ticket, score: Number(scores[i].toFixed(4)) }))
+    .filter((item) => item.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+};
+
+// Only evidence with a message link can be cited. Within a ticket the snippets sharing the most
+// words with the question come first.
+export const selectAskSources = (question: string, retrieved: RetrievedTicket[], evidencePerTicket = 2) => {
+  const queryTerms = new Set(tokenizeWords(question));
+  const overlap = (ev: TicketEvidence) => tokenizeWords(ev.snippet).filter((term) => queryTerms.has(term)).length;
+  const sources: AskSource[] = [];
+  retrieved.forEach(({ ticket }) => {
+    ticket.evidence
+      .filter((ev): ev is TicketEvidence & { url: string } => Boolean(ev.url))
+      .map((ev, index) => ({ ev, index, overlap: overlap(ev) }))
+      .sort((a, b) => b.overlap - a.overlap || a.index - b.index)
+      .slice(0, evidencePerTicket)
+      .forEach(({ ev }) => {
+        sources.push({
+          id: `S${sources.length + 1}`,
+          ticketId: ticket.id,
+          ticketTitle: ticket.title,
+          url: ev.url,
+          channel: ev.channel,
+          snippet: ev.snippet,
+          ...(ev.author ? { author: ev.author } : {}),
+          ...(ev.timestamp ? { timestamp: ev.timestamp } : {}),
+        });
+      });
+  });
+  return sources;
+};
+
+const answerJsonSchema: JsonSchema = {
+  type: "object",
+  additionalProperties: false,
+  properties: {
+    claims: {
+      type: "array",
+      items: {
+        type: "object",
+        additionalProperties: false,
+        properties: {
+          text: { type: "string" },
+          sources: { type: "array", items: { type: "string" } },
+        },
+        required: ["text", "sources"],
+      },
+    },
+    insufficientEvidence: { type: "boolean" },
+  },
+  required: ["claims", "insufficientEvidence"],
+};
+
+const ASK_SYSTEM_PROMPT =
+  "You answer questions about a Discord community using only the numbered sources provided. " +
+  "Split the answer into short claims; every claim must list the ids of the sources that support it. " +
+  "If the sources do not answer the question, return no claims and set insufficientEvidence. " +
+  UNTRUSTED_CONTENT_NOTICE;
+
+// Sources go through the same redaction and pseudonymization as ticket refinement.
+const buildAskPrompt = (question: string, sources: AskSource[], maxSourceChars: number) => {
+  const authors = sources.map((source) => source.author).filter((a): a is string => Boolean(a));
+  const blocks = sources.map((source) => {
+    const text = pseudonymizeMentions(redactSecrets(`${source.ticketTitle}\n${source.snippet}`), authors);
+    return wrapUntrusted(text.slice(0, maxSourceChars), {
+      id: source.id,
+      channel: source.channel,
+      author: pseudonymizeAuthor(source.author),
+      ...(source.timestamp ? { time: source.timestamp } : {}),
+    });
+  });
+  return `Question: ${question}\n\nSources:\n${blocks.join("\n")}`;
+};
+
+type RawClaim = { text?: unknown; sources?: unknown };
+
+const parseAnswer = (content: string): { claims: RawClaim[]; insufficientEvidence: boolean } | undefined => {
+  try {
+    const raw = JSON.parse(content) as { claims?: unknown; insufficientEvidence?: unknown };
+    if (!Array.isArray(raw?.claims)) return undefined;
+    return { claims: raw.claims as RawClaim[], insufficientEvidence: raw.insufficientEvidence === true };
+  } catch {
+    return undefined;
+  }
+};
+
+const SUPPORT_THRESHOLD = 0.3;
+
+// A claim is kept only if it cites at least one source that was offered and shares a fair part
+// of its content words with the sources it cites.
+export const checkAskClaims = (claims: RawClaim[], sources: AskSource[]) => {
+  const byId = new Map(sources.map((source) => [source.id, source] as const));
+  const accepted: AskClaim[] = [];
+  const rejected: AskRejectedClaim[] = [];
+  claims.forEach((claim) => {
+    const text = typeof claim.text === "string" ? claim.text.trim() : "";
+    if (!text) return;
+    const ids = Array.isArray(claim.sources)
+      ? [...new Set(claim.sources.filter((id): id is string => typeof id === "string").map((id) => id.trim()))]
+      : [];
+    if (!ids.length) {
+      rejected.push({ text, citations: [], reason: "uncited" });
+      return;
+    }
+    const cited = ids.map((id) => byId.get(id));
+    if (cited.some((source) => !source)) {
+      rejected.push({ text, citations: ids, reason: "unknown_source" });
+      return;
+    }
+    const citations = cited as AskSource[];
+    const claimTerms = [...new Set(tokenizeWords(text))];
+    const sourceTerms = new Set(
+      citations.flatMap((source) => tokenizeWords(`${source.ticketTitle} ${source.snippet}`)),
+    );
+    const supported = claimTerms.filter((term) => sourceTerms.has(term)).length;
+    if (claimTerms.length && supported / claimTerms.length < SUPPORT_THRESHOLD) {
+      rejected.push({ text, citations: ids, reason: "unsupported" });
+      return;
+    }
+    accepted.push({ text, citations });
+  });
+  return { accepted, rejected };
+};
+
+const formatAnswer = (claims: AskClaim[]) =>
+  claims.map((claim) => `${claim.text} ${claim.citations.map((source) => `[${source.id}]`).join("")}`).join(" ");
+
+export const NO_EVIDENCE_ANSWER = "The knowledge store has no cited evidence that answers this question.";
+
+// Retrieves tickets, asks the provider to answer from their linked evidence, and keeps only the
+// claims whose citations check out.
+export const answerQuestion = async (
+  question: string,
+  tickets: Ticket[],
+  config: AskConfig,
+): Promise<{ answer: AskAnswer } | { failure: LLMFailure; answer: AskAnswer }> => {
+  const { maxTickets = 5, evidencePerTicket = 2, maxSourceChars = 600 } = config;
+  const retrievedTickets = retrieveTickets(question, tickets, maxTickets);
+  const sources = selectAskSources(question, retrievedTickets, evidencePerTicket);
+  const empty: AskAnswer = {
+    answer: NO_EVIDENCE_ANSWER,
+    claims: [],
+    rejectedClaims: [],
+    insufficientEvidence: true,
+    sources,
+    retrieved: retrievedTickets.map(({ ticket, score }) => ({ ticketId: ticket.id, title: ticket.title, score })),
+  };
+  if (!sources.length) return { answer: empty };
+
+  const prompt = buildAskPrompt(question, sources, maxSourceChars);
+  const result = await completeWithRetries(
+    () =>
+      config.provider.completeJSON({
+        system: ASK_SYSTEM_PROMPT,
+        prompt,
+        schemaName: "grounded_answer",
+        schema: answerJsonSchema,
+        maxTokens: 800,
+        timeoutMs: config.timeoutMs,
+        signal: config.signal,
+      }),
+    config,
+  );
+  if (!result.ok) return { failure: result.failure, answer: empty };
+  const meta = { ...(result.usage ? { usage: result.usage } : {}), cached: Boolean(result.cached) };
+
+  const parsed = parseAnswer(result.content);
+  if (!parsed) {
+    return {
+      failure: { reason: "schema", message: "Response does not match the answer schema." },
+      answer: { ...empty, ...meta },
+    };
+  }
+  const injected = detectInjectedOutput(
+    parsed.claims.map((claim) => (typeof claim.text === "string" ? claim.text : "")).join("\n"),
+    prompt,
+  );
+  if (injected) return { failure: { reason: "injection", message: injected }, answer: { ...empty, ...meta } };
+
+  const { accepted, rejected } = checkAskClaims(parsed.claims, sources);
+  await result.accept?.();
+  return {
+    answer: {
+      ...empty,
+      answer: accepted.length ? formatAnswer(accepted) : NO_EVIDENCE_ANSWER,
+      claims: accepted,
+      rejectedClaims: rejected,
+      insufficientEvidence: parsed.insufficientEvidence || accepted.length === 0,
+      ...meta,
+    },
+  };
+};
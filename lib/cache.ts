@@ -0,0 +1,81 @@
+import { createHash } from "crypto";
+import fs from "fs/promises";
+import path from "path";
+import { LLMJsonRequest, LLMProvider, LLMResult, LLMUsage } from "./llm";
+import { writeJsonAtomic } from "./persist";
+
+type CachedResponse = {
+  key: string;
+  provider: string;
+  model: string;
+  content: string;
+  usage?: LLMUsage;
+  createdAt: string;
+};
+
+// Everything that shapes the response is part of the key; timeouts and signals are not.
+export const llmCacheKey = (provider: LLMProvider, request: LLMJsonRequest) =>
+  createHash("sha256")
+    .update(
+      JSON.stringify([
+        provider.name,
+        provider.model,
+        request.system,
+        request.prompt,
+        request.schemaName,
+        request.schema,
+        request.temperature ?? null,
+        request.maxTokens ?? null,
+      ]),
+    )
+    .digest("hex");
+
+const entryPath = (cacheDir: string, key: string) => path.join(cacheDir, key.slice(0, 2), `${key}.json`);
+
+const readEntry = async (filePath: string): Promise<CachedResponse | null> => {
+  try {
+    return JSON.parse(await fs.readFile(filePath, "utf8")) as CachedResponse;
+  } catch {
+    return null;
+  }
+};
+
+const parses = (content: string) => {
+  try {
+    JSON.parse(content);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Content-addressed response cache: one file per provider + model + prompt hash, so any run that
+// sends the same prompt again is served from disk instead of being billed. A response is stored
+// only when the caller accepts it, so a reply rejected by validation is asked for again on retry.
+export const withLLMCache = (provider: LLMProvider, cacheDir: string): LLMProvider => ({
+  ...provider,
+  completeJSON: async (request): Promise<LLMResult> => {
+    const key = llmCacheKey(provider, request);
+    const filePath = entryPath(cacheDir, key);
+    const hit = await readEntry(filePath);
+    if (hit) return { ok: true, content: hit.content, ...(hit.usage ? { usage: hit.usage } : {}), cached: true };
+
+    const result = await provider.completeJSON(request);
+    if (!result.ok || !parses(result.content)) return result;
+    const entry: CachedResponse = {
+      key,
+      provider: provider.name,
+      model: provider.model,
+      content: result.content,
+      ...(result.usage ? { usage: result.usage } : {}),
+      createdAt: new Date().toISOString(),
+    };
+    return {
+      ...result,
+      accept: () =>
+        writeJsonAtomic(filePath, entry).catch((err) =>
+          console.warn(`[LLM] Could not write cache entry ${key}: ${err?.message ?? err}`),
+        ),
+    };
+  },
+});
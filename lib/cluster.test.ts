@@ -0,0 +1,70 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { clusterTickets } from "./cluster";
+import { Ticket } from "./types";
+
+const ticket = (id: string, snippets: string[], extra: Partial<Ticket> = {}): Ticket => ({
+  id,
+  title: "Ticket from bug-reports",
+  summary: "No summary available.",
+  severity: "medium",
+  docCoverage: "unknown",
+  channel: "bug-reports",
+  evidence: snippets.map((snippet, i) => ({
+    messageId: `${id}-${i}`,
+    channel: extra.channel ?? "bug-reports",
+    snippet,
+    timestamp: `2026-01-0${i + 1}T10:00:00.000Z`,
+  })),
+  ...extra,
+});
+
+const crash = "Calling create_index with IVF_PQ on an empty table segfaults the python process immediately";
+
+describe("clusterTickets", () => {
+  it("merges near-duplicate reports across channels", () => {
+    const { tickets, mergedCount, aliases } = clusterTickets([
+      ticket("a", [crash]),
+      ticket("b", [`${crash}, same here`], { channel: "python" }),
+    ]);
+    assert.equal(mergedCount, 1);
+    assert.equal(tickets.length, 1);
+    assert.equal(tickets[0].occurrenceCount, 2);
+    assert.deepEqual(aliases, { b: "a" });
+  });
+
+  it("keeps unrelated tickets apart even with the same channel and stock title", () => {
+    const { mergedCount } = clusterTickets([
+      ticket("a", [crash]),
+      ticket("b", ["The javascript client times out when uploading large arrow batches over http"]),
+      ticket("c", ["Is there a roadmap for full text search support in the rust crate"]),
+    ]);
+    assert.equal(mergedCount, 0);
+  });
+
+  it("does not merge tickets with too little text to compare", () => {
+    const { mergedCount } = clusterTickets([
+      ticket("a", ["workarounds:"]),
+      ticket("b", ["Thank you, both."]),
+      ticket("c", ["makes sense!"]),
+      ticket("d", ["makes sense!"]),
+    ]);
+    assert.equal(mergedCount, 0);
+  });
+
+  it("needs some shared wording before a shared stack frame merges tickets", () => {
+    const frame = { tags: ["frame:lance/index.py:create_index"] };
+    // About 0.38 Jaccard: below the default threshold, above the frame threshold.
+    const related = clusterTickets([
+      ticket("a", [`${crash} on linux`], frame),
+      ticket("b", ["Calling create_index with IVF_PQ on an empty table crashes the whole process on macos"], frame),
+    ]);
+    assert.equal(related.mergedCount, 1);
+
+    const unrelated = clusterTickets([
+      ticket("a", [crash], frame),
+      ticket("b", ["How do I speed up search over a dataset of sentence embeddings stored on disk"], frame),
+    ]);
+    assert.equal(unrelated.mergedCount, 0);
+  });
+});
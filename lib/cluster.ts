@@ -0,0 +1,206 @@
+import { entityKeys, mergeTicketEntities } from "./entities";
+import { tokenizeWords } from "./segment";
+import { Ticket, TicketSeverity } from "./types";
+
+export type TicketClusterConfig = {
+  threshold?: number;
+  frameThreshold?: number;
+  numHashes?: number;
+  bands?: number;
+};
+
+export type TicketClusterResult = {
+  tickets: Ticket[];
+  aliases: Record<string, string>;
+  mergedCount: number;
+};
+
+const SEVERITY_ORDER: TicketSeverity[] = ["low", "medium", "high", "critical"];
+
+const fnv1a = (value: string, seed: number) => {
+  let h = (0x811c9dc5 ^ seed) >>> 0;
+  for (let i = 0; i < value.length; i++) {
+    h ^= value.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+// Only the messages themselves: heuristic titles and summaries fall back to the same stock text
+// ("Ticket from <channel>") for unrelated tickets, which would make them look alike.
+const ticketText = (ticket: Ticket) =>
+  ticket.evidence
+    .slice(0, 3)
+    .map((ev) => ev.snippet)
+    .join(" ");
+
+// Too few shingles ("makes sense!", a bare link) and any overlap looks like a duplicate.
+const MIN_SHINGLES = 4;
+
+// Unigrams and bigrams, so short tickets still share enough shingles to compare, plus the API
+// symbols and error types the ticket mentions.
+export const ticketShingles = (ticket: Ticket) => {
+  const words = tokenizeWords(ticketText(ticket));
+  const out = new Set(words);
+  for (let i = 0; i + 1 < words.length; i++) out.add(`${words[i]} ${words[i + 1]}`);
+  (ticket.tags ?? []).filter((tag) => tag.startsWith("error:")).forEach((tag) => out.add(tag));
+  entityKeys(ticket.entities)
+    .filter((key) => key.startsWith("symbol:"))
+    .forEach((key) => out.add(key));
+  return out;
+};
+
+// Each seed gives one hash function: the shingle hash is re-mixed with a murmur3 finalizer.
+const mixHash = (base: number, seed: number) => {
+  let x = (base ^ seed) >>> 0;
+  x ^= x >>> 16;
+  x = Math.imul(x, 0x85ebca6b);
+  x ^= x >>> 13;
+  x = Math.imul(x, 0xc2b2ae35);
+  x ^= x >>> 16;
+  return x >>> 0;
+};
+
+const minHashSignature = (items: Set<string>, seeds: number[]) => {
+  const signature = new Array<number>(seeds.length).fill(0xffffffff);
+  items.forEach((item) => {
+    const base = fnv1a(item, 0);
+    seeds.forEach((seed, i) => {
+      const h = mixHash(base, seed);
+      if (h < signature[i]) signature[i] = h;
+    });
+  });
+  return signature;
+};
+
+const estimatedJaccard = (a: number[], b: number[]) => {
+  let same = 0;
+  for (let i = 0; i < a.length; i++) if (a[i] === b[i]) same += 1;
+  return same / a.length;
+};
+
+const innermostFrameTag = (ticket: Ticket) => ticket.tags?.find((tag) => tag.startsWith("frame:"));
+
+const evidenceTimes = (ticket: Ticket) =>
+  ticket.evidence.map((ev) => ev.timestamp).filter((ts): ts is string => Boolean(ts)).sort();
+
+const combineCluster = (members: Ticket[]): Ticket => {
+  const byFirstSeen = [...members].sort((a, b) =>
+    (evidenceTimes(a)[0] ?? a.firstSeen ?? "").localeCompare(evidenceTimes(b)[0] ?? b.firstSeen ?? ""),
+  );
+  const canonical = byFirstSeen[0];
+  const evidenceById = new Map<string, Ticket["evidence"][number]>();
+  members.forEach((ticket) => ticket.evidence.forEach((ev) => evidenceById.set(ev.messageId, ev)));
+  const evidence = [...evidenceById.values()].sort((a, b) => (a.timestamp ?? "").localeCompare(b.timestamp ?? ""));
+  const times = evidence.map((ev) => ev.timestamp).filter((ts): ts is string => Boolean(ts));
+  const tags = new Set(members.flatMap((ticket) => ticket.tags ?? []));
+  const affectedItems = new Set(members.flatMap((ticket) => ticket.affectedItems ?? []));
+  const entities = members.reduce<Ticket["entities"]>(
+    (acc, ticket) => mergeTicketEntities(acc, ticket.entities),
+    undefined,
+  );
+  const severity = members.reduce<TicketSeverity>(
+    (acc, ticket) => (SEVERITY_ORDER.indexOf(ticket.severity) > SEVERITY_ORDER.indexOf(acc) ? ticket.severity : acc),
+    canonical.severity,
+  );
+  const duplicateIds = new Set(members.flatMap((ticket) => [ticket.id, ...(ticket.duplicateIds ?? [])]));
+  duplicateIds.delete(canonical.id);
+  const reactionCount = members.reduce((acc, ticket) => acc + (ticket.reactionCount ?? 0), 0);
+  const occurrenceCount = members.reduce((acc, ticket) => acc + (ticket.occurrenceCount ?? 1), 0);
+  const latest = [...members].sort((a, b) =>
+    (evidenceTimes(b).at(-1) ?? "").localeCompare(evidenceTimes(a).at(-1) ?? ""),
+  )[0];
+  const channels = [...new Set(evidence.map((ev) => ev.channel))];
+
+  return {
+    ...canonical,
+    severity,
+    evidence,
+    tags: tags.size ? [...tags] : undefined,
+    affectedItems: affectedItems.size ? [...affectedItems] : undefined,
+    ...(entities ? { entities } : {}),
+    ...(reactionCount ? { reactionCount } : {}),
+    ...(latest.status ? { status: latest.status } : {}),
+    ...(duplicateIds.size ? { duplicateIds: [...duplicateIds] } : {}),
+    occurrenceCount,
+    ...(times.length ? { firstSeen: times[0], lastSeen: times[times.length - 1] } : {}),
+    reasoning:
+      members.length > 1
+        ? `${canonical.reasoning ?? ""} Merged ${members.length - 1} recurring occurrence(s) across ${channels.join(", ")}.`.trim()
+        : canonical.reasoning,
+  };
+};
+
+// Groups near-duplicate tickets with MinHash + LSH banding, verifying each candidate pair
+// against the estimated Jaccard similarity. Tickets that share an innermost stack frame only need
+// the lower `frameThreshold`, since the same crash is often reported in different words.
+export const clusterTickets = (tickets: Ticket[], config: TicketClusterConfig = {}): TicketClusterResult => {
+  const { threshold = 0.45, frameThreshold = 0.2, numHashes = 64, bands = 16 } = config;
+  const rows = Math.max(1, Math.floor(numHashes / bands));
+  const seeds = Array.from({ length: numHashes }, (_, i) => fnv1a(String(i), 0x9e3779b9));
+  const shingleSets = tickets.map(ticketShingles);
+  const signatures = shingleSets.map((set) => minHashSignature(set, seeds));
+  const parent = tickets.map((_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+  const union = (a: number, b: number) => {
+    const ra = find(a);
+    const rb = find(b);
+    if (ra !== rb) parent[rb] = ra;
+  };
+
+  const buckets = new Map<string, number[]>();
+  signatures.forEach((signature, i) => {
+    if (shingleSets[i].size < MIN_SHINGLES) return;
+    for (let band = 0; band < bands; band++) {
+      const key = `${band}:${signature.slice(band * rows, band * rows + rows).join(",")}`;
+      const bucket = buckets.get(key) ?? [];
+      bucket.push(i);
+      buckets.set(key, bucket);
+    }
+    const frame = innermostFrameTag(tickets[i]);
+    if (frame) {
+      const bucket = buckets.get(frame) ?? [];
+      bucket.push(i);
+      buckets.set(frame, bucket);
+    }
+  });
+
+  const checked = new Set<string>();
+  buckets.forEach((members, key) => {
+    if (members.length < 2) return;
+    const byFrame = key.startsWith("frame:");
+    for (let x = 0; x < members.length; x++) {
+      for (let y = x + 1; y < members.length; y++) {
+        const [a, b] = [members[x], members[y]];
+        const pairKey = `${byFrame ? "frame" : "band"}:${a}:${b}`;
+        if (checked.has(pairKey)) continue;
+        checked.add(pairKey);
+        if (estimatedJaccard(signatures[a], signatures[b]) >= (byFrame ? frameThreshold : threshold)) union(a, b);
+      }
+    }
+  });
+
+  const groups = new Map<number, Ticket[]>();
+  tickets.forEach((ticket, i) => {
+    const root = find(i);
+    groups.set(root, [...(groups.get(root) ?? []), ticket]);
+  });
+
+  const aliases: Record<string, string> = {};
+  let mergedCount = 0;
+  const clustered = [...groups.values()].map((members) => {
+    const combined = combineCluster(members);
+    mergedCount += members.length - 1;
+    combined.duplicateIds?.forEach((id) => {
+      aliases[id] = combined.id;
+    });
+    return combined;
+  });
+  return { tickets: clustered, aliases, mergedCount };
+};
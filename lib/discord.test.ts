@@ -0,0 +1,430 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import {
+  activeSampleFilters,
+  createDiscordMessageSampler,
+  DiscordSampleConfig,
+  isAfterMark,
+  listDiscordExportFiles,
+  parseChannelMetaFromFilename,
+  parseDiscordExportFile,
+  sampleDiscordMessages,
+} from "./discord";
+import { DiscordMessage } from "./types";
+
+let exportDir = "";
+before(async () => {
+  exportDir = await fs.mkdtemp(path.join(os.tmpdir(), "discord-export-"));
+});
+after(() => fs.rm(exportDir, { recursive: true, force: true }));
+
+const parseExport = async (file: string, content: string) => {
+  await fs.writeFile(path.join(exportDir, file), content, "utf8");
+  return parseDiscordExportFile(parseChannelMetaFromFilename(file), { exportDir });
+};
+
+// Markup in the shape DiscordChatExporter writes, reduced to the parts the parser reads.
+const htmlMessage = (id: string, author: string | null, inner: string) =>
+  `<div id=chatlog__message-container-${id} class=chatlog__message-container data-message-id=${id}>` +
+  "<div class=chatlog__message><div class=chatlog__message-primary>" +
+  (author
+    ? `<div class=chatlog__header><span class=chatlog__author title=${author}>${author}</span> ` +
+      `<span class=chatlog__timestamp title="Tuesday, May 9, 2023 11:3${id} PM"><a>5/9/2023</a></span></div>`
+    : "") +
+  `${inner}</div></div></div>`;
+
+const htmlContent = (html: string) =>
+  `<div class="chatlog__content chatlog__markdown"><span class=chatlog__markdown-preserve>${html}</span></div>`;
+
+const htmlExport = (...messages: string[]) => `<html><body><div class=chatlog>${messages.join("")}</div></body></html>`;
+
+const message = (id: string, timestamp: string): DiscordMessage => ({
+  id,
+  channel: "help",
+  author: "ann",
+  content: "hello",
+  timestamp,
+  links: [],
+  file: "help.json",
+});
+
+describe("isAfterMark", () => {
+  it("compares snowflake ids numerically rather than by timestamp", () => {
+    const mark = { lastMessageId: "998", lastTimestamp: "2026-01-01T10:00:00.000Z" };
+    assert.equal(isAfterMark(message("1000", "2026-01-01T09:00:00.000Z"), mark), true);
+    assert.equal(isAfterMark(message("998", "2026-01-01T11:00:00.000Z"), mark), false);
+    assert.equal(isAfterMark(message("42", "2026-01-01T11:00:00.000Z"), mark), false);
+  });
+
+  it("falls back to timestamps for non-numeric ids", () => {
+    const mark = { lastMessageId: "txt-3", lastTimestamp: "2026-01-01T10:00:00.000Z" };
+    assert.equal(isAfterMark(message("txt-2", "2026-01-01T10:05:00.000Z"), mark), true);
+    assert.equal(isAfterMark(message("txt-9", "2026-01-01T10:00:00.000Z"), mark), false);
+  });
+
+  it("keeps the message when neither ids nor timestamps can be compared", () => {
+    assert.equal(isAfterMark(message("txt-1", "2026-01-01T09:00:00.000Z"), { lastMessageId: "txt-3" }), true);
+  });
+});
+
+describe("activeSampleFilters", () => {
+  it("names the filters that drop messages and ignores the sample caps", () => {
+    assert.deepEqual(activeSampleFilters({ maxMessagesTotal: 10, sampleStrategy: "random", since: " " }), []);
+    assert.deepEqual(activeSampleFilters({ until: "2026-01-01", excludeAuthors: ["bot"], includePatterns: [] }), [
+      "until",
+      "excludeAuthors",
+    ]);
+  });
+});
+
+describe("HTML export replies", () => {
+  it("records the message and author a reply points at", async () => {
+    const messages = await parseExport(
+      "LanceDB - Support - help [100].html",
+      htmlExport(
+        htmlMessage("1", "ann", htmlContent("create_index crashes")),
+        htmlMessage(
+          "2",
+          "bob",
+          "<div class=chatlog__reply><div class=chatlog__reply-author title=ann.dev>ann</div>" +
+            "<div class=chatlog__reply-content><span class=chatlog__reply-link " +
+            "onclick=\"scrollToMessage(event,'1')\"> create_index crashes </span></div></div>" +
+            htmlContent("Which version?"),
+        ),
+        htmlMessage("3", null, htmlContent("And which OS?")),
+      ),
+    );
+    assert.deepEqual(
+      messages.map((msg) => [msg.id, msg.author, msg.replyToId, msg.replyToAuthor]),
+      [
+        ["1", "ann", undefined, undefined],
+        ["2", "bob", "1", "ann"],
+        ["3", "bob", undefined, undefined],
+      ],
+    );
+    assert.equal(messages[1].channel, "Support / help");
+    assert.equal(messages[1].timestamp, new Date("Tuesday, May 9, 2023 11:32 PM").toISOString());
+  });
+});
+
+describe("HTML export reactions, embeds and attachments", () => {
+  it("captures them, keeping messages that have no text of their own", async () => {
+    const messages = await parseExport(
+      "LanceDB - Support - media [101].html",
+      htmlExport(
+        htmlMessage(
+          "1",
+          "ann",
+          htmlContent("Docs are out") +
+            "<div class=chatlog__embed><div class=chatlog__embed-title><a href=https://lancedb.github.io/guide>" +
+            '<div class="chatlog__markdown chatlog__markdown-preserve">Indexing guide</div></a></div>' +
+            '<div class=chatlog__embed-description><div class="chatlog__markdown chatlog__markdown-preserve">' +
+            "Build an IVF_PQ index</div></div></div>" +
+            "<div class=chatlog__reactions><div class=chatlog__reaction title=ok_hand>" +
+            '<img class="chatlog__emoji chatlog__emoji--small" alt=👌 src=ok.svg> ' +
+            "<span class=chatlog__reaction-count>3</span></div></div>",
+        ),
+        htmlMessage(
+          "2",
+          "bob",
+          "<div class=chatlog__attachment><a href=https://cdn.test/shot.png>" +
+            '<img class=chatlog__attachment-media src=https://cdn.test/shot.png title="Image: shot.png (20 KB)">' +
+            "</a></div>" +
+            "<div class=chatlog__attachment><div class=chatlog__attachment-generic>" +
+            "<div class=chatlog__attachment-generic-name><a href=https://cdn.test/log.txt>log.txt</a></div>" +
+            "<div class=chatlog__attachment-generic-size>1.2 KB</div></div></div>",
+        ),
+      ),
+    );
+    assert.deepEqual(messages[0].reactions, [{ emoji: "👌", name: "ok_hand", count: 3 }]);
+    assert.deepEqual(messages[0].embeds, [
+      { title: "Indexing guide", description: "Build an IVF_PQ index", url: "https://lancedb.github.io/guide" },
+    ]);
+    assert.equal(messages[1].content, "");
+    assert.deepEqual(messages[1].attachments, [
+      { url: "https://cdn.test/shot.png", kind: "image", fileName: "shot.png", size: "20 KB" },
+      { url: "https://cdn.test/log.txt", kind: "file", fileName: "log.txt", size: "1.2 KB" },
+    ]);
+  });
+});
+
+describe("HTML export code blocks", () => {
+  it("turns multiline code into fenced markdown and keeps inline code inline", async () => {
+    const [msg] = await parseExport(
+      "LanceDB - Support - code [102].html",
+      htmlExport(
+        htmlMessage(
+          "1",
+          "ann",
+          htmlContent(
+            "Calling <code class=\"chatlog__markdown-pre chatlog__markdown-pre--inline\">create_index</code> fails:" +
+              '<code class="chatlog__markdown-pre chatlog__markdown-pre--multiline language-python">' +
+              "tbl.create_index(metric=&quot;cosine&quot;)\nValueError: empty table\n</code>",
+          ),
+        ),
+      ),
+    );
+    assert.deepEqual(msg.codeBlocks, [
+      { code: 'tbl.create_index(metric="cosine")\nValueError: empty table', language: "python" },
+    ]);
+    assert.equal(
+      msg.content,
+      'Calling `create_index` fails:\n```python\ntbl.create_index(metric="cosine")\nValueError: empty table\n```',
+    );
+  });
+});
+
+describe("JSON exports", () => {
+  const jsonExport = {
+    guild: { id: "7", name: "LanceDB" },
+    channel: { id: "200", type: "GuildTextChat", category: "Support", name: "json-help" },
+    messages: [
+      {
+        id: "1001",
+        type: "Default",
+        timestamp: "2024-01-30T19:35:00+00:00",
+        content: "create_index crashes, log attached",
+        author: { name: "ann.dev", nickname: "ann" },
+        attachments: [{ url: "https://cdn.test/crash.log", fileName: "crash.log", fileSizeBytes: 2048 }],
+        reactions: [{ emoji: { name: "👍", code: "thumbsup" }, count: 2 }],
+      },
+      {
+        id: "1002",
+        type: "ThreadCreated",
+        timestamp: "2024-01-30T19:36:00+00:00",
+        content: "Crash on create_index",
+        author: { name: "bob" },
+        reference: { channelId: "300" },
+      },
+      {
+        id: "1003",
+        type: "Reply",
+        timestamp: "2024-01-30T19:37:00+00:00",
+        content: "Which version? \"quotes\" and } braces survive",
+        author: { name: "helper", isBot: true },
+        reference: { messageId: "1001" },
+      },
+      { id: "1004", type: "Default", timestamp: "2024-01-30T19:38:00+00:00", content: "", author: { name: "x" } },
+    ],
+  };
+
+  it("streams messages, replies and system events with links back to Discord", async () => {
+    const messages = await parseExport("LanceDB - Support - json-help [200].json", JSON.stringify(jsonExport));
+    assert.deepEqual(messages.map((msg) => msg.id), ["1001", "1002", "1003"]);
+    const [first, thread, reply] = messages;
+    assert.equal(first.author, "ann");
+    assert.equal(first.url, "https://discord.com/channels/7/200/1001");
+    assert.deepEqual(first.attachments, [
+      { url: "https://cdn.test/crash.log", kind: "file", fileName: "crash.log", size: "2.00 KB" },
+    ]);
+    assert.deepEqual(first.reactions, [{ emoji: "👍", name: "thumbsup", count: 2 }]);
+    assert.deepEqual(thread.system, {
+      kind: "thread_created",
+      text: "started a thread.",
+      threadId: "300",
+      threadTitle: "Crash on create_index",
+    });
+    assert.equal(reply.content, 'Which version? "quotes" and } braces survive');
+    assert.deepEqual([reply.replyToId, reply.replyToAuthor, reply.isBot], ["1001", "ann", true]);
+  });
+
+  it("is preferred over other exports of the same channel", async () => {
+    const dir = path.join(exportDir, "formats");
+    await fs.mkdir(dir);
+    await Promise.all(
+      ["html", "json", "txt"].map((ext) => fs.writeFile(path.join(dir, `LanceDB - Support - help [500].${ext}`), "")),
+    );
+    const metas = await listDiscordExportFiles({ exportDir: dir });
+    assert.deepEqual(metas.map((meta) => meta.format), ["json"]);
+  });
+});
+
+describe("plain-text exports", () => {
+  const textExport = [
+    "==============================================================",
+    "Guild: LanceDB",
+    "Channel: Languages / rust",
+    "==============================================================",
+    "",
+    "[1/30/2024 7:35 PM] archtoad",
+    "Why does this panic?",
+    "```rust",
+    "thread 'main' panicked at src/lib.rs:10:5",
+    "```",
+    "",
+    "{Attachments}",
+    "https://cdn.test/log%20file.txt",
+    "",
+    "{Reactions}",
+    "👍 (3) 🎉",
+    "",
+    "[1/30/2024 8:50 PM] wpace#0",
+    "Started a thread.",
+    "",
+    "[1/30/2024 8:51 PM] wpace#0",
+    "Looks like a bug",
+    "",
+    "{Embed}",
+    "https://github.com/lancedb/lancedb/issues/1",
+    "Issue title",
+    "Issue body",
+    "",
+    "==============================================================",
+    "Exported 3 message(s)",
+  ].join("\n");
+
+  it("splits messages on their headers and reads attachments, reactions and embeds", async () => {
+    const messages = await parseExport("LanceDB - Languages - rust [400].txt", textExport);
+    assert.equal(messages.length, 3);
+    const [panic, thread, bug] = messages;
+    assert.equal(panic.author, "archtoad");
+    assert.equal(panic.content, "Why does this panic?\n```rust\nthread 'main' panicked at src/lib.rs:10:5\n```");
+    assert.deepEqual(panic.codeBlocks, [{ code: "thread 'main' panicked at src/lib.rs:10:5", language: "rust" }]);
+    assert.deepEqual(panic.attachments, [
+      { url: "https://cdn.test/log%20file.txt", kind: "file", fileName: "log file.txt" },
+    ]);
+    assert.deepEqual(panic.reactions, [
+      { emoji: "👍", count: 3 },
+      { emoji: "🎉", count: 1 },
+    ]);
+    assert.equal(thread.system?.kind, "thread_created");
+    assert.equal(bug.author, "wpace");
+    assert.deepEqual(bug.embeds, [
+      { url: "https://github.com/lancedb/lancedb/issues/1", title: "Issue title", description: "Issue body" },
+    ]);
+  });
+
+  it("derives increasing snowflake-shaped ids from the timestamps", async () => {
+    const messages = await parseExport("LanceDB - Languages - rust [400].txt", textExport);
+    assert.ok(messages.every((msg) => /^\d+$/.test(msg.id)));
+    assert.ok(BigInt(messages[0].id) < BigInt(messages[1].id) && BigInt(messages[1].id) < BigInt(messages[2].id));
+  });
+});
+
+describe("thread exports", () => {
+  it("links thread exports to their parent channel and reports their messages under it", async () => {
+    const dir = path.join(exportDir, "threads");
+    await fs.mkdir(dir);
+    const files: Record<string, string> = {
+      "LanceDB - Languages - python [10].html": "",
+      "LanceDB - python - Slow queries [11].html": htmlExport(htmlMessage("1", "ann", htmlContent("Queries are slow"))),
+      "LanceDB - Languages - python - Index help [12].html": "",
+      "LanceDB - Support - help [14].html": "",
+      "LanceDB - help - Crash [13].json": JSON.stringify({
+        guild: { id: "7" },
+        channel: { id: "13", type: "GuildPublicThread", categoryId: "14", category: "help", name: "Crash on open" },
+        messages: [],
+      }),
+    };
+    await Promise.all(Object.entries(files).map(([file, content]) => fs.writeFile(path.join(dir, file), content)));
+
+    const metas = await listDiscordExportFiles({ exportDir: dir });
+    assert.deepEqual(
+      metas.map((meta) => [meta.label, meta.isThread ?? false, meta.parentChannelId]),
+      [
+        ["Languages / python", false, undefined],
+        ["Languages / python / Index help", true, "10"],
+        ["Languages / python / Slow queries", true, "10"],
+        ["Support / help", false, undefined],
+        ["Support / help / Crash on open", true, "14"],
+      ],
+    );
+
+    const thread = metas.find((meta) => meta.channelId === "11")!;
+    const [msg] = await parseDiscordExportFile(thread, { exportDir: dir });
+    assert.deepEqual(
+      [msg.channel, msg.channelId, msg.threadId, msg.threadTitle],
+      ["Languages / python", "10", "11", "Slow queries"],
+    );
+  });
+});
+
+describe("sampling", () => {
+  const day = (n: number, hour = 12, minute = 0) => new Date(Date.UTC(2026, 0, 5 + n, hour, minute)).toISOString();
+  const chat = (id: string, channel: string, author: string, content: string, timestamp: string) => ({
+    ...message(id, timestamp),
+    channel,
+    author,
+    content,
+  });
+  // Six weeks of daily chatter in #help, busiest in the last week, plus a quieter #dev.
+  const messages: DiscordMessage[] = [
+    ...Array.from({ length: 42 }, (_, i) =>
+      chat(`${1000 + i}`, "help", i % 3 ? "ann" : "bob", `update ${i} about indexing`, day(i)),
+    ),
+    ...Array.from({ length: 20 }, (_, i) => chat(`${2000 + i}`, "help", "cy", `late note ${i}`, day(41, 13, i))),
+    ...Array.from({ length: 10 }, (_, i) => chat(`${3000 + i}`, "dev", "dee", `dev log ${i}`, day(i * 4))),
+  ];
+  const ids = (sampled: DiscordMessage[]) => sampled.map((msg) => msg.id);
+  const streamed = (config: DiscordSampleConfig) => {
+    const sampler = createDiscordMessageSampler(config);
+    messages.forEach(sampler.add);
+    return sampler.finish();
+  };
+
+  it("filters by date, author, length and pattern but keeps system events within the dates", () => {
+    const thread: DiscordMessage = {
+      ...chat("4000", "help", "bot", "", day(3)),
+      system: { kind: "thread_created", text: "Started a thread." },
+    };
+    const sampled = sampleDiscordMessages([...messages, thread], {
+      since: day(0).slice(0, 10),
+      until: day(6).slice(0, 10),
+      excludeAuthors: ["BOB", "dee"],
+      includePatterns: ["index"],
+      excludePatterns: ["update 5 "],
+      minContentLength: 5,
+    });
+    assert.deepEqual(ids(sampled), ["1001", "1002", "4000", "1004"]);
+  });
+
+  it("keeps the newest messages per channel and overall by default", () => {
+    const sampled = sampleDiscordMessages(messages, { maxMessagesPerChannel: 5, maxMessagesTotal: 6 });
+    assert.deepEqual(ids(sampled), ["3009", "2015", "2016", "2017", "2018", "2019"]);
+  });
+
+  it("spreads a stratified sample across weeks instead of the busiest one", () => {
+    const sampled = sampleDiscordMessages(messages, {
+      maxMessagesPerChannel: 12,
+      maxMessagesTotal: 100,
+      sampleStrategy: "stratified",
+    });
+    const helpWeeks = new Set(
+      sampled
+        .filter((msg) => msg.channel === "help")
+        .map((msg) => Math.floor((Date.parse(msg.timestamp!) - Date.parse(day(0))) / (7 * 86_400_000))),
+    );
+    assert.deepEqual([...helpWeeks], [0, 1, 2, 3, 4, 5]);
+  });
+
+  it("puts open questions ahead of newer chatter and answered questions", () => {
+    const questions = [
+      chat("5000", "help", "eve", "How do I build an index?", day(1)),
+      chat("5001", "help", "fay", "Why is search slow?", day(2)),
+      { ...chat("5002", "help", "ann", "Use IVF_PQ.", day(2, 13)), replyToId: "5001" },
+    ];
+    const sampled = sampleDiscordMessages([...messages, ...questions], {
+      maxMessagesPerChannel: 3,
+      maxMessagesTotal: 3,
+      sampleStrategy: "unanswered",
+    });
+    assert.deepEqual(ids(sampled), ["5000", "2018", "2019"]);
+  });
+
+  it("streams the same recent and random samples as the batch sampler", () => {
+    for (const sampleStrategy of ["recent", "random"] as const) {
+      const config = { maxMessagesPerChannel: 7, maxMessagesTotal: 10, maxCharsPerMessage: 12, sampleStrategy };
+      assert.deepEqual(streamed(config), sampleDiscordMessages(messages, config));
+    }
+  });
+
+  it("streams every strategy's full sample when the caps are not reached", () => {
+    for (const sampleStrategy of ["recent", "random", "stratified", "unanswered"] as const) {
+      const config = { maxMessagesPerChannel: 500, maxMessagesTotal: 500, sampleStrategy };
+      assert.deepEqual(ids(streamed(config)), ids(sampleDiscordMessages(messages, config)));
+    }
+  });
+});
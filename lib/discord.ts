@@ -1,20 +1,53 @@
+import { createReadStream } from "fs";
 import fs from "fs/promises";
 import path from "path";
-import { DiscordMessage } from "./types";
+import readline from "readline";
+import { extractCodeBlocks, toFencedBlock, truncateMarkdown } from "./markdown";
+import {
+  DiscordAttachment,
+  DiscordCodeBlock,
+  DiscordEmbed,
+  DiscordMessage,
+  DiscordReaction,
+  DiscordSystemEvent,
+  DiscordSystemEventKind,
+} from "./types";
+
+export type DiscordExportFormat = "html" | "json" | "txt";
 
 export type DiscordChannelMeta = {
   file: string;
+  format: DiscordExportFormat;
   channel: string;
   channelId?: string;
   category?: string;
   label: string;
+  isThread?: boolean;
+  parentChannel?: string;
+  parentChannelId?: string;
+  parentLabel?: string;
+  workspace?: string;
+};
+
+export type DiscordExportSource = {
+  exportDir: string;
+  workspace?: string;
 };
 
+export type DiscordSampleStrategy = "recent" | "random" | "stratified" | "unanswered";
+
 export type DiscordSampleConfig = {
   maxMessagesTotal?: number;
   maxMessagesPerChannel?: number;
   maxCharsPerMessage?: number;
-  sampleStrategy?: "recent" | "random";
+  sampleStrategy?: DiscordSampleStrategy;
+  since?: string;
+  until?: string;
+  includeAuthors?: string[];
+  excludeAuthors?: string[];
+  minContentLength?: number;
+  includePatterns?: string[];
+  excludePatterns?: string[];
 };
 
 export const DISCORD_EXPORT_DIR = path.join(process.cwd(), "LanceDB-DiscordExport");
@@ -48,6 +81,79 @@ const stripHtml = (input: string) =>
     .replace(/\n{3,}/g, "\n\n")
     .trim();
 
+// Returns the inner HTML of the element opened at `openIndex`, honouring nested tags of the same name.
+const extractBalanced = (html: string, openIndex: number, tag: string) => {
+  const tagRegex = new RegExp(`<(/?)${tag}\\b[^>]*>`, "gi");
+  tagRegex.lastIndex = openIndex;
+  let depth = 0;
+  let innerStart = -1;
+  for (let match = tagRegex.exec(html); match; match = tagRegex.exec(html)) {
+    if (match[1]) {
+      depth -= 1;
+      if (depth === 0) return html.slice(innerStart, match.index);
+    } else {
+      if (depth === 0) innerStart = match.index + match[0].length;
+      depth += 1;
+    }
+  }
+  return innerStart >= 0 ? html.slice(innerStart) : "";
+};
+
+const inlineHtmlToMarkdown = (input: string): string =>
+  input
+    .replace(/<span class=["']?chatlog__edited-timestamp[^>]*>[\s\S]*?<\/span>/gi, "")
+    .replace(
+      /<div class=["']?chatlog__markdown-quote-content["']?>([\s\S]*?)<\/div>\s*<\/div>/gi,
+      (_, inner: string) =>
+        `\n${stripHtml(inlineHtmlToMarkdown(inner))
+          .split("\n")
+          .map((line) => `> ${line}`)
+          .join("\n")}\n`,
+    )
+    .replace(/<img\b[^>]*class=["']?chatlog__emoji[^>]*>/gi, (tag) => {
+      const alt = tag.match(/\balt=(?:"([^"]*)"|'([^']*)'|([^\s>]+))/);
+      return alt ? alt[1] ?? alt[2] ?? alt[3] ?? "" : "";
+    })
+    .replace(/<a\b[^>]*href=(?:"([^"]+)"|'([^']+)'|([^\s>]+))[^>]*>([\s\S]*?)<\/a>/gi, (_, d, s, b, text: string) => {
+      const href = d || s || b;
+      const label = stripHtml(text);
+      return !label || decodeHtml(label) === decodeHtml(href) ? href : `[${label}](${href})`;
+    })
+    .replace(/<\/?strong>/gi, "**")
+    .replace(/<\/?em>/gi, "*")
+    .replace(/<\/?s>/gi, "~~")
+    .replace(/<\/?u>/gi, "__")
+    .replace(/<h([1-3])>/gi, (_, level: string) => `\n${"#".repeat(Number(level))} `)
+    .replace(/<li>/gi, "\n- ")
+    .replace(/<\/(?:ul|ol|h[1-3])>/gi, "\n");
+
+// Converts DiscordChatExporter markdown HTML back into markdown, keeping multiline code as
+// fenced blocks so tracebacks and snippets survive as structured data.
+const htmlToMarkdown = (input: string): { markdown: string; codeBlocks: DiscordCodeBlock[] } => {
+  const codeBlocks: DiscordCodeBlock[] = [];
+  const withPlaceholders = input
+    .replace(
+      /<code class=["'][^"']*chatlog__markdown-pre--multiline([^"']*)["']>([\s\S]*?)<\/code>/gi,
+      (_, classes: string, body: string) => {
+        const language = classes.match(/language-([\w+#-]+)/)?.[1];
+        codeBlocks.push({ code: decodeHtml(body.replace(/<[^>]+>/g, "")).replace(/\n+$/, ""), language });
+        return `\n\u0000${codeBlocks.length - 1}\u0000\n`;
+      },
+    )
+    .replace(
+      /<code class=["'][^"']*chatlog__markdown-pre--inline[^"']*["']>([\s\S]*?)<\/code>/gi,
+      (_, body: string) => `\`${body.replace(/<[^>]+>/g, "")}\``,
+    );
+  const markdown = decodeHtml(stripHtml(inlineHtmlToMarkdown(withPlaceholders))).replace(
+    /\u0000(\d+)\u0000/g,
+    (_, idx: string) => {
+      const block = codeBlocks[Number(idx)];
+      return block ? toFencedBlock(block.code, block.language) : "";
+    },
+  );
+  return { markdown: markdown.trim(), codeBlocks };
+};
+
 const extractLinks = (input: string): string[] => {
   const links = new Set<string>();
   const hrefRegex = /href=(?:"([^"]+)"|'([^']+)'|([^\s>]+))/gi;
@@ -63,8 +169,22 @@ const extractLinks = (input: string): string[] => {
   return [...links];
 };
 
+const EXPORT_FORMATS: Record<string, DiscordExportFormat> = {
+  ".html": "html",
+  ".htm": "html",
+  ".json": "json",
+  ".txt": "txt",
+};
+
+// When a channel was exported in several formats, the richest one wins.
+const FORMAT_PREFERENCE: DiscordExportFormat[] = ["json", "html", "txt"];
+
+export const detectExportFormat = (file: string): DiscordExportFormat | undefined =>
+  EXPORT_FORMATS[path.extname(file).toLowerCase()];
+
 export const parseChannelMetaFromFilename = (file: string): DiscordChannelMeta => {
-  const base = file.replace(/\.html$/i, "");
+  const format = detectExportFormat(file) ?? "html";
+  const base = file.slice(0, file.length - path.extname(file).length);
   const parts = base.split(" - ");
   let category: string | undefined;
   let channelPart = base;
@@ -78,17 +198,191 @@ export const parseChannelMetaFromFilename = (file: string): DiscordChannelMeta =
   const channel = (match ? match[1] : channelPart).trim();
   const channelId = match ? match[2] : undefined;
   const label = category ? `${category} / ${channel}` : channel;
-  return { file, channel, channelId, category, label };
+  return { file, format, channel, channelId, category, label };
+};
+
+const asThreadOf = (meta: DiscordChannelMeta, parent: DiscordChannelMeta, title: string): DiscordChannelMeta => ({
+  ...meta,
+  channel: title,
+  category: parent.category,
+  label: `${parent.label} / ${title}`,
+  isThread: true,
+  parentChannel: parent.channel,
+  parentChannelId: parent.channelId,
+  parentLabel: parent.label,
+});
+
+// DiscordChatExporter names thread exports "Guild - Parent - Thread [id]", which only differs
+// from "Guild - Category - Channel [id]" in that the parent is itself an exported channel.
+const linkThreadsToParents = (metas: DiscordChannelMeta[]): DiscordChannelMeta[] => {
+  const channels = metas.filter((meta) => !meta.isThread);
+  return metas.map((meta) => {
+    if (meta.isThread) {
+      const parent = channels.find((channel) => channel.channelId && channel.channelId === meta.parentChannelId);
+      return parent ? asThreadOf(meta, parent, meta.channel) : meta;
+    }
+    const byCategory = channels.find(
+      (parent) => parent !== meta && parent.channel === meta.category && parent.category !== meta.category,
+    );
+    if (byCategory) return asThreadOf(meta, byCategory, meta.channel);
+    const byPrefix = channels.find(
+      (parent) =>
+        parent !== meta && parent.category === meta.category && meta.channel.startsWith(`${parent.channel} - `),
+    );
+    if (byPrefix) return asThreadOf(meta, byPrefix, meta.channel.slice(byPrefix.channel.length + 3));
+    return meta;
+  });
+};
+
+const JSON_HEADER_BYTES = 4096;
+
+// JSON exports describe the channel up front; threads and forum posts report their parent there.
+const applyJsonChannelHeader = async (
+  meta: DiscordChannelMeta,
+  exportDir: string,
+): Promise<DiscordChannelMeta> => {
+  const handle = await fs.open(path.join(exportDir, meta.file), "r").catch(() => null);
+  if (!handle) return meta;
+  try {
+    const buffer = Buffer.alloc(JSON_HEADER_BYTES);
+    const { bytesRead } = await handle.read(buffer, 0, JSON_HEADER_BYTES, 0);
+    const head = buffer.subarray(0, bytesRead).toString("utf8");
+    const channelBlock = head.match(/"channel"\s*:\s*\{([^}]*)\}/)?.[1] ?? "";
+    const field = (name: string) => {
+      const raw = channelBlock.match(new RegExp(`"${name}"\\s*:\\s*"((?:[^"\\\\]|\\\\.)*)"`))?.[1];
+      return raw === undefined ? undefined : (JSON.parse(`"${raw}"`) as string);
+    };
+    const type = field("type") ?? "";
+    if (!/Thread$/.test(type)) return meta;
+    const parentChannel = field("category");
+    const parentChannelId = field("categoryId");
+    const title = field("name") ?? meta.channel;
+    return {
+      ...meta,
+      channel: title,
+      label: parentChannel ? `${parentChannel} / ${title}` : title,
+      isThread: true,
+      parentChannel,
+      parentChannelId,
+      parentLabel: parentChannel,
+    };
+  } finally {
+    await handle.close();
+  }
+};
+
+export const listDiscordExportFiles = async (
+  source: DiscordExportSource = { exportDir: DISCORD_EXPORT_DIR },
+): Promise<DiscordChannelMeta[]> => {
+  const entries = await fs.readdir(source.exportDir).catch(() => []);
+  const byChannel = new Map<string, DiscordChannelMeta>();
+  entries
+    .filter((name) => detectExportFormat(name))
+    .map((name) => ({
+      ...parseChannelMetaFromFilename(name),
+      ...(source.workspace ? { workspace: source.workspace } : {}),
+    }))
+    .forEach((meta) => {
+      const key = meta.channelId ?? meta.label;
+      const existing = byChannel.get(key);
+      if (
+        !existing ||
+        FORMAT_PREFERENCE.indexOf(meta.format) < FORMAT_PREFERENCE.indexOf(existing.format)
+      ) {
+        byChannel.set(key, meta);
+      }
+    });
+  const metas = await Promise.all(
+    [...byChannel.values()].map(async (meta) =>
+      meta.format === "json" ? applyJsonChannelHeader(meta, source.exportDir) : meta,
+    ),
+  );
+  return linkThreadsToParents(metas).sort((a, b) => a.label.localeCompare(b.label));
+};
+
+// Channels can be picked by file name, channel id, channel name or label; no filter picks the first four.
+export const selectDiscordChannels = (channels: DiscordChannelMeta[], filter: string[] = []) =>
+  filter.length > 0
+    ? channels.filter((meta) =>
+        filter.some(
+          (value) =>
+            value === meta.file || value === meta.channelId || value === meta.channel || value === meta.label,
+        ),
+      )
+    : channels.slice(0, 4);
+
+const attrValue = (tag: string, name: string) => {
+  const match = tag.match(new RegExp(`\\b${name}=(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`));
+  if (!match) return undefined;
+  return decodeHtml(match[1] ?? match[2] ?? match[3] ?? "");
+};
+
+// Splits a message slice into one segment per block opener, each running to the next opener.
+const sliceBlocks = (slice: string, opener: RegExp) => {
+  const starts = [...slice.matchAll(opener)].map((m) => m.index ?? 0);
+  return starts.map((start, idx) => slice.slice(start, starts[idx + 1] ?? slice.length));
 };
 
-export const listDiscordExportFiles = async (): Promise<DiscordChannelMeta[]> => {
-  const entries = await fs.readdir(DISCORD_EXPORT_DIR).catch(() => []);
-  return entries
-    .filter((name) => name.toLowerCase().endsWith(".html"))
-    .map(parseChannelMetaFromFilename)
-    .sort((a, b) => a.label.localeCompare(b.label));
+const extractReactions = (slice: string): DiscordReaction[] =>
+  sliceBlocks(slice, /<div class=["']?chatlog__reaction["']?[\s>]/g).flatMap((block) => {
+    const countMatch = block.match(/chatlog__reaction-count["']?>\s*(\d+)/);
+    if (!countMatch) return [];
+    const openTag = block.slice(0, block.indexOf(">") + 1);
+    const imgTag = block.match(/<img[^>]*>/)?.[0] ?? "";
+    const name = attrValue(openTag, "title");
+    const emoji = attrValue(imgTag, "alt") ?? name ?? "?";
+    return [{ emoji, name, count: Number.parseInt(countMatch[1], 10) }];
+  });
+
+const extractEmbeds = (slice: string): DiscordEmbed[] =>
+  sliceBlocks(slice, /<div class=["']?chatlog__embed["']?>/g).flatMap((block) => {
+    const titleMatch = block.match(
+      /chatlog__embed-title["']?>(<a [^>]*>)?\s*<div class=["']chatlog__markdown chatlog__markdown-preserve["']>([\s\S]*?)<\/div>/,
+    );
+    const descriptionMatch = block.match(
+      /chatlog__embed-description["']?>\s*<div class=["']chatlog__markdown chatlog__markdown-preserve["']>([\s\S]*?)<\/div>/,
+    );
+    const title = titleMatch ? decodeHtml(stripHtml(titleMatch[2])) || undefined : undefined;
+    const url = titleMatch?.[1] ? attrValue(titleMatch[1], "href") : undefined;
+    const description = descriptionMatch ? decodeHtml(stripHtml(descriptionMatch[1])) || undefined : undefined;
+    if (!title && !description && !url) return [];
+    return [{ title, description, url }];
+  });
+
+const attachmentKinds: Record<string, DiscordAttachment["kind"]> = {
+  image: "image",
+  video: "video",
+  audio: "audio",
 };
 
+const extractAttachments = (slice: string): DiscordAttachment[] =>
+  sliceBlocks(slice, /<div class=["']?chatlog__attachment[\s"'>]/g).flatMap<DiscordAttachment>((block) => {
+    const hrefTag = block.match(/<(?:a|source)\s[^>]*(?:href|src)=[^>]*>/)?.[0];
+    const url = hrefTag ? attrValue(hrefTag, "href") ?? attrValue(hrefTag, "src") : undefined;
+    if (!url) return [];
+    const mediaTitle = block.match(/title="(Image|Video|Audio): (.+?) \(([^)]+)\)"/);
+    if (mediaTitle) {
+      return [
+        {
+          url,
+          kind: attachmentKinds[mediaTitle[1].toLowerCase()] ?? "file",
+          fileName: decodeHtml(mediaTitle[2]),
+          size: mediaTitle[3],
+        },
+      ];
+    }
+    const nameMatch = block.match(/chatlog__attachment-generic-name["']?>\s*<a [^>]*>([\s\S]*?)<\/a>/);
+    const sizeMatch = block.match(/chatlog__attachment-generic-size["']?>([^<]*)</);
+    return [
+      {
+        url,
+        kind: "file",
+        fileName: nameMatch ? decodeHtml(stripHtml(nameMatch[1])) || undefined : undefined,
+        size: sizeMatch ? sizeMatch[1].trim() || undefined : undefined,
+      },
+    ];
+  });
+
 const toIso = (value?: string) => {
   if (!value) return undefined;
   const parsed = new Date(value);
@@ -96,69 +390,613 @@ const toIso = (value?: string) => {
   return parsed.toISOString();
 };
 
-export const parseDiscordExportFile = async (meta: DiscordChannelMeta): Promise<DiscordMessage[]> => {
-  const filePath = path.join(DISCORD_EXPORT_DIR, meta.file);
-  const html = await fs.readFile(filePath, "utf8");
-  const matches = [
-    ...html.matchAll(/<div id=["']?chatlog__message-container-(\d+)["']?[^>]*>/g),
+type MessageParseState = {
+  lastAuthor?: string;
+  lastAuthorIsBot?: boolean;
+};
+
+const systemEventKind = (text: string): DiscordSystemEventKind => {
+  const lower = text.toLowerCase();
+  if (lower.includes("started a thread")) return "thread_created";
+  if (lower.includes("pinned a message")) return "message_pinned";
+  if (lower.includes("joined the server")) return "member_joined";
+  return "other";
+};
+
+const systemMessage = (
+  base: Pick<DiscordMessage, "id" | "author" | "timestamp" | "url">,
+  system: DiscordSystemEvent,
+  meta: DiscordChannelMeta,
+): DiscordMessage => ({
+  ...base,
+  channel: meta.label,
+  channelId: meta.channelId,
+  content: system.text,
+  links: [],
+  file: meta.file,
+  system,
+});
+
+const parseSystemNotification = (
+  id: string,
+  slice: string,
+  meta: DiscordChannelMeta,
+): DiscordMessage | null => {
+  const contentMatch = slice.match(
+    /<span class=["']?chatlog__system-notification-content["']?>([\s\S]*?)<\/span>\s*<span class=["']?chatlog__system-notification-timestamp/,
+  );
+  if (!contentMatch) return null;
+  const text = decodeHtml(stripHtml(contentMatch[1])).replace(/\s+/g, " ").trim();
+  const authorMatch = slice.match(/chatlog__system-notification-author[^>]*>([\s\S]*?)<\/span>/);
+  const timestampMatch = slice.match(/chatlog__system-notification-timestamp[^>]*title="([^"]+)"/);
+  const targetMatch = contentMatch[1].match(/href=["']?#chatlog__message-container-(\d+)/);
+  return systemMessage(
+    {
+      id,
+      author: authorMatch ? decodeHtml(stripHtml(authorMatch[1])) : undefined,
+      timestamp: toIso(timestampMatch?.[1]),
+      url: `${exportFileUrl(meta)}#chatlog__message-container-${id}`,
+    },
+    { kind: systemEventKind(text), text, ...(targetMatch ? { targetMessageId: targetMatch[1] } : {}) },
+    meta,
+  );
+};
+
+const parseMessageSlice = (
+  id: string,
+  slice: string,
+  meta: DiscordChannelMeta,
+  state: MessageParseState,
+): DiscordMessage | null => {
+  const systemMessage = parseSystemNotification(id, slice, meta);
+  if (systemMessage) return systemMessage;
+
+  const authorMatch = slice.match(/<span class=["']?chatlog__author[^>]*>(.*?)<\/span>/);
+  const author = authorMatch ? decodeHtml(stripHtml(authorMatch[1])) : state.lastAuthor;
+  if (author) state.lastAuthor = author;
+  // DCE tags bot and webhook authors with a badge next to the name on the first grouped message.
+  const isBot = authorMatch
+    ? /<span class=["']?chatlog__author-tag["']?[^>]*>/.test(slice.slice((authorMatch.index ?? 0) + authorMatch[0].length).slice(0, 200))
+    : state.lastAuthorIsBot;
+  state.lastAuthorIsBot = isBot;
+
+  let timestamp: string | undefined;
+  const tsMatch = slice.match(/chatlog__timestamp[^>]*title="([^"]+)"/);
+  if (tsMatch) {
+    timestamp = tsMatch[1];
+  } else {
+    const shortMatch = slice.match(/chatlog__short-timestamp[^>]*title="([^"]+)"/);
+    if (shortMatch) timestamp = shortMatch[1];
+  }
+
+  const replyMatch = slice.match(
+    /<div class=["']?chatlog__reply["']?>([\s\S]*?)<span class=["']?chatlog__reply-link["']?[^>]*scrollToMessage\(event,\s*'(\d+)'\)/,
+  );
+  let replyToId: string | undefined;
+  let replyToAuthor: string | undefined;
+  if (replyMatch) {
+    replyToId = replyMatch[2];
+    const replyAuthorMatch = replyMatch[1].match(/chatlog__reply-author[^>]*>([\s\S]*?)<\/div>/);
+    if (replyAuthorMatch) replyToAuthor = decodeHtml(stripHtml(replyAuthorMatch[1])) || undefined;
+  }
+
+  const contentBlocks = [
+    ...slice.matchAll(/<div class=["']chatlog__content chatlog__markdown["']>/g),
+  ].map((m) => extractBalanced(slice, m.index ?? 0, "div"));
+  const converted = contentBlocks.map(htmlToMarkdown);
+  const content = converted
+    .map((block) => block.markdown)
+    .join("\n")
+    .trim();
+  const codeBlocks = converted.flatMap((block) => block.codeBlocks);
+
+  const mentions = [
+    ...new Set(
+      contentBlocks.flatMap((block) =>
+        [...block.matchAll(/chatlog__markdown-mention["']?[^>]*>@([^<]+)</g)].map((m) => decodeHtml(m[1]).trim()),
+      ),
+    ),
   ];
-  const messages: DiscordMessage[] = [];
-  let lastAuthor: string | undefined;
-
-  for (let i = 0; i < matches.length; i++) {
-    const id = matches[i][1];
-    const start = matches[i].index ?? 0;
-    const end = i + 1 < matches.length ? matches[i + 1].index ?? html.length : html.length;
-    const slice = html.slice(start, end);
-
-    const authorMatch = slice.match(/<span class=["']?chatlog__author[^>]*>(.*?)<\/span>/);
-    const author = authorMatch ? decodeHtml(stripHtml(authorMatch[1])) : lastAuthor;
-    if (author) lastAuthor = author;
-
-    let timestamp: string | undefined;
-    const tsMatch = slice.match(/chatlog__timestamp[^>]*title="([^"]+)"/);
-    if (tsMatch) {
-      timestamp = tsMatch[1];
+  const reactions = extractReactions(slice);
+  const embeds = extractEmbeds(slice);
+  const attachments = extractAttachments(slice);
+
+  if (!content && embeds.length === 0 && attachments.length === 0) return null;
+  const links = extractLinks(contentBlocks.join(" "));
+
+  return {
+    id,
+    channel: meta.label,
+    channelId: meta.channelId,
+    author,
+    timestamp: toIso(timestamp),
+    content,
+    links,
+    file: meta.file,
+    url: `${exportFileUrl(meta)}#chatlog__message-container-${id}`,
+    ...(replyToId ? { replyToId, replyToAuthor } : {}),
+    ...(reactions.length ? { reactions } : {}),
+    ...(embeds.length ? { embeds } : {}),
+    ...(attachments.length ? { attachments } : {}),
+    ...(codeBlocks.length ? { codeBlocks } : {}),
+    ...(mentions.length ? { mentions } : {}),
+    ...(/chatlog__message-container--pinned/.test(slice.slice(0, slice.indexOf(">"))) ? { pinned: true } : {}),
+    ...(isBot ? { isBot: true } : {}),
+  };
+};
+
+const MESSAGE_CONTAINER_SOURCE = /<div id=["']?chatlog__message-container-(\d+)["']?[^>]*>/.source;
+// A container tag split across two chunks is re-scanned from this far back.
+const TAG_OVERLAP_CHARS = 512;
+
+export type DiscordStreamOptions = {
+  chunkSize?: number;
+  exportDir?: string;
+};
+
+// Streams the export in chunks and yields one raw HTML slice per message container, so only
+// the message currently being assembled is held in memory.
+async function* tokenizeMessageContainers(
+  filePath: string,
+  options: DiscordStreamOptions = {},
+): AsyncGenerator<{ id: string; html: string }> {
+  const stream = createReadStream(filePath, {
+    encoding: "utf8",
+    highWaterMark: options.chunkSize ?? 64 * 1024,
+  });
+  let buffer = "";
+  let currentId: string | undefined;
+  let scanFrom = 0;
+
+  for await (const chunk of stream) {
+    buffer += chunk as string;
+    const regex = new RegExp(MESSAGE_CONTAINER_SOURCE, "g");
+    regex.lastIndex = scanFrom;
+    let consumed = 0;
+    for (let match = regex.exec(buffer); match; match = regex.exec(buffer)) {
+      if (currentId !== undefined) yield { id: currentId, html: buffer.slice(consumed, match.index) };
+      currentId = match[1];
+      consumed = match.index;
+    }
+    if (currentId !== undefined) {
+      buffer = buffer.slice(consumed);
+      scanFrom = Math.max(1, buffer.length - TAG_OVERLAP_CHARS);
     } else {
-      const shortMatch = slice.match(/chatlog__short-timestamp[^>]*title="([^"]+)"/);
-      if (shortMatch) timestamp = shortMatch[1];
+      buffer = buffer.slice(-TAG_OVERLAP_CHARS);
+      scanFrom = 0;
     }
+  }
 
-    const contentBlocks = [
-      ...slice.matchAll(
-        /<div class=["']chatlog__content chatlog__markdown["']>([\s\S]*?)<\/div>/g,
-      ),
-    ].map((m) => m[1]);
-    const content = contentBlocks
-      .map((block) => {
-        const preserveMatch = block.match(
-          /<span class=["']?chatlog__markdown-preserve["']?>([\s\S]*?)<\/span>/,
-        );
-        const inner = preserveMatch ? preserveMatch[1] : block;
-        return decodeHtml(stripHtml(inner));
-      })
-      .join("\n")
-      .trim();
-
-    if (!content) continue;
-    const links = extractLinks(contentBlocks.join(" "));
-
-    messages.push({
-      id,
-      channel: meta.label,
-      channelId: meta.channelId,
-      author,
-      timestamp: toIso(timestamp),
-      content,
-      links,
-      file: meta.file,
-      url: `/api/discord/export?file=${encodeURIComponent(meta.file)}#chatlog__message-container-${id}`,
-    });
+  if (currentId !== undefined) yield { id: currentId, html: buffer };
+}
+
+async function* streamHtmlMessages(
+  filePath: string,
+  meta: DiscordChannelMeta,
+  options: DiscordStreamOptions,
+): AsyncGenerator<DiscordMessage> {
+  const state: MessageParseState = {};
+  for await (const token of tokenizeMessageContainers(filePath, options)) {
+    const message = parseMessageSlice(token.id, token.html, meta, state);
+    if (message) yield message;
+  }
+}
+
+// Yields the items of a top-level array property (e.g. "messages") one at a time without
+// holding the whole JSON document in memory.
+async function* streamJsonArrayItems(
+  filePath: string,
+  key: string,
+  options: DiscordStreamOptions = {},
+): AsyncGenerator<unknown> {
+  const stream = createReadStream(filePath, {
+    encoding: "utf8",
+    highWaterMark: options.chunkSize ?? 64 * 1024,
+  });
+  let buffer = "";
+  let pos = 0;
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let stringStart = -1;
+  let lastTopLevelString: string | undefined;
+  let inArray = false;
+  let itemStart = -1;
+
+  for await (const chunk of stream) {
+    buffer += chunk as string;
+    for (; pos < buffer.length; pos++) {
+      const ch = buffer[pos];
+      if (inString) {
+        if (escaped) escaped = false;
+        else if (ch === "\\") escaped = true;
+        else if (ch === '"') {
+          inString = false;
+          if (stringStart >= 0) lastTopLevelString = JSON.parse(buffer.slice(stringStart, pos + 1));
+          stringStart = -1;
+        }
+        continue;
+      }
+      if (ch === '"') {
+        inString = true;
+        if (depth === 1) stringStart = pos;
+      } else if (ch === "{" || ch === "[") {
+        depth += 1;
+        if (ch === "[" && depth === 2 && lastTopLevelString === key) inArray = true;
+        else if (inArray && depth === 3) itemStart = pos;
+      } else if (ch === "}" || ch === "]") {
+        if (inArray && depth === 3 && itemStart >= 0) {
+          yield JSON.parse(buffer.slice(itemStart, pos + 1));
+          itemStart = -1;
+        }
+        if (inArray && depth === 2) inArray = false;
+        depth -= 1;
+      }
+    }
+    const keepFrom = itemStart >= 0 ? itemStart : stringStart >= 0 ? stringStart : pos;
+    buffer = buffer.slice(keepFrom);
+    pos -= keepFrom;
+    if (itemStart >= 0) itemStart -= keepFrom;
+    if (stringStart >= 0) stringStart -= keepFrom;
+  }
+}
+
+type JsonExportUser = {
+  name?: string;
+  nickname?: string;
+  isBot?: boolean;
+};
+
+type JsonExportMessage = {
+  id: string;
+  type?: string;
+  timestamp?: string;
+  content?: string;
+  author?: JsonExportUser;
+  attachments?: Array<{ url: string; fileName?: string; fileSizeBytes?: number }>;
+  embeds?: Array<{ title?: string; description?: string; url?: string }>;
+  reactions?: Array<{ emoji?: { name?: string; code?: string }; count?: number }>;
+  mentions?: JsonExportUser[];
+  reference?: { messageId?: string; channelId?: string };
+  isPinned?: boolean;
+};
+
+const JSON_SYSTEM_EVENTS: Record<string, { kind: DiscordSystemEventKind; text: string }> = {
+  ThreadCreated: { kind: "thread_created", text: "started a thread." },
+  ChannelPinnedMessage: { kind: "message_pinned", text: "pinned a message to this channel." },
+  GuildMemberJoin: { kind: "member_joined", text: "joined the server." },
+};
+
+const JSON_CONTENT_MESSAGE_TYPES = new Set([
+  "Default",
+  "Reply",
+  "ThreadStarterMessage",
+  "ChatInputCommand",
+  "ContextMenuCommand",
+]);
+
+const userDisplayName = (user?: JsonExportUser) => user?.nickname || user?.name || undefined;
+
+const formatFileSize = (bytes?: number) => {
+  if (typeof bytes !== "number") return undefined;
+  const units = ["bytes", "KB", "MB", "GB"];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit += 1;
+  }
+  return unit === 0 ? `${value} ${units[unit]}` : `${value.toFixed(2)} ${units[unit]}`;
+};
+
+const attachmentKindFromName = (name: string): DiscordAttachment["kind"] => {
+  const ext = path.extname(name.split("?")[0]).toLowerCase();
+  if ([".png", ".jpg", ".jpeg", ".gif", ".webp", ".bmp"].includes(ext)) return "image";
+  if ([".mp4", ".mov", ".webm", ".mkv"].includes(ext)) return "video";
+  if ([".mp3", ".wav", ".ogg", ".m4a", ".flac"].includes(ext)) return "audio";
+  return "file";
+};
+
+const exportFileUrl = (meta: DiscordChannelMeta) =>
+  `/api/discord/export?file=${encodeURIComponent(meta.file)}${
+    meta.workspace ? `&workspace=${encodeURIComponent(meta.workspace)}` : ""
+  }`;
+
+type ExportIds = { guildId?: string; channelId?: string };
+
+// Exports without the guild and channel ids link into the export file, anchored on the message.
+const messageUrl = (meta: DiscordChannelMeta, messageId: string, ids: ExportIds = {}) =>
+  ids.guildId && ids.channelId
+    ? `https://discord.com/channels/${ids.guildId}/${ids.channelId}/${messageId}`
+    : `${exportFileUrl(meta)}#${messageId}`;
+
+// The guild and channel objects come before the messages array in a JSON export.
+const readJsonExportIds = async (filePath: string): Promise<ExportIds> => {
+  const handle = await fs.open(filePath, "r");
+  try {
+    const { buffer, bytesRead } = await handle.read(Buffer.alloc(8192), 0, 8192, 0);
+    const head = buffer.toString("utf8", 0, bytesRead);
+    return {
+      guildId: head.match(/"guild"\s*:\s*\{\s*"id"\s*:\s*"(\d+)"/)?.[1],
+      channelId: head.match(/"channel"\s*:\s*\{\s*"id"\s*:\s*"(\d+)"/)?.[1],
+    };
+  } finally {
+    await handle.close();
+  }
+};
+
+const jsonMessageToDiscordMessage = (
+  raw: JsonExportMessage,
+  meta: DiscordChannelMeta,
+  authorsById: Map<string, string | undefined>,
+  ids: ExportIds = {},
+): DiscordMessage | null => {
+  const url = messageUrl(meta, raw.id, ids);
+  const author = userDisplayName(raw.author);
+  authorsById.set(raw.id, author);
+  if (raw.type && !JSON_CONTENT_MESSAGE_TYPES.has(raw.type)) {
+    const { kind, text } = JSON_SYSTEM_EVENTS[raw.type] ?? {
+      kind: "other" as const,
+      text: (raw.content ?? "").trim() || raw.type,
+    };
+    return systemMessage(
+      { id: raw.id, author, timestamp: toIso(raw.timestamp), url },
+      {
+        kind,
+        text,
+        ...(kind === "thread_created" ? { threadId: raw.reference?.channelId, threadTitle: raw.content || undefined } : {}),
+        ...(kind === "message_pinned" && raw.reference?.messageId ? { targetMessageId: raw.reference.messageId } : {}),
+      },
+      meta,
+    );
+  }
+
+  const content = (raw.content ?? "").trim();
+  const embeds = (raw.embeds ?? [])
+    .map((embed) => ({
+      title: embed.title || undefined,
+      description: embed.description || undefined,
+      url: embed.url || undefined,
+    }))
+    .filter((embed) => embed.title || embed.description || embed.url);
+  const attachments = (raw.attachments ?? []).map<DiscordAttachment>((attachment) => ({
+    url: attachment.url,
+    kind: attachmentKindFromName(attachment.fileName ?? attachment.url),
+    fileName: attachment.fileName,
+    size: formatFileSize(attachment.fileSizeBytes),
+  }));
+  if (!content && embeds.length === 0 && attachments.length === 0) return null;
+
+  const reactions = (raw.reactions ?? []).map<DiscordReaction>((reaction) => ({
+    emoji: reaction.emoji?.name ?? "?",
+    name: reaction.emoji?.code || undefined,
+    count: reaction.count ?? 0,
+  }));
+  const mentions = [...new Set((raw.mentions ?? []).map(userDisplayName).filter(Boolean))] as string[];
+  const codeBlocks = extractCodeBlocks(content);
+  const replyToId = raw.type === "Reply" ? raw.reference?.messageId : undefined;
+
+  return {
+    id: raw.id,
+    channel: meta.label,
+    channelId: meta.channelId,
+    author,
+    timestamp: toIso(raw.timestamp),
+    content,
+    links: extractLinks(content),
+    file: meta.file,
+    url,
+    ...(replyToId ? { replyToId, replyToAuthor: authorsById.get(replyToId) } : {}),
+    ...(reactions.length ? { reactions } : {}),
+    ...(embeds.length ? { embeds } : {}),
+    ...(attachments.length ? { attachments } : {}),
+    ...(codeBlocks.length ? { codeBlocks } : {}),
+    ...(mentions.length ? { mentions } : {}),
+    ...(raw.isPinned ? { pinned: true } : {}),
+    ...(raw.author?.isBot ? { isBot: true } : {}),
+  };
+};
+
+async function* streamJsonMessages(
+  filePath: string,
+  meta: DiscordChannelMeta,
+  options: DiscordStreamOptions,
+): AsyncGenerator<DiscordMessage> {
+  const authorsById = new Map<string, string | undefined>();
+  const header = await readJsonExportIds(filePath);
+  const ids = { guildId: header.guildId, channelId: header.channelId ?? meta.channelId };
+  for await (const item of streamJsonArrayItems(filePath, "messages", options)) {
+    const message = jsonMessageToDiscordMessage(item as JsonExportMessage, meta, authorsById, ids);
+    if (message) yield message;
+  }
+}
+
+const TEXT_HEADER_REGEX = /^\[([^\]]+)\] (.+)$/;
+const TEXT_RULE_REGEX = /^={10,}$/;
+const TEXT_SYSTEM_CONTENT = /^(Joined the server|Started a thread|Pinned a message)\.?$/;
+const DISCORD_EPOCH_MS = BigInt(1420070400000);
+
+// Plain-text exports carry no message ids, so one is derived from the timestamp in snowflake layout.
+const syntheticSnowflake = (timestamp: string | undefined, sequence: number) => {
+  const ms = timestamp ? new Date(timestamp).getTime() : Number.NaN;
+  const base = Number.isNaN(ms) ? BigInt(0) : BigInt(ms) - DISCORD_EPOCH_MS;
+  return ((base << BigInt(22)) + BigInt(sequence % 4096)).toString();
+};
+
+const textBlockToDiscordMessage = (
+  header: { timestamp?: string; author: string },
+  lines: string[],
+  meta: DiscordChannelMeta,
+  sequence: number,
+): DiscordMessage | null => {
+  const contentLines: string[] = [];
+  const attachments: DiscordAttachment[] = [];
+  const embeds: DiscordEmbed[] = [];
+  const reactions: DiscordReaction[] = [];
+  let section = "content";
+
+  lines.forEach((line) => {
+    const sectionMatch = line.match(/^\{(Attachments|Embed|Reactions|Stickers)\}$/);
+    if (sectionMatch) {
+      section = sectionMatch[1];
+      if (section === "Embed") embeds.push({});
+      return;
+    }
+    const trimmed = line.trim();
+    if (section === "content") {
+      contentLines.push(line);
+    } else if (section === "Attachments" && trimmed) {
+      const fileName = decodeURIComponent(path.basename(trimmed.split("?")[0]));
+      attachments.push({ url: trimmed, kind: attachmentKindFromName(fileName), fileName });
+    } else if (section === "Embed" && trimmed) {
+      const embed = embeds[embeds.length - 1];
+      if (/^https?:\/\//.test(trimmed)) embed.url = embed.url ?? trimmed;
+      else if (!embed.title) embed.title = trimmed;
+      else embed.description = embed.description ? `${embed.description}\n${trimmed}` : trimmed;
+    } else if (section === "Reactions" && trimmed) {
+      for (const match of trimmed.matchAll(/(\S+?)(?: \((\d+)\))?(?=\s|$)/g)) {
+        reactions.push({ emoji: match[1], count: match[2] ? Number.parseInt(match[2], 10) : 1 });
+      }
+    }
+  });
+
+  const content = contentLines.join("\n").trim();
+  const timestamp = toIso(header.timestamp);
+  const author = header.author.replace(/#0$/, "");
+  const id = syntheticSnowflake(timestamp, sequence);
+  const url = messageUrl(meta, id);
+  if (TEXT_SYSTEM_CONTENT.test(content)) {
+    return systemMessage(
+      { id, author, timestamp, url },
+      { kind: systemEventKind(content), text: content },
+      meta,
+    );
   }
+  if (!content && embeds.length === 0 && attachments.length === 0) return null;
+  const codeBlocks = extractCodeBlocks(content);
 
+  return {
+    id,
+    channel: meta.label,
+    channelId: meta.channelId,
+    author,
+    timestamp,
+    content,
+    links: extractLinks(content),
+    file: meta.file,
+    url,
+    ...(reactions.length ? { reactions } : {}),
+    ...(embeds.length ? { embeds } : {}),
+    ...(attachments.length ? { attachments } : {}),
+    ...(codeBlocks.length ? { codeBlocks } : {}),
+  };
+};
+
+async function* streamTextMessages(
+  filePath: string,
+  meta: DiscordChannelMeta,
+  options: DiscordStreamOptions,
+): AsyncGenerator<DiscordMessage> {
+  const lines = readline.createInterface({
+    input: createReadStream(filePath, { encoding: "utf8", highWaterMark: options.chunkSize ?? 64 * 1024 }),
+    crlfDelay: Infinity,
+  });
+  let header: { timestamp?: string; author: string } | null = null;
+  let body: string[] = [];
+  let sequence = 0;
+
+  const flush = () => {
+    const message = header ? textBlockToDiscordMessage(header, body, meta, sequence++) : null;
+    header = null;
+    body = [];
+    return message;
+  };
+
+  for await (const line of lines) {
+    if (TEXT_RULE_REGEX.test(line.trim())) {
+      const message = flush();
+      if (message) yield message;
+      continue;
+    }
+    const headerMatch = line.match(TEXT_HEADER_REGEX);
+    if (headerMatch && !Number.isNaN(new Date(headerMatch[1]).getTime())) {
+      const message = flush();
+      if (message) yield message;
+      header = { timestamp: headerMatch[1], author: headerMatch[2].trim() };
+      continue;
+    }
+    if (header) body.push(line);
+  }
+  const message = flush();
+  if (message) yield message;
+}
+
+const streamMessagesByFormat = (meta: DiscordChannelMeta, options: DiscordStreamOptions) => {
+  const filePath = path.join(options.exportDir ?? DISCORD_EXPORT_DIR, meta.file);
+  switch (meta.format) {
+    case "json":
+      return streamJsonMessages(filePath, meta, options);
+    case "txt":
+      return streamTextMessages(filePath, meta, options);
+    default:
+      return streamHtmlMessages(filePath, meta, options);
+  }
+};
+
+// Thread messages are reported under their parent channel and tagged with the thread they belong to.
+const withThreadContext = (message: DiscordMessage, meta: DiscordChannelMeta): DiscordMessage =>
+  meta.isThread
+    ? {
+        ...message,
+        channel: meta.parentLabel ?? meta.label,
+        channelId: meta.parentChannelId ?? meta.channelId,
+        threadId: meta.channelId ?? meta.file,
+        threadTitle: meta.channel,
+      }
+    : message;
+
+export async function* streamDiscordExportFile(
+  meta: DiscordChannelMeta,
+  options: DiscordStreamOptions = {},
+): AsyncGenerator<DiscordMessage> {
+  for await (const message of streamMessagesByFormat(meta, options)) {
+    yield withThreadContext(message, meta);
+  }
+}
+
+export const parseDiscordExportFile = async (
+  meta: DiscordChannelMeta,
+  options: DiscordStreamOptions = {},
+): Promise<DiscordMessage[]> => {
+  const messages: DiscordMessage[] = [];
+  for await (const message of streamDiscordExportFile(meta, options)) {
+    messages.push(message);
+  }
   return messages;
 };
 
+export const channelMarkKey = (meta: DiscordChannelMeta) => meta.channelId ?? meta.file;
+
+// Discord ids are snowflakes, so numeric order is chronological order.
+export const compareMessageIds = (a: string, b: string) => {
+  if (/^\d+$/.test(a) && /^\d+$/.test(b)) {
+    const diff = BigInt(a) - BigInt(b);
+    return diff === BigInt(0) ? 0 : diff > BigInt(0) ? 1 : -1;
+  }
+  return a.localeCompare(b);
+};
+
+export const isAfterMark = (
+  message: DiscordMessage,
+  mark: { lastMessageId: string; lastTimestamp?: string },
+) => {
+  if (/^\d+$/.test(message.id) && /^\d+$/.test(mark.lastMessageId)) {
+    return compareMessageIds(message.id, mark.lastMessageId) > 0;
+  }
+  if (message.timestamp && mark.lastTimestamp) return message.timestamp > mark.lastTimestamp;
+  return true;
+};
+
 const hash = (value: string) => {
   let h = 0;
   for (let i = 0; i < value.length; i++) {
@@ -167,6 +1005,191 @@ const hash = (value: string) => {
   return Math.abs(h);
 };
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEK_MS = 7 * DAY_MS;
+const DATE_ONLY_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+// Date-only bounds cover the whole day, so until=2026-02-28 includes messages from that day.
+export const parseSampleBound = (value: string | undefined, edge: "start" | "end") => {
+  if (!value?.trim()) return undefined;
+  const time = Date.parse(value.trim());
+  if (Number.isNaN(time)) return undefined;
+  return edge === "end" && DATE_ONLY_REGEX.test(value.trim()) ? time + DAY_MS - 1 : time;
+};
+
+const compilePatterns = (patterns: string[] | undefined) =>
+  (patterns ?? []).filter((p) => p.trim()).map((p) => new RegExp(p, "i"));
+
+export const validateSampleConfig = (config: DiscordSampleConfig): string | undefined => {
+  for (const [name, value] of [["since", config.since], ["until", config.until]] as const) {
+    if (value?.trim() && Number.isNaN(Date.parse(value.trim()))) return `Invalid ${name} date: ${value}`;
+  }
+  for (const pattern of [...(config.includePatterns ?? []), ...(config.excludePatterns ?? [])]) {
+    try {
+      new RegExp(pattern, "i");
+    } catch {
+      return `Invalid pattern: ${pattern}`;
+    }
+  }
+  return undefined;
+};
+
+// Filters that leave messages out of a run altogether. The sample caps are not among them: they
+// only thin out messages the run has seen.
+export const activeSampleFilters = (config: DiscordSampleConfig) =>
+  (
+    [
+      ["since", config.since?.trim()],
+      ["until", config.until?.trim()],
+      ["includeAuthors", config.includeAuthors?.length],
+      ["excludeAuthors", config.excludeAuthors?.length],
+      ["minContentLength", config.minContentLength],
+      ["includePatterns", config.includePatterns?.length],
+      ["excludePatterns", config.excludePatterns?.length],
+    ] as const
+  )
+    .filter(([, value]) => Boolean(value))
+    .map(([name]) => name);
+
+// System events only honour the date range: they mark thread boundaries rather than content.
+const createSampleFilter = (config: DiscordSampleConfig) => {
+  const since = parseSampleBound(config.since, "start");
+  const until = parseSampleBound(config.until, "end");
+  const normalizeAuthor = (author: string) => author.trim().toLowerCase();
+  const includeAuthors = new Set((config.includeAuthors ?? []).map(normalizeAuthor).filter(Boolean));
+  const excludeAuthors = new Set((config.excludeAuthors ?? []).map(normalizeAuthor).filter(Boolean));
+  const includePatterns = compilePatterns(config.includePatterns);
+  const excludePatterns = compilePatterns(config.excludePatterns);
+  const minContentLength = config.minContentLength ?? 0;
+
+  return (msg: DiscordMessage) => {
+    if (since !== undefined || until !== undefined) {
+      const time = Date.parse(msg.timestamp ?? "");
+      if (Number.isNaN(time)) return false;
+      if (since !== undefined && time < since) return false;
+      if (until !== undefined && time > until) return false;
+    }
+    if (msg.system) return true;
+    const author = normalizeAuthor(msg.author ?? "");
+    if (includeAuthors.size && !includeAuthors.has(author)) return false;
+    if (excludeAuthors.has(author)) return false;
+    if (msg.content.trim().length < minContentLength) return false;
+    if (includePatterns.length && !includePatterns.some((regex) => regex.test(msg.content))) return false;
+    return !excludePatterns.some((regex) => regex.test(msg.content));
+  };
+};
+
+const filterSampleMessages = (messages: DiscordMessage[], config: DiscordSampleConfig) =>
+  messages.filter(createSampleFilter(config));
+
+const QUESTION_REGEX = /\?(\s|$)|^(how|why|what|when|where|which|is there|are there|does|do|can|could|should|has anyone|any idea)\b/i;
+
+// A question counts as answered once a different author replies to it or posts after it in
+// the same thread.
+const findUnansweredQuestions = (messages: DiscordMessage[]) => {
+  const byId = new Map(messages.map((m) => [m.id, m] as const));
+  const answered = new Set<string>();
+  messages.forEach((msg) => {
+    const parent = msg.replyToId ? byId.get(msg.replyToId) : undefined;
+    if (parent && parent.author !== msg.author) answered.add(parent.id);
+  });
+  const threads = messages.reduce<Map<string, DiscordMessage[]>>((acc, msg) => {
+    if (!msg.threadId || msg.system) return acc;
+    const bucket = acc.get(msg.threadId) ?? [];
+    bucket.push(msg);
+    acc.set(msg.threadId, bucket);
+    return acc;
+  }, new Map());
+  threads.forEach((threadMessages) => {
+    const laterAuthors = new Set<string>();
+    for (let i = threadMessages.length - 1; i >= 0; i--) {
+      const msg = threadMessages[i];
+      if ([...laterAuthors].some((author) => author !== msg.author)) answered.add(msg.id);
+      laterAuthors.add(msg.author ?? "");
+    }
+  });
+  return new Set(
+    messages
+      .filter((msg) => !msg.system && !answered.has(msg.id) && QUESTION_REGEX.test(msg.content.trim()))
+      .map((msg) => msg.id),
+  );
+};
+
+const spreadEvenly = <T>(items: T[], count: number) => {
+  if (count >= items.length) return items;
+  if (count <= 0) return [];
+  const step = items.length / count;
+  return Array.from({ length: count }, (_, i) => items[Math.floor(i * step + step / 2)]);
+};
+
+// Weeks start on Monday (UTC); the epoch fell on a Thursday.
+const weekIndex = (msg: DiscordMessage) => {
+  const time = Date.parse(msg.timestamp ?? "");
+  return Number.isNaN(time) ? -1 : Math.floor((time - 4 * DAY_MS) / WEEK_MS);
+};
+
+// Splits the quota evenly across weeks; quota a quiet week cannot use goes to the others.
+const stratifyByWeek = (sorted: DiscordMessage[], count: number) => {
+  if (sorted.length <= count) return sorted;
+  const weeks = sorted.reduce<Map<number, DiscordMessage[]>>((acc, msg) => {
+    const key = weekIndex(msg);
+    const bucket = acc.get(key) ?? [];
+    bucket.push(msg);
+    acc.set(key, bucket);
+    return acc;
+  }, new Map());
+  const buckets = [...weeks.values()];
+  const quotas = buckets.map(() => 0);
+  let remaining = count;
+  let open = buckets.map((_, i) => i);
+  while (remaining > 0 && open.length > 0) {
+    // With more weeks than slots left, take one message from evenly spaced weeks.
+    const targets = open.length > remaining ? spreadEvenly(open, remaining) : open;
+    const share = Math.max(1, Math.floor(remaining / targets.length));
+    for (const i of targets) {
+      if (remaining === 0) break;
+      const take = Math.min(share, buckets[i].length - quotas[i], remaining);
+      quotas[i] += take;
+      remaining -= take;
+    }
+    open = open.filter((i) => quotas[i] < buckets[i].length);
+  }
+  return buckets.flatMap((bucket, i) => spreadEvenly(bucket, quotas[i]));
+};
+
+const byTimestamp = (a: DiscordMessage, b: DiscordMessage) =>
+  (a.timestamp ?? "").localeCompare(b.timestamp ?? "");
+
+const selectSample = (
+  sorted: DiscordMessage[],
+  count: number,
+  strategy: DiscordSampleStrategy,
+  unanswered: Set<string>,
+) => {
+  if (sorted.length <= count) return sorted;
+  switch (strategy) {
+    case "random":
+      return sorted
+        .map((m) => ({ m, h: hash(m.id + m.content) }))
+        .sort((a, b) => a.h - b.h)
+        .slice(0, count)
+        .map((entry) => entry.m)
+        .sort(byTimestamp);
+    case "stratified":
+      return stratifyByWeek(sorted, count);
+    case "unanswered": {
+      const newestFirst = [...sorted].reverse();
+      const picked = [
+        ...newestFirst.filter((m) => unanswered.has(m.id)),
+        ...newestFirst.filter((m) => !unanswered.has(m.id)),
+      ].slice(0, count);
+      return picked.sort(byTimestamp);
+    }
+    default:
+      return sorted.slice(Math.max(0, sorted.length - count));
+  }
+};
+
 export const sampleDiscordMessages = (
   messages: DiscordMessage[],
   config: DiscordSampleConfig = {},
@@ -178,7 +1201,9 @@ export const sampleDiscordMessages = (
     sampleStrategy = "recent",
   } = config;
 
-  const grouped = messages.reduce<Map<string, DiscordMessage[]>>((acc, msg) => {
+  // Answers are looked up before filtering so an excluded staff reply still counts.
+  const unanswered = sampleStrategy === "unanswered" ? findUnansweredQuestions(messages) : new Set<string>();
+  const grouped = filterSampleMessages(messages, config).reduce<Map<string, DiscordMessage[]>>((acc, msg) => {
     const bucket = acc.get(msg.channel) ?? [];
     bucket.push(msg);
     acc.set(msg.channel, bucket);
@@ -187,37 +1212,163 @@ export const sampleDiscordMessages = (
 
   const sampled: DiscordMessage[] = [];
   grouped.forEach((channelMessages) => {
-    const sorted = [...channelMessages].sort((a, b) => (a.timestamp ?? "").localeCompare(b.timestamp ?? ""));
-    let slice: DiscordMessage[];
-    if (sampleStrategy === "random") {
-      slice = sorted
-        .map((m) => ({ m, h: hash(m.id + m.content) }))
-        .sort((a, b) => a.h - b.h)
-        .slice(0, maxMessagesPerChannel)
-        .map((entry) => entry.m);
-    } else {
-      slice = sorted.slice(Math.max(0, sorted.length - maxMessagesPerChannel));
-    }
-    sampled.push(...slice);
+    const sorted = [...channelMessages].sort(byTimestamp);
+    sampled.push(...selectSample(sorted, maxMessagesPerChannel, sampleStrategy, unanswered));
   });
 
   const withTruncation = sampled.map((msg) => ({
     ...msg,
-    content:
-      msg.content.length > maxCharsPerMessage
-        ? `${msg.content.slice(0, maxCharsPerMessage)}...`
-        : msg.content,
+    content: truncateMarkdown(msg.content, maxCharsPerMessage),
   }));
 
-  const sortedAll = withTruncation.sort((a, b) => (a.timestamp ?? "").localeCompare(b.timestamp ?? ""));
-  if (sortedAll.length <= maxMessagesTotal) return sortedAll;
+  const sortedAll = withTruncation.sort(byTimestamp);
+  return selectSample(sortedAll, maxMessagesTotal, sampleStrategy, unanswered);
+};
 
-  if (sampleStrategy === "random") {
-    return sortedAll
-      .map((m) => ({ m, h: hash(m.id + m.content) }))
-      .sort((a, b) => a.h - b.h)
-      .slice(0, maxMessagesTotal)
-      .map((entry) => entry.m);
-  }
-  return sortedAll.slice(Math.max(0, sortedAll.length - maxMessagesTotal));
+export type DiscordMessageSampler = {
+  add: (message: DiscordMessage) => void;
+  finish: () => DiscordMessage[];
+};
+
+type SamplerEntry = { msg: DiscordMessage; seq: number; rank: number };
+
+type SamplerChannel = {
+  entries: SamplerEntry[];
+  weeks: Map<number, SamplerEntry[]>;
+  questions: Map<string, SamplerEntry>;
+};
+
+const bySeqTimestamp = (a: SamplerEntry, b: SamplerEntry) => byTimestamp(a.msg, b.msg) || a.seq - b.seq;
+const newestFirst = (a: SamplerEntry, b: SamplerEntry) => -bySeqTimestamp(a, b);
+const lowestRank = (a: SamplerEntry, b: SamplerEntry) => a.rank - b.rank || bySeqTimestamp(a, b);
+
+// Sorts and cuts a buffer back to `limit` once it has doubled, so trimming stays amortised.
+const keepFirst = (entries: SamplerEntry[], limit: number, compare: (a: SamplerEntry, b: SamplerEntry) => number) =>
+  entries.length > limit * 2 ? entries.sort(compare).slice(0, limit) : entries;
+
+// Streaming counterpart of `sampleDiscordMessages`: messages are filtered and truncated as they
+// arrive and each channel keeps a bounded buffer, so memory depends on the caps rather than on
+// the export size. "recent" and "random" pick the same messages as the batch sampler. "stratified"
+// thins busy weeks evenly once a channel holds more than four times its cap, and "unanswered"
+// keeps the newest open questions, up to twice the cap, alongside the newest messages.
+export const createDiscordMessageSampler = (config: DiscordSampleConfig = {}): DiscordMessageSampler => {
+  const {
+    maxMessagesTotal = 400,
+    maxMessagesPerChannel = 120,
+    maxCharsPerMessage = 800,
+    sampleStrategy = "recent",
+  } = config;
+  const accepts = createSampleFilter(config);
+  const channels = new Map<string, SamplerChannel>();
+  const questionChannel = new Map<string, SamplerChannel>();
+  let seq = 0;
+
+  const channelFor = (name: string) => {
+    const existing = channels.get(name);
+    if (existing) return existing;
+    const created: SamplerChannel = { entries: [], weeks: new Map(), questions: new Map() };
+    channels.set(name, created);
+    return created;
+  };
+
+  // Same rules as findUnansweredQuestions, applied as answers arrive. Answers are seen before
+  // filtering so an excluded staff reply still counts.
+  const markAnswers = (msg: DiscordMessage) => {
+    const parentChannel = msg.replyToId ? questionChannel.get(msg.replyToId) : undefined;
+    const parent = msg.replyToId ? parentChannel?.questions.get(msg.replyToId) : undefined;
+    if (parent && parent.msg.author !== msg.author) {
+      parentChannel?.questions.delete(parent.msg.id);
+      questionChannel.delete(parent.msg.id);
+    }
+    if (!msg.threadId || msg.system) return;
+    channels.forEach((channel) =>
+      channel.questions.forEach((entry, id) => {
+        if (entry.msg.threadId !== msg.threadId || entry.msg.author === msg.author) return;
+        channel.questions.delete(id);
+        questionChannel.delete(id);
+      }),
+    );
+  };
+
+  // Water-fills a per-week cap so the buffer holds twice the channel quota. The weekly quotas
+  // stratifyByWeek hands out for that quota all fit under the cap, so only the spacing inside a
+  // busy week is approximated.
+  const thinWeeks = (channel: SamplerChannel) => {
+    const sizes = [...channel.weeks.values()].map((bucket) => bucket.length).sort((a, b) => a - b);
+    if (sizes.reduce((sum, size) => sum + size, 0) <= maxMessagesPerChannel * 4) return;
+    let budget = maxMessagesPerChannel * 2;
+    let cap = 0;
+    for (let i = 0; i < sizes.length; i++) {
+      const level = Math.floor(budget / (sizes.length - i));
+      if (sizes[i] > level) {
+        cap = Math.max(1, level);
+        break;
+      }
+      budget -= sizes[i];
+    }
+    if (!cap) return;
+    channel.weeks.forEach((bucket, week) => {
+      if (bucket.length > cap) channel.weeks.set(week, spreadEvenly(bucket.sort(bySeqTimestamp), cap));
+    });
+  };
+
+  const add = (message: DiscordMessage) => {
+    seq += 1;
+    if (sampleStrategy === "unanswered") markAnswers(message);
+    if (!accepts(message)) return;
+    const entry: SamplerEntry = {
+      msg: { ...message, content: truncateMarkdown(message.content, maxCharsPerMessage) },
+      seq,
+      rank: sampleStrategy === "random" ? hash(message.id + message.content) : 0,
+    };
+    const channel = channelFor(message.channel);
+    switch (sampleStrategy) {
+      case "random":
+        channel.entries.push(entry);
+        channel.entries = keepFirst(channel.entries, maxMessagesPerChannel, lowestRank);
+        return;
+      case "stratified": {
+        const week = weekIndex(message);
+        channel.weeks.set(week, [...(channel.weeks.get(week) ?? []), entry]);
+        thinWeeks(channel);
+        return;
+      }
+      case "unanswered":
+        if (!message.system && QUESTION_REGEX.test(message.content.trim())) {
+          channel.questions.set(message.id, entry);
+          questionChannel.set(message.id, channel);
+          if (channel.questions.size > maxMessagesPerChannel * 2) {
+            const oldest = [...channel.questions.values()].sort(bySeqTimestamp)[0];
+            channel.questions.delete(oldest.msg.id);
+            questionChannel.delete(oldest.msg.id);
+          }
+        }
+        channel.entries.push(entry);
+        channel.entries = keepFirst(channel.entries, maxMessagesPerChannel, newestFirst);
+        return;
+      default:
+        channel.entries.push(entry);
+        channel.entries = keepFirst(channel.entries, maxMessagesPerChannel, newestFirst);
+    }
+  };
+
+  const finish = () => {
+    const unanswered = new Set(questionChannel.keys());
+    const sampled: DiscordMessage[] = [];
+    channels.forEach((channel) => {
+      const pool = new Map<string, SamplerEntry>();
+      const kept =
+        sampleStrategy === "random"
+          ? [...channel.entries].sort(lowestRank).slice(0, maxMessagesPerChannel)
+          : [...channel.entries].sort(newestFirst).slice(0, maxMessagesPerChannel);
+      [...kept, ...channel.questions.values(), ...[...channel.weeks.values()].flat()].forEach((entry) =>
+        pool.set(entry.msg.id, entry),
+      );
+      const sorted = [...pool.values()].sort(bySeqTimestamp).map((entry) => entry.msg);
+      sampled.push(...selectSample(sorted, maxMessagesPerChannel, sampleStrategy, unanswered));
+    });
+    return selectSample(sampled.sort(byTimestamp), maxMessagesTotal, sampleStrategy, unanswered);
+  };
+
+  return { add, finish };
 };
@@ -0,0 +1,73 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { inferTicketEdges } from "./edges";
+import { Ticket } from "./types";
+
+const ticket = (id: string, author: string, day: number, snippet: string, extra: Partial<Ticket> = {}): Ticket => ({
+  id,
+  title: `Ticket ${id}`,
+  summary: snippet,
+  severity: "medium",
+  docCoverage: "unknown",
+  channel: "help",
+  evidence: [
+    {
+      messageId: `${id}0`,
+      channel: "help",
+      author,
+      snippet,
+      timestamp: new Date(Date.UTC(2026, 0, 1 + day, 10)).toISOString(),
+      url: `https://discord.com/channels/1/2/${id}0`,
+    },
+  ],
+  ...extra,
+});
+
+const fts = { entities: { symbols: ["Table.create_fts_index"] } };
+const hybridDocs = (url: string) => ({ affectedItems: [url] });
+
+const tickets = [
+  ticket("a", "ann", 0, "create_index crashes with a segfault when the table is empty and IVF_PQ is used"),
+  ticket("b", "bob", 5, "create_index crashes with a segfault when my table is empty and IVF_PQ is used"),
+  ticket("c", "cy", 10, "full text search returns nothing after an upgrade", fts),
+  ticket("d", "dee", 11, "tokenizer options seem ignored for stemming", fts),
+  ticket("e", "eve", 20, "how do I rotate my cloud api key"),
+  ticket("f", "eve", 21, "what happens to old snapshots after compaction"),
+  ticket("g", "gus", 30, "create_index still crashes on an empty table, see https://discord.com/channels/1/2/a0"),
+  ticket("h", "hal", 40, "the hybrid reranker page has no example", {
+    kind: "doc_gap",
+    ...hybridDocs("https://lancedb.github.io/docs/hybrid/"),
+  }),
+  ticket("i", "ivy", 41, "which reranker defaults apply", hybridDocs("https://lancedb.github.io/docs/hybrid")),
+];
+
+const relations = (edges: ReturnType<typeof inferTicketEdges>) =>
+  edges.map((edge) => [edge.from, edge.to, edge.relation]).sort((x, y) => x.join().localeCompare(y.join()));
+
+describe("inferTicketEdges", () => {
+  it("points newer tickets at the older ones they duplicate, share symbols or doc pages with, or link back to", () => {
+    const edges = inferTicketEdges(tickets);
+    assert.deepEqual(relations(edges), [
+      ["b", "a", "duplicate"],
+      ["d", "c", "same_symbol"],
+      ["g", "a", "follow_up"],
+      ["i", "h", "same_doc_gap"],
+    ]);
+    assert.ok(edges.every((edge) => edge.inferred && edge.rationale));
+    assert.equal(edges.find((edge) => edge.from === "g")?.confidence, 0.95);
+  });
+
+  it("applies per-relation thresholds", () => {
+    // Eve's second question comes a day after her first but shares nothing else with it.
+    const lenient = relations(inferTicketEdges(tickets, { thresholds: { follow_up: 0.4 } }));
+    assert.ok(lenient.some(([from, to, relation]) => from === "f" && to === "e" && relation === "follow_up"));
+    const strict = relations(inferTicketEdges(tickets, { thresholds: { duplicate: 1.01, same_doc_gap: 0.8 } }));
+    assert.ok(!strict.some(([, , relation]) => relation === "duplicate" || relation === "same_doc_gap"));
+  });
+
+  it("caps the edges kept per ticket", () => {
+    const copies = [0, 1, 2, 3].map((day) => ticket(`x${day}`, `u${day}`, day, tickets[0].evidence[0].snippet));
+    const edges = inferTicketEdges(copies, { maxEdgesPerTicket: 1 });
+    assert.deepEqual(edges.map((edge) => edge.from).sort(), ["x1", "x2", "x3"]);
+  });
+});
@@ -0,0 +1,201 @@
+import { ticketShingles } from "./cluster";
+import { entityKeys } from "./entities";
+import { Edge, EdgeRelation, Ticket } from "./types";
+
+export type EdgeInferenceConfig = {
+  thresholds?: Partial<Record<EdgeRelation, number>>;
+  maxEdgesPerTicket?: number;
+  followUpDays?: number;
+};
+
+type EdgeProposal = {
+  relation: EdgeRelation;
+  confidence: number;
+  rationale: string;
+};
+
+export const DEFAULT_EDGE_THRESHOLDS: Record<EdgeRelation, number> = {
+  duplicate: 0.45,
+  same_symbol: 0.5,
+  same_doc_gap: 0.6,
+  follow_up: 0.6,
+};
+
+const entityWeights: Record<string, number> = { symbol: 0.85, error: 0.6, version: 0.3 };
+
+type TicketFeatures = {
+  ticket: Ticket;
+  start: number;
+  end: number;
+  asker?: string;
+  shingles: Set<string>;
+  entities: string[];
+  docPages: string[];
+  docGap: boolean;
+};
+
+const evidenceTime = (timestamp?: string) => {
+  const t = timestamp ? new Date(timestamp).getTime() : Number.NaN;
+  return Number.isNaN(t) ? 0 : t;
+};
+
+const docPagesOf = (ticket: Ticket) => {
+  const pages = new Set<string>();
+  (ticket.affectedItems ?? []).forEach((item) => {
+    const url = item.match(/https?:\/\/[^\s)]+/)?.[0];
+    if (url && /docs|documentation/i.test(url)) pages.add(url.replace(/[?#].*$/, "").replace(/\/+$/, "").toLowerCase());
+  });
+  return [...pages];
+};
+
+const featuresOf = (ticket: Ticket): TicketFeatures => {
+  const times = ticket.evidence.map((ev) => evidenceTime(ev.timestamp)).filter(Boolean);
+  return {
+    ticket,
+    start: times.length ? Math.min(...times) : 0,
+    end: times.length ? Math.max(...times) : 0,
+    asker: ticket.evidence[0]?.author?.trim().toLowerCase() || undefined,
+    shingles: ticketShingles(ticket),
+    entities: entityKeys(ticket.entities),
+    docPages: docPagesOf(ticket),
+    docGap: ticket.kind === "doc_gap" || ticket.docCoverage === "missing" || ticket.docCoverage === "partial",
+  };
+};
+
+const jaccard = (a: Set<string>, b: Set<string>) => {
+  if (!a.size || !b.size) return 0;
+  let shared = 0;
+  a.forEach((item) => {
+    if (b.has(item)) shared += 1;
+  });
+  return shared / (a.size + b.size - shared);
+};
+
+const quote = (ticket: Ticket) => `"${ticket.title.length > 60 ? `${ticket.title.slice(0, 60)}...` : ticket.title}"`;
+
+// `later` is the newer ticket; every proposal points from it to the older one it builds on.
+const proposeEdges = (
+  later: TicketFeatures,
+  earlier: TicketFeatures,
+  entityFrequency: Map<string, number>,
+  followUpDays: number,
+): EdgeProposal[] => {
+  const proposals: EdgeProposal[] = [];
+  const similarity = jaccard(later.shingles, earlier.shingles);
+  if (similarity > 0) {
+    proposals.push({
+      relation: "duplicate",
+      confidence: similarity,
+      rationale: `Likely duplicate of ${quote(earlier.ticket)} (${Math.round(similarity * 100)}% similar).`,
+    });
+  }
+
+  // Rare symbols and errors say more than ones half the server runs into.
+  const sharedEntities = later.entities.filter((key) => earlier.entities.includes(key));
+  if (sharedEntities.length) {
+    const miss = sharedEntities.reduce((acc, key) => {
+      const base = entityWeights[key.slice(0, key.indexOf(":"))] ?? 0.25;
+      const rarity = 1 / (1 + Math.log(entityFrequency.get(key) ?? 1));
+      return acc * (1 - base * rarity);
+    }, 1);
+    const names = sharedEntities.map((key) => key.slice(key.indexOf(":") + 1));
+    const more = names.length > 3 ? ` and ${names.length - 3} more` : "";
+    proposals.push({
+      relation: "same_symbol",
+      confidence: 1 - miss,
+      rationale: `Both mention ${names.slice(0, 3).join(", ")}${more}.`,
+    });
+  }
+
+  const sharedPage = later.docPages.find((page) => earlier.docPages.includes(page));
+  if (sharedPage) {
+    proposals.push({
+      relation: "same_doc_gap",
+      confidence: 0.5 + (later.docGap ? 0.25 : 0) + (earlier.docGap ? 0.25 : 0),
+      rationale: `Blocked by the same doc page: ${sharedPage}.`,
+    });
+  }
+
+  const linksBack = later.ticket.evidence.some((ev) =>
+    earlier.ticket.evidence.some(
+      (prev) => (prev.url && ev.snippet.includes(prev.url)) || ev.snippet.includes(prev.messageId),
+    ),
+  );
+  const gapDays = (later.start - earlier.end) / (24 * 60 * 60 * 1000);
+  const sameAsker = Boolean(later.asker) && later.asker === earlier.asker;
+  if (linksBack || (sameAsker && gapDays >= 0 && gapDays <= followUpDays)) {
+    proposals.push({
+      relation: "follow_up",
+      confidence: linksBack ? 0.95 : 0.45 + 0.5 * Math.min(1, similarity * 3),
+      rationale: linksBack
+        ? `Follow-up that links back to ${quote(earlier.ticket)}.`
+        : `Follow-up from ${later.ticket.evidence[0]?.author} after ${quote(earlier.ticket)}.`,
+    });
+  }
+  return proposals;
+};
+
+// Candidate pairs share at least one blocking key (a shingle, entity, doc page or asker), skipping
+// keys so common they would pair up most of the store.
+const candidatePairs = (features: TicketFeatures[]) => {
+  const index = new Map<string, number[]>();
+  features.forEach((feature, i) => {
+    const keys = new Set([
+      ...feature.shingles,
+      ...feature.entities,
+      ...feature.docPages.map((page) => `doc:${page}`),
+      ...(feature.asker ? [`asker:${feature.asker}`] : []),
+    ]);
+    keys.forEach((key) => {
+      const bucket = index.get(key) ?? [];
+      bucket.push(i);
+      index.set(key, bucket);
+    });
+  });
+  const maxBucket = Math.max(20, Math.ceil(features.length * 0.02));
+  const pairs = new Set<string>();
+  index.forEach((members) => {
+    if (members.length < 2 || members.length > maxBucket) return;
+    for (let x = 0; x < members.length; x++) {
+      for (let y = x + 1; y < members.length; y++) pairs.add(`${members[x]}:${members[y]}`);
+    }
+  });
+  return [...pairs].map((pair) => pair.split(":").map(Number) as [number, number]);
+};
+
+// Proposes relationship edges between tickets. Each pair keeps its most confident relation that
+// clears that relation's threshold, and each ticket keeps its strongest few outgoing edges.
+export const inferTicketEdges = (tickets: Ticket[], config: EdgeInferenceConfig = {}): Edge[] => {
+  const thresholds = { ...DEFAULT_EDGE_THRESHOLDS, ...config.thresholds };
+  const { maxEdgesPerTicket = 5, followUpDays = 3 } = config;
+  const features = tickets.map(featuresOf);
+  const entityFrequency = new Map<string, number>();
+  features.forEach((feature) =>
+    new Set(feature.entities).forEach((key) => entityFrequency.set(key, (entityFrequency.get(key) ?? 0) + 1)),
+  );
+
+  const outgoing = new Map<string, Edge[]>();
+  candidatePairs(features).forEach(([i, j]) => {
+    const [a, b] = [features[i], features[j]];
+    const aIsLater = a.start !== b.start ? a.start > b.start : a.ticket.id > b.ticket.id;
+    const [later, earlier] = aIsLater ? [a, b] : [b, a];
+    const best = proposeEdges(later, earlier, entityFrequency, followUpDays)
+      .filter((proposal) => proposal.confidence >= thresholds[proposal.relation])
+      .sort((x, y) => y.confidence - x.confidence)[0];
+    if (!best) return;
+    const edges = outgoing.get(later.ticket.id) ?? [];
+    edges.push({
+      from: later.ticket.id,
+      to: earlier.ticket.id,
+      rationale: best.rationale,
+      relation: best.relation,
+      confidence: Number(best.confidence.toFixed(3)),
+      inferred: true,
+    });
+    outgoing.set(later.ticket.id, edges);
+  });
+
+  return [...outgoing.values()].flatMap((edges) =>
+    edges.sort((a, b) => (b.confidence ?? 0) - (a.confidence ?? 0)).slice(0, maxEdgesPerTicket),
+  );
+};
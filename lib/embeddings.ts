@@ -0,0 +1,130 @@
+import { LLMFailure, postProviderJSON } from "./llm";
+import { tokenizeWords } from "./segment";
+
+export type EmbeddingProviderName = "hashing" | "openai" | "openai-compatible";
+
+export const EMBEDDING_PROVIDERS: EmbeddingProviderName[] = ["hashing", "openai", "openai-compatible"];
+
+export type EmbeddingResult = { ok: true; vectors: number[][] } | { ok: false; failure: LLMFailure };
+
+export type Embedder = {
+  name: EmbeddingProviderName;
+  model: string;
+  embed: (texts: string[], signal?: AbortSignal) => Promise<EmbeddingResult>;
+};
+
+export type EmbeddingConfig = {
+  provider: EmbeddingProviderName;
+  model: string;
+  apiKey?: string;
+  baseUrl?: string;
+};
+
+export const DEFAULT_EMBEDDING_MODELS: Partial<Record<EmbeddingProviderName, string>> = {
+  hashing: "hashing-256",
+  openai: "text-embedding-3-small",
+};
+
+const hash = (value: string, seed: number) => {
+  let h = seed;
+  for (let i = 0; i < value.length; i++) {
+    h ^= value.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+export const normalizeVector = (vector: number[]) => {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm ? vector.map((value) => value / norm) : vector;
+};
+
+// Signed feature hashing of words and word pairs with sublinear term frequency. It needs no
+// model server; the index applies IDF per dimension on top, which makes it a hashed TF-IDF.
+const hashingVector = (text: string, dimensions: number) => {
+  const words = tokenizeWords(text);
+  const terms = [...words, ...words.slice(1).map((word, i) => `${words[i]} ${word}`)];
+  const counts = new Map<string, number>();
+  terms.forEach((term) => counts.set(term, (counts.get(term) ?? 0) + 1));
+  const vector = new Array<number>(dimensions).fill(0);
+  counts.forEach((count, term) => {
+    const sign = hash(term, 0x9747b28c) & 1 ? 1 : -1;
+    vector[hash(term, 0x811c9dc5) % dimensions] += sign * (1 + Math.log(count));
+  });
+  return normalizeVector(vector);
+};
+
+const createHashingEmbedder = (model: string): Embedder => {
+  const dimensions = Number(model.match(/(\d+)$/)?.[1]) || 256;
+  return {
+    name: "hashing",
+    model: `hashing-${dimensions}`,
+    embed: async (texts) => ({ ok: true, vectors: texts.map((text) => hashingVector(text, dimensions)) }),
+  };
+};
+
+const OPENAI_BASE_URL = "https://api.openai.com/v1";
+const EMBEDDING_BATCH_SIZE = 64;
+
+type EmbeddingsPayload = { data?: Array<{ index?: number; embedding?: number[] }> };
+
+const createOpenAIEmbedder = (config: EmbeddingConfig): Embedder => {
+  const baseUrl = (config.baseUrl ?? OPENAI_BASE_URL).replace(/\/+$/, "");
+  return {
+    name: config.provider,
+    model: config.model,
+    embed: async (texts, signal) => {
+      const vectors: number[][] = [];
+      for (let start = 0; start < texts.length; start += EMBEDDING_BATCH_SIZE) {
+        const batch = texts.slice(start, start + EMBEDDING_BATCH_SIZE);
+        const response = await postProviderJSON(
+          `${baseUrl}/embeddings`,
+          config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {},
+          { model: config.model, input: batch },
+          { signal },
+        );
+        if (!response.ok) return response;
+        const data = [...((response.payload as EmbeddingsPayload)?.data ?? [])].sort(
+          (a, b) => (a.index ?? 0) - (b.index ?? 0),
+        );
+        if (data.length !== batch.length || data.some((item) => !Array.isArray(item.embedding))) {
+          const message = `Expected ${batch.length} embeddings, got ${data.length}.`;
+          return { ok: false, failure: { reason: "empty", message } };
+        }
+        data.forEach((item) => vectors.push(normalizeVector(item.embedding as number[])));
+      }
+      return { ok: true, vectors };
+    },
+  };
+};
+
+export const createEmbedder = (config: EmbeddingConfig): Embedder =>
+  config.provider === "hashing" ? createHashingEmbedder(config.model) : createOpenAIEmbedder(config);
+
+// Same rules as the LLM config: keys and hosts come from the environment or workspace settings.
+export const resolveEmbeddingConfig = (
+  options: { provider?: string; model?: string; baseUrl?: string },
+  env: NodeJS.ProcessEnv = process.env,
+): EmbeddingConfig | { error: string } => {
+  const provider = (options.provider || env.EMBEDDING_PROVIDER || "hashing") as EmbeddingProviderName;
+  if (!EMBEDDING_PROVIDERS.includes(provider)) {
+    return {
+      error: `Unknown embedding provider: ${provider}. Expected one of ${EMBEDDING_PROVIDERS.join(", ")}.`,
+    };
+  }
+  const model = options.model || env.EMBEDDING_MODEL || DEFAULT_EMBEDDING_MODELS[provider];
+  if (!model) return { error: `A model is required for the ${provider} embedding provider.` };
+
+  switch (provider) {
+    case "hashing":
+      return { provider, model };
+    case "openai":
+      if (!env.OPENAI_API_KEY) return { error: "OPENAI_API_KEY is required for openai embeddings." };
+      return { provider, model, apiKey: env.OPENAI_API_KEY };
+    case "openai-compatible": {
+      const baseUrl = options.baseUrl ?? env.EMBEDDING_BASE_URL ?? env.LLM_BASE_URL;
+      if (!baseUrl) return { error: "EMBEDDING_BASE_URL is required for openai-compatible embeddings." };
+      return { provider, model, baseUrl, ...(env.LLM_API_KEY ? { apiKey: env.LLM_API_KEY } : {}) };
+    }
+  }
+};
@@ -0,0 +1,56 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { entityKeys, extractTicketEntities, mergeTicketEntities } from "./entities";
+import { extractCodeBlocks } from "./markdown";
+import { DiscordMessage } from "./types";
+
+// Code blocks stay in the content as fenced markdown, as the export parsers leave them.
+const message = (content: string): DiscordMessage => ({
+  id: "1",
+  channel: "help",
+  author: "ann",
+  content,
+  links: [],
+  file: "help.json",
+  codeBlocks: extractCodeBlocks(content),
+});
+
+describe("extractTicketEntities", () => {
+  it("collects languages, deployments, versions, errors and symbols", () => {
+    const entities = extractTicketEntities([
+      message(
+        "On LanceDB Cloud with lancedb==0.8.1 and pyarrow 15.0.2, `tbl.create_fts_index()` fails\n" +
+          "```py\ndb.open_table(name)\nlance.LanceError: not found\n```",
+      ),
+      message("Self-hosted here, `npm i @lancedb/lancedb@0.9.0` gives the same ValueError: bad schema"),
+    ]);
+    assert.deepEqual(entities, {
+      languages: ["javascript", "python"],
+      deployments: ["cloud", "oss"],
+      versions: ["lancedb@0.8.1", "lancedb@0.9.0", "pyarrow@15.0.2"],
+      errors: ["ValueError", "lance.LanceError"],
+      // lance.LanceError is an error, so it is not repeated as a symbol.
+      symbols: ["db.open_table", "tbl.create_fts_index"],
+    });
+  });
+
+  it("only takes prose symbols that are called and skips file names and hosts", () => {
+    const entities = extractTicketEntities([
+      message("See docs.lancedb.com and main.py, e.g. this works. Then Table.search(query) returns nothing."),
+    ]);
+    assert.deepEqual(entities, { symbols: ["Table.search"] });
+    assert.equal(extractTicketEntities([message("Thanks, that helped!")]), undefined);
+  });
+});
+
+describe("mergeTicketEntities and entityKeys", () => {
+  it("unions values per type and keys only the comparable ones", () => {
+    const merged = mergeTicketEntities(
+      { languages: ["python"], symbols: ["Table.search"] },
+      { languages: ["python", "rust"], versions: ["lancedb@0.8.1"] },
+    );
+    assert.deepEqual(merged, { languages: ["python", "rust"], versions: ["lancedb@0.8.1"], symbols: ["Table.search"] });
+    assert.deepEqual(entityKeys(merged), ["symbol:table.search", "version:lancedb@0.8.1"]);
+    assert.equal(mergeTicketEntities(undefined, merged), merged);
+  });
+});
@@ -0,0 +1,145 @@
+import { extractErrorSignatures } from "./fingerprints";
+import { DiscordMessage, TicketEntities } from "./types";
+
+export type EntityType = keyof TicketEntities;
+
+export const ENTITY_TYPES: EntityType[] = ["languages", "deployments", "versions", "errors", "symbols"];
+
+const languageHints: Array<{ language: string; regex: RegExp }> = [
+  { language: "python", regex: /\b(?:python|pip install|pylance|pyarrow|import lancedb|py sdk)\b/i },
+  {
+    language: "javascript",
+    regex: /\b(?:javascript|typescript|node(?:js)?|npm|yarn|pnpm|vectordb)\b|@lancedb\/lancedb\b/i,
+  },
+  { language: "rust", regex: /\b(?:rust|cargo|crates?\.io)\b|\.rs:\d+/i },
+  { language: "java", regex: /\bjava\b(?!script)|\bmaven\b|\bgradle\b/i },
+];
+
+const codeBlockLanguages: Record<string, string> = {
+  py: "python",
+  python: "python",
+  js: "javascript",
+  javascript: "javascript",
+  ts: "javascript",
+  typescript: "javascript",
+  rs: "rust",
+  rust: "rust",
+  java: "java",
+};
+
+const deploymentHints: Array<{ deployment: string; regex: RegExp }> = [
+  { deployment: "cloud", regex: /\b(?:lancedb cloud|cloud (?:db|database|table|instance)|db:\/\/[\w-]+)|\bsaas\b/i },
+  { deployment: "enterprise", regex: /\benterprise\b/i },
+  {
+    deployment: "oss",
+    regex: /\b(?:open[- ]source|oss|self[- ]hosted|on[- ]prem(?:ise)?|local (?:db|database|disk|directory))\b/i,
+  },
+];
+
+// Packages whose version is often written as "lancedb 0.8.0" rather than "lancedb==0.8.0".
+const knownPackages = ["lancedb", "lance", "pylance", "vectordb", "pyarrow", "python", "node", "pandas", "polars"];
+
+const pinnedVersionRegex = /([@\w][\w./-]*?)\s*(?:==|@)\s*v?(\d+\.\d+(?:\.\d+)*(?:[-.]?(?:rc|a|b|beta|alpha)\d*)?)/gi;
+const spacedVersionRegex = new RegExp(
+  `\\b(${knownPackages.join("|")})\\s+(?:version\\s+)?v?(\\d+\\.\\d+(?:\\.\\d+)*)`,
+  "gi",
+);
+
+// Dotted names like Table.create_fts_index; file names and hosts are excluded by their suffix.
+const symbolRegex = /\b([A-Za-z_]\w*(?:\.[A-Za-z_]\w*)+)(\s*\()?/g;
+const nonSymbolSuffixes = new Set([
+  "py", "js", "ts", "rs", "md", "json", "html", "txt", "toml", "yaml", "yml", "lock", "csv", "parquet", "lance",
+  "com", "org", "io", "ai", "dev", "net", "sh", "so", "dll", "exe", "zip", "gz", "png", "jpg", "pxi",
+]);
+
+const packageName = (raw: string) => {
+  const parts = raw.toLowerCase().split("/").filter(Boolean);
+  return parts[parts.length - 1]?.replace(/^@/, "") ?? "";
+};
+
+const codeText = (msg: DiscordMessage) =>
+  [
+    ...(msg.codeBlocks ?? []).map((block) => block.code),
+    ...[...msg.content.matchAll(/`([^`\n]+)`/g)].map((m) => m[1]),
+  ].join("\n");
+
+const addSymbols = (found: Set<string>, text: string, requireCall: boolean) => {
+  for (const match of text.matchAll(symbolRegex)) {
+    const symbol = match[1];
+    const suffix = symbol.slice(symbol.lastIndexOf(".") + 1).toLowerCase();
+    if (nonSymbolSuffixes.has(suffix) || symbol.length > 60) continue;
+    if (requireCall && !match[2]) continue;
+    found.add(symbol);
+  }
+};
+
+// Pulls structured entities out of a conversation. Symbols come from code (or prose followed by a
+// call), so sentences like "e.g. this" do not turn into API names.
+export const extractTicketEntities = (messages: DiscordMessage[]): TicketEntities | undefined => {
+  const languages = new Set<string>();
+  const deployments = new Set<string>();
+  const versions = new Set<string>();
+  const errors = new Set<string>();
+  const symbols = new Set<string>();
+
+  messages.forEach((msg) => {
+    const text = msg.content;
+    languageHints.forEach(({ language, regex }) => {
+      if (regex.test(text)) languages.add(language);
+    });
+    (msg.codeBlocks ?? []).forEach((block) => {
+      const language = block.language ? codeBlockLanguages[block.language.toLowerCase()] : undefined;
+      if (language) languages.add(language);
+    });
+    deploymentHints.forEach(({ deployment, regex }) => {
+      if (regex.test(text)) deployments.add(deployment);
+    });
+    for (const match of text.matchAll(pinnedVersionRegex)) {
+      const name = packageName(match[1]);
+      if (name) versions.add(`${name}@${match[2]}`);
+    }
+    for (const match of text.matchAll(spacedVersionRegex)) versions.add(`${match[1].toLowerCase()}@${match[2]}`);
+    extractErrorSignatures(text)
+      .filter((signature) => signature.startsWith("error:"))
+      .forEach((signature) => errors.add(signature.slice("error:".length)));
+    addSymbols(symbols, codeText(msg), false);
+    addSymbols(symbols, text.replace(/```[\s\S]*?```|`[^`\n]+`/g, " "), true);
+  });
+
+  // Qualified exception names (lance.LanceError) are reported as errors, not symbols.
+  errors.forEach((error) => symbols.delete(error));
+  const entities: TicketEntities = {
+    ...(languages.size ? { languages: [...languages].sort() } : {}),
+    ...(deployments.size ? { deployments: [...deployments].sort() } : {}),
+    ...(versions.size ? { versions: [...versions].sort() } : {}),
+    ...(errors.size ? { errors: [...errors].sort() } : {}),
+    ...(symbols.size ? { symbols: [...symbols].sort() } : {}),
+  };
+  return Object.keys(entities).length ? entities : undefined;
+};
+
+export const mergeTicketEntities = (
+  a: TicketEntities | undefined,
+  b: TicketEntities | undefined,
+): TicketEntities | undefined => {
+  if (!a || !b) return a ?? b;
+  const merged: TicketEntities = {};
+  ENTITY_TYPES.forEach((type) => {
+    const values = new Set([...(a[type] ?? []), ...(b[type] ?? [])]);
+    if (values.size) merged[type] = [...values].sort();
+  });
+  return merged;
+};
+
+// Flat "type:value" keys for comparing tickets. Languages and deployments are left out: two
+// tickets being about Python says little about them being related.
+export const entityKeys = (entities?: TicketEntities) => [
+  ...(entities?.symbols ?? []).map((symbol) => `symbol:${symbol.toLowerCase()}`),
+  ...(entities?.errors ?? []).map((error) => `error:${error}`),
+  ...(entities?.versions ?? []).map((version) => `version:${version}`),
+];
+
+export const sharedEntityKeys = (a?: TicketEntities, b?: TicketEntities) => {
+  const keys = new Set(entityKeys(a));
+  return entityKeys(b).filter((key) => keys.has(key));
+};
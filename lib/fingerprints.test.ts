@@ -0,0 +1,27 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { extractErrorSignatures } from "./fingerprints";
+
+describe("extractErrorSignatures", () => {
+  it("tags a Python traceback with its exception and innermost frame", () => {
+    const traceback = [
+      "Traceback (most recent call last):",
+      '  File "/app/main.py", line 3, in <module>',
+      '  File "/site-packages/lancedb/table.py", line 120, in create_index',
+      "ValueError: table is empty",
+    ].join("\n");
+    assert.deepEqual(extractErrorSignatures(traceback), [
+      "trace:python",
+      "error:ValueError",
+      "frame:lancedb/table.py:create_index",
+    ]);
+  });
+
+  it("recognises Rust panics and stays quiet on plain prose", () => {
+    assert.deepEqual(extractErrorSignatures("thread 'main' panicked at src/index/ivf.rs:88:5"), [
+      "trace:rust",
+      "frame:index/ivf.rs:88",
+    ]);
+    assert.deepEqual(extractErrorSignatures("The error went away after upgrading."), []);
+  });
+});
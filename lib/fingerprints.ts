@@ -0,0 +1,58 @@
+import { DiscordMessage } from "./types";
+
+const errorSignaturePatterns: Array<{ tag: string; regex: RegExp }> = [
+  { tag: "trace:python", regex: /Traceback \(most recent call last\):/ },
+  { tag: "trace:rust", regex: /thread '[^']*' panicked at|called `(?:Result|Option)::unwrap\(\)`/ },
+  { tag: "trace:js", regex: /^\s+at (?:[\w$.<>]+ )?\(?(?:file:\/\/|node:|\/|[A-Za-z]:\\)?[^\s()]+\.(?:m?js|ts|cjs):\d+:\d+\)?$/m },
+];
+
+const exceptionTypeRegex = /\b((?:[a-z_][\w]*\.)*[A-Z][A-Za-z0-9_]*(?:Error|Exception|Warning|Interrupt))(?=:|\(|\s*$)/gm;
+
+const innermostFrame = (text: string) => {
+  const pythonFrames = [...text.matchAll(/File "([^"]+)", line (\d+), in ([\w<>.]+)/g)];
+  const lastPython = pythonFrames[pythonFrames.length - 1];
+  if (lastPython) return `${lastPython[1].split(/[\\/]/).slice(-2).join("/")}:${lastPython[3]}`;
+  const rustPanic = text.match(/panicked at (?:'[^']*', )?([\w./\\-]+\.rs):(\d+)/);
+  if (rustPanic) return `${rustPanic[1].split(/[\\/]/).slice(-2).join("/")}:${rustPanic[2]}`;
+  const jsFrame = text.match(/^\s+at ([\w$.<>]+) \(/m);
+  if (jsFrame) return jsFrame[1];
+  return undefined;
+};
+
+// Detects exception types and stack frames (Python tracebacks, Rust panics, JS errors).
+export const extractErrorSignatures = (text: string) => {
+  const found = new Set<string>();
+  errorSignaturePatterns.forEach(({ tag, regex }) => {
+    if (regex.test(text)) found.add(tag);
+  });
+  for (const match of text.matchAll(exceptionTypeRegex)) {
+    found.add(`error:${match[1]}`);
+  }
+  const frame = found.size ? innermostFrame(text) : undefined;
+  if (frame) found.add(`frame:${frame}`);
+  return [...found];
+};
+
+const identifierRegex = /[A-Za-z_][\w.]*[A-Za-z0-9_]/g;
+const commonCodeWords = new Set([
+  "import", "from", "return", "const", "let", "var", "function", "def", "class", "self", "this",
+  "true", "false", "none", "null", "undefined", "print", "async", "await", "for", "while", "else",
+]);
+
+// Identifiers from code blocks and inline code, used to tie together messages about the same code.
+export const extractCodeFingerprints = (msg: DiscordMessage) => {
+  const code = [
+    ...(msg.codeBlocks ?? []).map((block) => block.code),
+    ...[...msg.content.matchAll(/`([^`\n]+)`/g)].map((m) => m[1]),
+  ].join("\n");
+  const found = new Set<string>();
+  for (const match of code.matchAll(identifierRegex)) {
+    const token = match[0].toLowerCase();
+    if (token.length >= 4 && !commonCodeWords.has(token)) found.add(token);
+  }
+  // Trace kinds alone are too generic to link two messages.
+  extractErrorSignatures(msg.content)
+    .filter((signature) => !signature.startsWith("trace:"))
+    .forEach((signature) => found.add(signature));
+  return found;
+};
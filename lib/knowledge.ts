@@ -1,5 +1,6 @@
 import { Edge, Graph, Ticket } from "./types";
-import { buildTicketPrompt, ticketWeight } from "./tickets";
+import { buildTicketPrompt } from "./tickets";
+import { TicketWeightConfig, resolveWeightModel, ticketWeightBreakdown } from "./weights";
 
 export type KnowledgeResponse = {
   graph: Graph;
@@ -11,17 +12,25 @@ export type KnowledgeResponse = {
   updatedAt?: string;
 };
 
-export const buildGraphFromTickets = (tickets: Ticket[], edges: Edge[] = []): Graph => {
+export const buildGraphFromTickets = (
+  tickets: Ticket[],
+  edges: Edge[] = [],
+  weighting?: TicketWeightConfig,
+): Graph => {
+  const model = resolveWeightModel(weighting);
+  const now = Date.now();
   const chunks = tickets.reduce<Graph["chunks"]>((acc, ticket) => {
     const evidenceStart = ticket.evidence[0]?.timestamp;
     const evidenceEnd = ticket.evidence[ticket.evidence.length - 1]?.timestamp;
+    const breakdown = ticketWeightBreakdown(ticket, model, now);
     acc[ticket.id] = {
       id: ticket.id,
       title: ticket.title,
       summary: ticket.summary,
       sourceType: "discord:ticket",
       sourceRef: ticket.evidence[0]?.url,
-      weight: ticketWeight(ticket),
+      weight: breakdown.total,
+      weightBreakdown: breakdown.components,
       component: ticket.channel,
       tags: ticket.tags,
       createdAt: evidenceStart,
@@ -38,8 +47,9 @@ export const buildKnowledgeResponse = (
   tickets: Ticket[],
   edges: Edge[] = [],
   updatedAt?: string,
+  weighting?: TicketWeightConfig,
 ): KnowledgeResponse => {
-  const graph = buildGraphFromTickets(tickets, edges);
+  const graph = buildGraphFromTickets(tickets, edges, weighting);
   const prompt = buildTicketPrompt(tickets);
   const channels = Array.from(new Set(tickets.map((t) => t.channel).filter(Boolean))) as string[];
   const messageIds = new Set<string>();
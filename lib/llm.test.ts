@@ -0,0 +1,215 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it } from "node:test";
+import {
+  completeWithRetries,
+  createLLMProvider,
+  JsonSchema,
+  LLMResult,
+  mapWithConcurrency,
+  mockPromptKey,
+  postProviderJSON,
+} from "./llm";
+
+const schema: JsonSchema = {
+  type: "object",
+  properties: {
+    title: { type: "string" },
+    severity: { type: "string", enum: ["low", "medium", "high"] },
+    tags: { type: "array", items: { type: "string" } },
+    confident: { type: "boolean" },
+  },
+};
+
+const request = { system: "Summarize.", prompt: "The index build crashes.", schemaName: "ticket", schema };
+
+describe("mock provider", () => {
+  it("returns a deterministic placeholder that follows the schema", async () => {
+    const provider = createLLMProvider({ provider: "mock", model: "mock" });
+    const first = await provider.completeJSON(request);
+    const second = await provider.completeJSON(request);
+    assert.ok(first.ok && second.ok);
+    assert.equal(first.content, second.content);
+    const parsed = JSON.parse(first.content);
+    assert.ok(["low", "medium", "high"].includes(parsed.severity));
+    assert.deepEqual(parsed.tags, []);
+    assert.equal(parsed.confident, false);
+    assert.match(parsed.title, /^Mock title /);
+  });
+
+  it("replays the fixture recorded for the prompt, then the default one", async () => {
+    const provider = createLLMProvider({
+      provider: "mock",
+      model: "mock",
+      fixtures: { [mockPromptKey(request)]: '{"title":"recorded"}', default: '{"title":"default"}' },
+    });
+    const recorded = await provider.completeJSON(request);
+    const other = await provider.completeJSON({ ...request, prompt: "Something else." });
+    assert.ok(recorded.ok && other.ok);
+    assert.equal(recorded.content, '{"title":"recorded"}');
+    assert.equal(other.content, '{"title":"default"}');
+  });
+
+  it("reports about four characters per token", async () => {
+    const provider = createLLMProvider({ provider: "mock", model: "mock", fixtures: { default: "x".repeat(40) } });
+    const result = await provider.completeJSON(request);
+    assert.ok(result.ok);
+    assert.deepEqual(result.usage, {
+      inputTokens: Math.ceil((request.system.length + request.prompt.length) / 4),
+      outputTokens: 10,
+    });
+  });
+});
+
+const rateLimited = (retryAfterMs?: number): LLMResult => ({
+  ok: false,
+  failure: {
+    reason: "http",
+    status: 429,
+    message: "HTTP 429",
+    ...(retryAfterMs !== undefined ? { retryAfterMs } : {}),
+  },
+});
+
+const sequence = (results: LLMResult[]) => {
+  let calls = 0;
+  const call = async () => results[Math.min(calls++, results.length - 1)];
+  return { call, calls: () => calls };
+};
+
+describe("completeWithRetries", () => {
+  it("retries retryable failures with growing backoff until one succeeds", async () => {
+    const { call, calls } = sequence([
+      rateLimited(),
+      { ok: false, failure: { reason: "network", message: "reset" } },
+      { ok: true, content: "{}" },
+    ]);
+    const started = Date.now();
+    const result = await completeWithRetries(call, { baseDelayMs: 20 });
+    assert.ok(result.ok);
+    assert.equal(result.attempts, 3);
+    assert.equal(calls(), 3);
+    // Jitter keeps each delay within half to all of 20ms and 40ms.
+    assert.ok(Date.now() - started >= 30);
+  });
+
+  it("waits for Retry-After instead of the computed backoff", async () => {
+    const { call } = sequence([rateLimited(5), { ok: true, content: "{}" }]);
+    const started = Date.now();
+    const result = await completeWithRetries(call, { baseDelayMs: 10_000 });
+    assert.equal(result.attempts, 2);
+    assert.ok(Date.now() - started < 1000);
+  });
+
+  it("gives up after maxRetries", async () => {
+    const { call, calls } = sequence([rateLimited(0)]);
+    const result = await completeWithRetries(call, { maxRetries: 2, baseDelayMs: 1 });
+    assert.ok(!result.ok);
+    assert.equal(result.attempts, 3);
+    assert.equal(calls(), 3);
+  });
+
+  it("does not retry client errors", async () => {
+    const { call } = sequence([{ ok: false, failure: { reason: "http", status: 400, message: "HTTP 400" } }]);
+    const result = await completeWithRetries(call, { baseDelayMs: 1 });
+    assert.equal(result.attempts, 1);
+  });
+
+  it("stops waiting when the signal aborts", async () => {
+    const controller = new AbortController();
+    const { call } = sequence([rateLimited(60_000)]);
+    setTimeout(() => controller.abort(), 10);
+    const started = Date.now();
+    const result = await completeWithRetries(call, { signal: controller.signal });
+    assert.ok(!result.ok);
+    assert.equal(result.attempts, 2);
+    assert.ok(Date.now() - started < 1000);
+  });
+});
+
+describe("postProviderJSON", () => {
+  const realFetch = globalThis.fetch;
+  afterEach(() => {
+    globalThis.fetch = realFetch;
+  });
+
+  // Never answers; rejects like fetch does once its signal aborts.
+  const hangingFetch: typeof fetch = (_url, init) =>
+    new Promise((_resolve, reject) => {
+      init?.signal?.addEventListener("abort", () => reject(new DOMException("aborted", "AbortError")));
+    });
+
+  it("returns the parsed payload", async () => {
+    globalThis.fetch = async () => new Response('{"answer":42}', { status: 200 });
+    const result = await postProviderJSON("https://llm.test", {}, {}, {});
+    assert.deepEqual(result, { ok: true, payload: { answer: 42 } });
+  });
+
+  it("reads Retry-After in seconds and as an HTTP date", async () => {
+    globalThis.fetch = async () => new Response("slow down", { status: 429, headers: { "Retry-After": "2" } });
+    const seconds = await postProviderJSON("https://llm.test", {}, {}, {});
+    assert.ok(!seconds.ok);
+    assert.equal(seconds.failure.status, 429);
+    assert.equal(seconds.failure.retryAfterMs, 2000);
+
+    const date = new Date(Date.now() + 60_000).toUTCString();
+    globalThis.fetch = async () => new Response("", { status: 503, headers: { "Retry-After": date } });
+    const dated = await postProviderJSON("https://llm.test", {}, {}, {});
+    assert.ok(!dated.ok);
+    assert.ok(dated.failure.retryAfterMs !== undefined && dated.failure.retryAfterMs > 55_000);
+  });
+
+  it("fails with a timeout when the provider does not answer in time", async () => {
+    globalThis.fetch = hangingFetch;
+    const result = await postProviderJSON("https://llm.test", {}, {}, { timeoutMs: 20 });
+    assert.ok(!result.ok);
+    assert.equal(result.failure.reason, "timeout");
+  });
+
+  it("reports an abort by the caller, before or during the request", async () => {
+    let fetched = false;
+    globalThis.fetch = (url, init) => {
+      fetched = true;
+      return hangingFetch(url, init);
+    };
+    const aborted = await postProviderJSON("https://llm.test", {}, {}, { signal: AbortSignal.abort() });
+    assert.ok(!aborted.ok);
+    assert.equal(aborted.failure.reason, "aborted");
+    assert.equal(fetched, false);
+
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 10);
+    const during = await postProviderJSON("https://llm.test", {}, {}, { signal: controller.signal });
+    assert.ok(!during.ok);
+    assert.equal(during.failure.reason, "aborted");
+  });
+
+  it("turns a thrown fetch into a network failure", async () => {
+    globalThis.fetch = async () => {
+      throw new TypeError("fetch failed");
+    };
+    const result = await postProviderJSON("https://llm.test", {}, {}, {});
+    assert.ok(!result.ok);
+    assert.deepEqual(result.failure, { reason: "network", message: "fetch failed" });
+  });
+});
+
+describe("mapWithConcurrency", () => {
+  it("keeps input order with at most `limit` tasks in flight", async () => {
+    let inFlight = 0;
+    let peak = 0;
+    const results = await mapWithConcurrency([30, 5, 20, 1, 10], 2, async (ms, i) => {
+      inFlight += 1;
+      peak = Math.max(peak, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, ms));
+      inFlight -= 1;
+      return i * 10;
+    });
+    assert.deepEqual(results, [0, 10, 20, 30, 40]);
+    assert.equal(peak, 2);
+  });
+
+  it("handles an empty list and a limit above the item count", async () => {
+    assert.deepEqual(await mapWithConcurrency([], 4, async () => 1), []);
+    assert.deepEqual(await mapWithConcurrency([1, 2], 8, async (n) => n * 2), [2, 4]);
+  });
+});
@@ -0,0 +1,346 @@
+import fs from "fs";
+import { createAnthropicProvider } from "./anthropic";
+import { createOpenAIProvider } from "./openai";
+
+export type LLMProviderName = "openai" | "openai-compatible" | "anthropic" | "mock";
+
+export const LLM_PROVIDERS: LLMProviderName[] = ["openai", "openai-compatible", "anthropic", "mock"];
+
+export type JsonSchema = {
+  type: string;
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  enum?: string[];
+  required?: string[];
+  additionalProperties?: boolean;
+};
+
+// One structured-output call: the provider returns the raw JSON text, or why it could not.
+export type LLMJsonRequest = {
+  system: string;
+  prompt: string;
+  schemaName: string;
+  schema: JsonSchema;
+  temperature?: number;
+  maxTokens?: number;
+  timeoutMs?: number;
+  signal?: AbortSignal;
+};
+
+export type LLMFailureReason =
+  | "http"
+  | "timeout"
+  | "network"
+  | "aborted"
+  | "refusal"
+  | "empty"
+  | "parse"
+  | "schema"
+  | "injection"
+  | "budget";
+
+export type LLMFailure = {
+  reason: LLMFailureReason;
+  message: string;
+  status?: number;
+  retryAfterMs?: number;
+};
+
+export type LLMUsage = {
+  inputTokens: number;
+  outputTokens: number;
+};
+
+// `cached` results were replayed from the response cache and cost nothing.
+// `accept` is set by a response cache: the caller runs it once the content has passed its own
+// validation, so replies that are later rejected are never stored.
+export type LLMResult =
+  | { ok: true; content: string; usage?: LLMUsage; cached?: boolean; accept?: () => Promise<void> }
+  | { ok: false; failure: LLMFailure };
+
+export type LLMProvider = {
+  name: LLMProviderName;
+  model: string;
+  completeJSON: (request: LLMJsonRequest) => Promise<LLMResult>;
+};
+
+export type LLMRetryConfig = {
+  maxRetries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  signal?: AbortSignal;
+};
+
+export type LLMProviderConfig = {
+  provider: LLMProviderName;
+  model: string;
+  apiKey?: string;
+  baseUrl?: string;
+  fixtures?: Record<string, string>;
+};
+
+// USD per million tokens.
+export type LLMPrice = {
+  input: number;
+  output: number;
+};
+
+// Longest matching prefix wins, so dated snapshots share their family's price. Models without a
+// price (local servers, the mock) are treated as free.
+export const DEFAULT_LLM_PRICING: Record<string, LLMPrice> = {
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  "gpt-4.1-nano": { input: 0.1, output: 0.4 },
+  "gpt-4.1": { input: 2, output: 8 },
+  "claude-3-5-haiku": { input: 0.8, output: 4 },
+  "claude-3-5-sonnet": { input: 3, output: 15 },
+  "claude-3-7-sonnet": { input: 3, output: 15 },
+  "claude-sonnet-4": { input: 3, output: 15 },
+};
+
+export const llmPriceFor = (model: string, pricing: Record<string, LLMPrice> = {}) => {
+  const table = { ...DEFAULT_LLM_PRICING, ...pricing };
+  const match = Object.keys(table)
+    .filter((prefix) => model === prefix || model.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+  return match ? table[match] : undefined;
+};
+
+export const llmCost = (usage: LLMUsage | undefined, price: LLMPrice | undefined) =>
+  usage && price ? (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000 : 0;
+
+export const DEFAULT_LLM_MAX_TOKENS = 600;
+
+// Worst-case cost of a request before it is sent: about three characters per prompt token and
+// the full output allowance.
+export const estimateLLMCost = (
+  request: Pick<LLMJsonRequest, "system" | "prompt" | "maxTokens">,
+  price: LLMPrice | undefined,
+) =>
+  llmCost(
+    {
+      inputTokens: Math.ceil((request.system.length + request.prompt.length) / 3),
+      outputTokens: request.maxTokens ?? DEFAULT_LLM_MAX_TOKENS,
+    },
+    price,
+  );
+
+export const DEFAULT_LLM_MODELS: Partial<Record<LLMProviderName, string>> = {
+  openai: "gpt-4o-mini",
+  anthropic: "claude-3-5-haiku-latest",
+  mock: "mock",
+};
+
+const fnv1a = (value: string) => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    h ^= value.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return (h >>> 0).toString(16).padStart(8, "0");
+};
+
+// Fixtures are keyed by a hash of the prompt, so a recorded response is replayed for the same
+// input. Anything without a fixture gets a placeholder that satisfies the schema.
+export const mockPromptKey = (request: Pick<LLMJsonRequest, "system" | "prompt">) =>
+  fnv1a(`${request.system}\n${request.prompt}`);
+
+const placeholderFor = (schema: JsonSchema, name: string, seed: string): unknown => {
+  if (schema.enum?.length) return schema.enum[Number.parseInt(seed.slice(0, 4), 16) % schema.enum.length];
+  switch (schema.type) {
+    case "object":
+      return Object.fromEntries(
+        Object.entries(schema.properties ?? {}).map(([key, value]) => [key, placeholderFor(value, key, seed)]),
+      );
+    case "array":
+      return [];
+    case "number":
+    case "integer":
+      return 0;
+    case "boolean":
+      return false;
+    default:
+      return `Mock ${name} ${seed}`;
+  }
+};
+
+// The mock reports roughly four characters per token, so budgets can be exercised offline.
+const createMockProvider = (config: LLMProviderConfig): LLMProvider => ({
+  name: "mock",
+  model: config.model,
+  completeJSON: async (request) => {
+    const key = mockPromptKey(request);
+    const fixture = config.fixtures?.[key] ?? config.fixtures?.default;
+    const content = fixture ?? JSON.stringify(placeholderFor(request.schema, request.schemaName, key));
+    const usage = {
+      inputTokens: Math.ceil((request.system.length + request.prompt.length) / 4),
+      outputTokens: Math.ceil(content.length / 4),
+    };
+    return { ok: true, content, usage };
+  },
+});
+
+const DEFAULT_TIMEOUT_MS = 60_000;
+
+// Retry-After is either a number of seconds or an HTTP date.
+const parseRetryAfter = (value: string | null) => {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+// POSTs a JSON body for a provider, with a per-request timeout on top of the caller's signal.
+// Non-OK responses are turned into failures carrying the status and the start of the body.
+export const postProviderJSON = async (
+  url: string,
+  headers: Record<string, string>,
+  body: unknown,
+  request: Pick<LLMJsonRequest, "timeoutMs" | "signal">,
+): Promise<{ ok: true; payload: unknown } | { ok: false; failure: LLMFailure }> => {
+  if (request.signal?.aborted) return { ok: false, failure: { reason: "aborted", message: "Request aborted." } };
+  const controller = new AbortController();
+  const timeoutMs = request.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  const onAbort = () => controller.abort();
+  request.signal?.addEventListener("abort", onAbort);
+  try {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { ...headers, "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+      signal: controller.signal,
+    });
+    if (!response.ok) {
+      const text = await response.text().catch(() => "");
+      const retryAfterMs = parseRetryAfter(response.headers.get("retry-after"));
+      return {
+        ok: false,
+        failure: {
+          reason: "http",
+          status: response.status,
+          message: `HTTP ${response.status}: ${text.slice(0, 300) || response.statusText}`,
+          ...(retryAfterMs !== undefined ? { retryAfterMs } : {}),
+        },
+      };
+    }
+    return { ok: true, payload: await response.json() };
+  } catch (err) {
+    if (request.signal?.aborted) return { ok: false, failure: { reason: "aborted", message: "Request aborted." } };
+    if (controller.signal.aborted) {
+      return { ok: false, failure: { reason: "timeout", message: `No response after ${timeoutMs}ms.` } };
+    }
+    const message = err instanceof Error ? err.message : "Network error.";
+    return { ok: false, failure: { reason: "network", message } };
+  } finally {
+    clearTimeout(timer);
+    request.signal?.removeEventListener("abort", onAbort);
+  }
+};
+
+const isRetryable = (failure: LLMFailure) =>
+  failure.reason === "timeout" ||
+  failure.reason === "network" ||
+  (failure.reason === "http" && (failure.status === 429 || (failure.status ?? 0) >= 500));
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve) => {
+    const timer = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    }
+    signal?.addEventListener("abort", done);
+  });
+
+// Retries rate limits, server errors, timeouts and network errors with exponential backoff and
+// jitter. A Retry-After header wins over the computed delay.
+export const completeWithRetries = async (
+  call: () => Promise<LLMResult>,
+  config: LLMRetryConfig = {},
+): Promise<LLMResult & { attempts: number }> => {
+  const { maxRetries = 3, baseDelayMs = 1000, maxDelayMs = 30_000, signal } = config;
+  let attempts = 0;
+  for (;;) {
+    attempts += 1;
+    const result = await call();
+    if (result.ok || !isRetryable(result.failure) || attempts > maxRetries || signal?.aborted) {
+      return { ...result, attempts };
+    }
+    const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempts - 1)) * (0.5 + Math.random() / 2);
+    await sleep(Math.min(maxDelayMs, result.failure.retryAfterMs ?? backoff), signal);
+  }
+};
+
+// Runs `task` over `items` with at most `limit` in flight, keeping results in input order.
+export const mapWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T, index: number) => Promise<R>,
+): Promise<R[]> => {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index], index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker));
+  return results;
+};
+
+export const createLLMProvider = (config: LLMProviderConfig): LLMProvider => {
+  switch (config.provider) {
+    case "anthropic":
+      return createAnthropicProvider(config);
+    case "mock":
+      return createMockProvider(config);
+    default:
+      return createOpenAIProvider(config);
+  }
+};
+
+const loadMockFixtures = (filePath?: string) => {
+  if (!filePath) return undefined;
+  try {
+    return JSON.parse(fs.readFileSync(filePath, "utf8")) as Record<string, string>;
+  } catch {
+    return undefined;
+  }
+};
+
+// Keys and base URLs only ever come from the server environment or workspace settings, never
+// from a request, so a caller cannot point the server at an arbitrary host.
+export const resolveLLMProviderConfig = (
+  options: { provider?: string; model?: string; baseUrl?: string },
+  env: NodeJS.ProcessEnv = process.env,
+): LLMProviderConfig | { error: string } => {
+  const provider = (options.provider || env.LLM_PROVIDER || "openai") as LLMProviderName;
+  if (!LLM_PROVIDERS.includes(provider)) {
+    return { error: `Unknown LLM provider: ${provider}. Expected one of ${LLM_PROVIDERS.join(", ")}.` };
+  }
+  const model = options.model || env.LLM_MODEL || DEFAULT_LLM_MODELS[provider];
+  if (!model) return { error: `A model is required for the ${provider} provider.` };
+
+  switch (provider) {
+    case "openai":
+      if (!env.OPENAI_API_KEY) return { error: "OPENAI_API_KEY is required for the openai provider." };
+      return { provider, model, apiKey: env.OPENAI_API_KEY };
+    case "anthropic":
+      if (!env.ANTHROPIC_API_KEY) return { error: "ANTHROPIC_API_KEY is required for the anthropic provider." };
+      return { provider, model, apiKey: env.ANTHROPIC_API_KEY };
+    case "openai-compatible": {
+      const baseUrl = options.baseUrl ?? env.LLM_BASE_URL;
+      if (!baseUrl) return { error: "LLM_BASE_URL is required for the openai-compatible provider." };
+      return { provider, model, baseUrl, ...(env.LLM_API_KEY ? { apiKey: env.LLM_API_KEY } : {}) };
+    }
+    case "mock": {
+      const fixtures = loadMockFixtures(env.LLM_MOCK_FIXTURES);
+      return { provider, model, ...(fixtures ? { fixtures } : {}) };
+    }
+  }
+};
@@ -0,0 +1,18 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { extractCodeBlocks, stripCodeBlocks, truncateMarkdown } from "./markdown";
+
+const text = "It fails here:\n```python\nimport lancedb\ndb.create_table()\n```\nAny idea why?";
+
+describe("markdown code blocks", () => {
+  it("finds fenced blocks with their language and strips them from prose", () => {
+    assert.deepEqual(extractCodeBlocks(text), [{ code: "import lancedb\ndb.create_table()", language: "python" }]);
+    assert.equal(stripCodeBlocks(text).replace(/\s+/g, " ").trim(), "It fails here: Any idea why?");
+  });
+
+  it("truncates around a code block instead of cutting it in half", () => {
+    assert.equal(truncateMarkdown(text, text.length), text);
+    assert.equal(truncateMarkdown(text, 60), "It fails here:\n[python code block, 2 line(s) omitted]\nAny id...");
+    assert.equal(truncateMarkdown(text, 20), "It fails here:...");
+  });
+});
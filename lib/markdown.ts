@@ -0,0 +1,65 @@
+import { DiscordCodeBlock } from "./types";
+
+export type MarkdownSegment = {
+  kind: "text" | "code";
+  text: string;
+  language?: string;
+};
+
+const FENCE_REGEX = /```([\w+#-]*)\n([\s\S]*?)\n?```/g;
+
+export const toFencedBlock = (code: string, language?: string) =>
+  `\`\`\`${language ?? ""}\n${code.replace(/\n+$/, "")}\n\`\`\``;
+
+export const splitMarkdownSegments = (text: string): MarkdownSegment[] => {
+  const segments: MarkdownSegment[] = [];
+  let cursor = 0;
+  for (const match of text.matchAll(FENCE_REGEX)) {
+    const start = match.index ?? 0;
+    if (start > cursor) segments.push({ kind: "text", text: text.slice(cursor, start) });
+    segments.push({ kind: "code", text: match[0], language: match[1] || undefined });
+    cursor = start + match[0].length;
+  }
+  if (cursor < text.length) segments.push({ kind: "text", text: text.slice(cursor) });
+  return segments;
+};
+
+export const extractCodeBlocks = (text: string): DiscordCodeBlock[] =>
+  [...text.matchAll(FENCE_REGEX)].map((match) => ({
+    code: match[2],
+    language: match[1] || undefined,
+  }));
+
+export const stripCodeBlocks = (text: string) =>
+  splitMarkdownSegments(text)
+    .filter((segment) => segment.kind === "text")
+    .map((segment) => segment.text)
+    .join(" ");
+
+const codePlaceholder = (segment: MarkdownSegment) => {
+  const lines = segment.text.split("\n").length - 2;
+  return `[${segment.language ? `${segment.language} ` : ""}code block, ${lines} line(s) omitted]`;
+};
+
+// Truncates markdown without ever cutting a fenced code block in half: blocks that do not
+// fit are replaced by a short placeholder so the surrounding prose stays readable.
+export const truncateMarkdown = (text: string, maxChars: number) => {
+  if (text.length <= maxChars) return text;
+  let out = "";
+  for (const segment of splitMarkdownSegments(text)) {
+    if (out.length + segment.text.length <= maxChars) {
+      out += segment.text;
+      continue;
+    }
+    if (segment.kind === "code") {
+      const placeholder = codePlaceholder(segment);
+      if (out.length + placeholder.length <= maxChars) {
+        out += placeholder;
+        continue;
+      }
+      return `${out.trimEnd()}...`;
+    }
+    return `${out}${segment.text.slice(0, Math.max(0, maxChars - out.length))}...`;
+  }
+  return out;
+};
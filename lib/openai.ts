@@ -1,88 +1,74 @@
-export type OpenAIConfig = {
-  apiKey: string;
-  model: string;
-};
-
-type StructuredTicket = {
-  title: string;
-  summary: string;
-  severity: "low" | "medium" | "high" | "critical";
-  docCoverage: "missing" | "partial" | "adequate" | "unknown";
-  affectedItems?: string[];
-  reasoning?: string;
-  tags?: string[];
-};
+import {
+  DEFAULT_LLM_MAX_TOKENS,
+  LLMJsonRequest,
+  LLMProvider,
+  LLMProviderConfig,
+  LLMResult,
+  postProviderJSON,
+} from "./llm";
 
-type CreateTicketInput = OpenAIConfig & {
-  input: string;
-  channel: string;
-};
+const OPENAI_BASE_URL = "https://api.openai.com/v1";
 
-const ticketSchema = {
-  type: "object",
-  additionalProperties: false,
-  properties: {
-    title: { type: "string" },
-    summary: { type: "string" },
-    severity: { type: "string", enum: ["low", "medium", "high", "critical"] },
-    docCoverage: { type: "string", enum: ["missing", "partial", "adequate", "unknown"] },
-    affectedItems: { type: "array", items: { type: "string" } },
-    reasoning: { type: "string" },
-    tags: { type: "array", items: { type: "string" } }
-  },
-  required: ["title", "summary", "severity", "docCoverage"]
+type ChatCompletionPayload = {
+  choices?: Array<{ message?: { content?: string | null; refusal?: string | null }; finish_reason?: string }>;
+  usage?: { prompt_tokens?: number; completion_tokens?: number };
 };
 
-export const createStructuredTicketWithOpenAI = async (
-  params: CreateTicketInput,
-): Promise<StructuredTicket | null> => {
-  const { apiKey, model, input, channel } = params;
-  const systemPrompt =
-    "You are a documentation triage assistant. Produce a compact ticket summary from Discord messages.";
-  const userPrompt =
-    `Channel: ${channel}\n\n${input}\n\n` +
-    "Return a structured ticket with severity and documentation coverage. Use affectedItems only for concrete URLs or components.";
+// Serves both OpenAI and OpenAI-compatible servers (vLLM, Ollama, llama.cpp). Local servers get
+// the schema without `strict`, which several of them reject.
+export const createOpenAIProvider = (config: LLMProviderConfig): LLMProvider => {
+  const compatible = config.provider === "openai-compatible";
+  const baseUrl = (config.baseUrl ?? OPENAI_BASE_URL).replace(/\/+$/, "");
+  const label = compatible ? `OpenAI-compatible (${baseUrl})` : "OpenAI";
 
-  const response = await fetch("https://api.openai.com/v1/chat/completions", {
-    method: "POST",
-    headers: {
-      Authorization: `Bearer ${apiKey}`,
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify({
-      model,
-      messages: [
-        { role: "system", content: systemPrompt },
-        { role: "user", content: userPrompt },
-      ],
-      response_format: {
-        type: "json_schema",
-        json_schema: {
-          name: "discord_ticket",
-          strict: true,
-          schema: ticketSchema,
+  return {
+    name: compatible ? "openai-compatible" : "openai",
+    model: config.model,
+    completeJSON: async (request: LLMJsonRequest): Promise<LLMResult> => {
+      const response = await postProviderJSON(
+        `${baseUrl}/chat/completions`,
+        config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {},
+        {
+          model: config.model,
+          messages: [
+            { role: "system", content: request.system },
+            { role: "user", content: request.prompt },
+          ],
+          response_format: {
+            type: "json_schema",
+            json_schema: {
+              name: request.schemaName,
+              ...(compatible ? {} : { strict: true }),
+              schema: request.schema,
+            },
+          },
+          temperature: request.temperature ?? 0.2,
+          max_tokens: request.maxTokens ?? DEFAULT_LLM_MAX_TOKENS,
         },
-      },
-      temperature: 0.2,
-      max_tokens: 600,
-    }),
-  });
-
-  if (!response.ok) {
-    return null;
-  }
+        request,
+      );
 
-  console.info(
-    `[LLM] OpenAI ticket refinement succeeded (model=${model}, channel=${channel}, chars=${input.length}).`,
-  );
+      if (!response.ok) {
+        console.warn(`[LLM] ${label} request failed (model=${config.model}): ${response.failure.message}`);
+        return response;
+      }
 
-  const payload = await response.json();
-  const content = payload?.choices?.[0]?.message?.content;
-  if (!content || typeof content !== "string") return null;
+      const payload = response.payload as ChatCompletionPayload;
+      const choice = payload?.choices?.[0];
+      if (choice?.message?.refusal) {
+        return { ok: false, failure: { reason: "refusal", message: choice.message.refusal } };
+      }
+      const content = choice?.message?.content;
+      if (!content || typeof content !== "string") {
+        const message = `No content returned (finish_reason=${choice?.finish_reason ?? "none"}).`;
+        return { ok: false, failure: { reason: "empty", message } };
+      }
 
-  try {
-    return JSON.parse(content) as StructuredTicket;
-  } catch {
-    return null;
-  }
+      console.info(`[LLM] ${label} request succeeded (model=${config.model}, chars=${request.prompt.length}).`);
+      const usage = payload?.usage
+        ? { inputTokens: payload.usage.prompt_tokens ?? 0, outputTokens: payload.usage.completion_tokens ?? 0 }
+        : undefined;
+      return { ok: true, content, ...(usage ? { usage } : {}) };
+    },
+  };
 };
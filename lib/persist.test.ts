@@ -0,0 +1,111 @@
+import assert from "node:assert/strict";
+import { after, afterEach, before, beforeEach, describe, it, mock } from "node:test";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { loadDiscordKnowledgeStore, saveDiscordKnowledgeStore } from "./persist";
+import { formatSchemaIssues, structuredTicketSchema } from "./schemas";
+import { Ticket } from "./types";
+
+const ticket = (id: string): Ticket => ({
+  id,
+  title: "create_index crashes on empty tables",
+  summary: "Building an IVF_PQ index on an empty table segfaults.",
+  severity: "high",
+  docCoverage: "unknown",
+  channel: "help",
+  evidence: [{ messageId: `${id}-m`, channel: "help", snippet: "create_index crashes" }],
+});
+
+describe("loadDiscordKnowledgeStore", () => {
+  let storeDir: string;
+  let storePath: string;
+  const warn = mock.method(console, "warn", () => {});
+
+  before(async () => {
+    storeDir = await fs.mkdtemp(path.join(os.tmpdir(), "store-test-"));
+    storePath = path.join(storeDir, "knowledge.json");
+  });
+  after(async () => {
+    warn.mock.restore();
+    await fs.rm(storeDir, { recursive: true, force: true });
+  });
+  beforeEach(() => warn.mock.resetCalls());
+  afterEach(() => fs.rm(storePath, { force: true }));
+
+  it("drops invalid entries one by one and keeps the rest", async () => {
+    const stored = {
+      version: 1,
+      updatedAt: "2026-01-01T00:00:00.000Z",
+      ticketsById: { good: ticket("good"), bad: { ...ticket("bad"), severity: "urgent" } },
+      edges: [
+        { from: "good", to: "other", relation: "duplicate", confidence: 0.8 },
+        { from: "good", to: "other", confidence: 2 },
+      ],
+      channelMarks: {
+        help: { lastMessageId: "9", updatedAt: "2026-01-01T00:00:00.000Z" },
+        general: { updatedAt: "2026-01-01T00:00:00.000Z" },
+      },
+      aliases: { old: "good", broken: 7 },
+    };
+    await fs.writeFile(storePath, JSON.stringify(stored), "utf8");
+
+    const store = await loadDiscordKnowledgeStore(storePath);
+    assert.deepEqual(Object.keys(store.ticketsById), ["good"]);
+    assert.deepEqual(store.edges, [stored.edges[0]]);
+    assert.deepEqual(Object.keys(store.channelMarks), ["help"]);
+    assert.deepEqual(store.aliases, { old: "good" });
+    assert.equal(warn.mock.callCount(), 4);
+  });
+
+  it("starts empty when the envelope is invalid or the file is not JSON", async () => {
+    await fs.writeFile(storePath, JSON.stringify({ version: 2, updatedAt: "x", ticketsById: {} }), "utf8");
+    const wrongVersion = await loadDiscordKnowledgeStore(storePath);
+    assert.deepEqual(wrongVersion.ticketsById, {});
+    assert.match(String(warn.mock.calls[0].arguments[0]), /version/);
+
+    await fs.writeFile(storePath, "{ not json", "utf8");
+    const garbled = await loadDiscordKnowledgeStore(storePath);
+    assert.deepEqual(garbled.ticketsById, {});
+    assert.deepEqual(garbled.edges, []);
+  });
+
+  it("starts empty without a warning when the file does not exist", async () => {
+    const store = await loadDiscordKnowledgeStore(storePath);
+    assert.deepEqual(store.ticketsById, {});
+    assert.equal(warn.mock.callCount(), 0);
+  });
+
+  it("loads what it saved", async () => {
+    const saved = {
+      version: 1 as const,
+      updatedAt: "2026-01-02T00:00:00.000Z",
+      ticketsById: { good: ticket("good") },
+      edges: [{ from: "good", to: "other", confidence: 0.5 }],
+      channelMarks: { help: { lastMessageId: "9", updatedAt: "2026-01-02T00:00:00.000Z" } },
+      aliases: { old: "good" },
+    };
+    await saveDiscordKnowledgeStore(saved, storePath);
+    assert.deepEqual(await loadDiscordKnowledgeStore(storePath), saved);
+    assert.deepEqual(await fs.readdir(storeDir), ["knowledge.json"]);
+  });
+});
+
+describe("structuredTicketSchema", () => {
+  const valid = { title: "Crash", summary: "It crashes.", severity: "high", docCoverage: "missing" };
+
+  it("trims titles and rejects blank ones", () => {
+    const parsed = structuredTicketSchema.safeParse({ ...valid, title: "  Crash  " });
+    assert.ok(parsed.success);
+    assert.equal(parsed.data.title, "Crash");
+    assert.ok(!structuredTicketSchema.safeParse({ ...valid, title: "   " }).success);
+  });
+
+  it("lists every issue with its path", () => {
+    const parsed = structuredTicketSchema.safeParse({ ...valid, severity: "urgent", tags: ["ok", 3] });
+    assert.ok(!parsed.success);
+    const issues = formatSchemaIssues(parsed.error);
+    assert.match(issues, /^severity: /);
+    assert.match(issues, /; tags\.1: /);
+  });
+});
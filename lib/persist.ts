@@ -1,12 +1,25 @@
 import fs from "fs/promises";
 import path from "path";
+import { clusterTickets, TicketClusterConfig } from "./cluster";
+import { EdgeInferenceConfig, inferTicketEdges } from "./edges";
+import { z } from "zod";
+import { mergeTicketEntities } from "./entities";
+import { channelMarkSchema, edgeSchema, formatSchemaIssues, knowledgeStoreSchema, ticketSchema } from "./schemas";
 import { Edge, Ticket } from "./types";
 
+export type DiscordChannelMark = {
+  lastMessageId: string;
+  lastTimestamp?: string;
+  updatedAt: string;
+};
+
 export type DiscordKnowledgeStore = {
   version: 1;
   updatedAt: string;
   ticketsById: Record<string, Ticket>;
   edges: Edge[];
+  channelMarks: Record<string, DiscordChannelMark>;
+  aliases: Record<string, string>;
 };
 
 const STORE_DIR = path.join(process.cwd(), "data", "discord");
@@ -17,6 +30,8 @@ export const createEmptyDiscordKnowledgeStore = (): DiscordKnowledgeStore => ({
   updatedAt: new Date().toISOString(),
   ticketsById: {},
   edges: [],
+  channelMarks: {},
+  aliases: {},
 });
 
 const readJsonFile = async <T>(filePath: string): Promise<T | null> => {
@@ -28,23 +43,52 @@ const readJsonFile = async <T>(filePath: string): Promise<T | null> => {
   }
 };
 
-export const loadDiscordKnowledgeStore = async (): Promise<DiscordKnowledgeStore> => {
-  const loaded = await readJsonFile<DiscordKnowledgeStore>(STORE_PATH);
-  if (!loaded || loaded.version !== 1 || typeof loaded !== "object") {
+// Keeps the entries that pass `schema`, logging how many were dropped.
+const validEntries = <T>(entries: Array<[string, unknown]>, schema: z.ZodType<T>, label: string, storePath: string) => {
+  const valid: Array<[string, T]> = [];
+  entries.forEach(([key, value]) => {
+    const parsed = schema.safeParse(value);
+    if (parsed.success) valid.push([key, parsed.data]);
+  });
+  if (valid.length < entries.length) {
+    console.warn(`[store] Dropped ${entries.length - valid.length} invalid ${label} from ${storePath}.`);
+  }
+  return valid;
+};
+
+export const loadDiscordKnowledgeStore = async (storePath = STORE_PATH): Promise<DiscordKnowledgeStore> => {
+  const loaded = await readJsonFile<unknown>(storePath);
+  const envelope = knowledgeStoreSchema.safeParse(loaded);
+  if (!envelope.success) {
+    if (loaded) console.warn(`[store] Ignoring ${storePath}: ${formatSchemaIssues(envelope.error)}`);
     return createEmptyDiscordKnowledgeStore();
   }
+  const store = envelope.data;
   return {
-    ...createEmptyDiscordKnowledgeStore(),
-    ...loaded,
-    ticketsById: loaded.ticketsById ?? {},
-    edges: loaded.edges ?? [],
+    version: 1,
+    updatedAt: store.updatedAt,
+    ticketsById: Object.fromEntries(
+      validEntries(Object.entries(store.ticketsById), ticketSchema, "tickets", storePath),
+    ),
+    edges: validEntries(
+      store.edges.map((edge, i) => [String(i), edge]),
+      edgeSchema,
+      "edges",
+      storePath,
+    ).map(([, edge]) => edge),
+    channelMarks: Object.fromEntries(
+      validEntries(Object.entries(store.channelMarks), channelMarkSchema, "channel marks", storePath),
+    ),
+    aliases: Object.fromEntries(validEntries(Object.entries(store.aliases), z.string(), "aliases", storePath)),
   };
 };
 
-const writeJsonAtomic = async (filePath: string, data: unknown) => {
+// Writes to a per-process temporary file and renames it into place, so readers never see a
+// partial file and concurrent writers do not clobber each other's temporary file.
+export const writeJsonAtomic = async (filePath: string, data: unknown, indent = 2) => {
   await fs.mkdir(path.dirname(filePath), { recursive: true });
-  const tmp = `${filePath}.tmp`;
-  await fs.writeFile(tmp, JSON.stringify(data, null, 2), "utf8");
+  const tmp = `${filePath}.${process.pid}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(data, null, indent), "utf8");
   await fs.rename(tmp, filePath);
 };
 
@@ -91,6 +135,7 @@ const mergeTicket = (prev: Ticket, next: Ticket): Ticket => {
     docCoverage,
     evidence,
     affectedItems: affectedItems.size ? [...affectedItems] : undefined,
+    entities: mergeTicketEntities(prev.entities, next.entities),
     tags: tags.size ? [...tags] : undefined,
     reasoning: next.reasoning ?? prev.reasoning,
   };
@@ -100,17 +145,35 @@ const edgeKey = (edge: Edge) => `${edge.from}::${edge.to}`;
 
 export const mergeDiscordKnowledge = (
   store: DiscordKnowledgeStore,
-  incoming: { tickets: Ticket[]; edges?: Edge[] },
+  incoming: { tickets: Ticket[]; edges?: Edge[]; channelMarks?: Record<string, DiscordChannelMark> },
 ): DiscordKnowledgeStore => {
   const nextStore: DiscordKnowledgeStore = {
     ...store,
     ticketsById: { ...store.ticketsById },
     edges: [...store.edges],
+    channelMarks: { ...store.channelMarks, ...incoming.channelMarks },
   };
 
-  incoming.tickets.forEach((ticket) => {
-    const existing = nextStore.ticketsById[ticket.id];
-    nextStore.ticketsById[ticket.id] = existing ? mergeTicket(existing, ticket) : ticket;
+  // Tickets folded into a canonical ticket keep landing there on later ingests.
+  incoming.tickets.forEach((incomingTicket) => {
+    const id = nextStore.aliases[incomingTicket.id] ?? incomingTicket.id;
+    const existing = nextStore.ticketsById[id];
+    if (!existing) {
+      nextStore.ticketsById[id] = { ...incomingTicket, id };
+      return;
+    }
+    // An aliased occurrence adds its evidence and tags but keeps the canonical ticket's identity.
+    nextStore.ticketsById[id] =
+      id === incomingTicket.id
+        ? mergeTicket(existing, incomingTicket)
+        : mergeTicket(existing, {
+            ...existing,
+            severity: incomingTicket.severity,
+            docCoverage: incomingTicket.docCoverage,
+            evidence: incomingTicket.evidence,
+            affectedItems: incomingTicket.affectedItems,
+            tags: incomingTicket.tags,
+          });
   });
 
   const edgeMap = new Map<string, Edge>();
@@ -122,6 +185,8 @@ export const mergeDiscordKnowledge = (
       edgeMap.set(key, edge);
       return;
     }
+    // A hand-made edge is never overwritten by an inferred one.
+    if (edge.inferred && !prev.inferred) return;
     edgeMap.set(key, { ...prev, ...edge, rationale: edge.rationale ?? prev.rationale });
   });
   nextStore.edges = [...edgeMap.values()];
@@ -129,13 +194,63 @@ export const mergeDiscordKnowledge = (
   return nextStore;
 };
 
-export const saveDiscordKnowledgeStore = async (store: DiscordKnowledgeStore) => {
-  await writeJsonAtomic(STORE_PATH, store);
+const remapEdges = (edges: Edge[], aliases: Record<string, string>) => {
+  const edgeMap = new Map<string, Edge>();
+  edges.forEach((edge) => {
+    const remapped = { ...edge, from: aliases[edge.from] ?? edge.from, to: aliases[edge.to] ?? edge.to };
+    if (remapped.from === remapped.to) return;
+    edgeMap.set(edgeKey(remapped), edgeMap.get(edgeKey(remapped)) ?? remapped);
+  });
+  return [...edgeMap.values()];
+};
+
+// Folds near-duplicate tickets into canonical tickets and records where the duplicates went.
+export const clusterDiscordKnowledge = (
+  store: DiscordKnowledgeStore,
+  config: TicketClusterConfig = {},
+): { store: DiscordKnowledgeStore; mergedCount: number } => {
+  const { tickets, aliases, mergedCount } = clusterTickets(Object.values(store.ticketsById), config);
+  const nextAliases: Record<string, string> = {};
+  Object.entries(store.aliases).forEach(([from, to]) => {
+    nextAliases[from] = aliases[to] ?? to;
+  });
+  Object.assign(nextAliases, aliases);
+  return {
+    store: {
+      ...store,
+      ticketsById: Object.fromEntries(tickets.map((ticket) => [ticket.id, ticket])),
+      edges: remapEdges(store.edges, nextAliases),
+      aliases: nextAliases,
+      updatedAt: new Date().toISOString(),
+    },
+    mergedCount,
+  };
+};
+
+// Re-infers relationship edges across the whole store. Previously inferred edges are replaced;
+// hand-made edges are kept and take precedence for their ticket pair.
+export const inferDiscordKnowledgeEdges = (
+  store: DiscordKnowledgeStore,
+  config: EdgeInferenceConfig = {},
+): { store: DiscordKnowledgeStore; inferredCount: number } => {
+  const manual = store.edges.filter((edge) => !edge.inferred);
+  const manualKeys = new Set(manual.map(edgeKey));
+  const inferred = inferTicketEdges(Object.values(store.ticketsById), config).filter(
+    (edge) => !manualKeys.has(edgeKey(edge)),
+  );
+  return {
+    store: { ...store, edges: [...manual, ...inferred], updatedAt: new Date().toISOString() },
+    inferredCount: inferred.length,
+  };
+};
+
+export const saveDiscordKnowledgeStore = async (store: DiscordKnowledgeStore, storePath = STORE_PATH) => {
+  await writeJsonAtomic(storePath, store);
 };
 
-export const clearDiscordKnowledgeStore = async () => {
+export const clearDiscordKnowledgeStore = async (storePath = STORE_PATH) => {
   try {
-    await fs.unlink(STORE_PATH);
+    await fs.unlink(storePath);
   } catch {
     // ignore
   }
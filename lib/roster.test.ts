@@ -0,0 +1,21 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { isBotAuthor, isStaffAuthor, normalizeDiscordRoster } from "./roster";
+
+describe("roster", () => {
+  it("normalizes names, dropping blanks, duplicates and non-strings", () => {
+    assert.deepEqual(
+      normalizeDiscordRoster({ staff: [" Will ", "Will", "", 7 as unknown as string], bots: undefined }),
+      { staff: ["Will"], bots: [] },
+    );
+    assert.deepEqual(normalizeDiscordRoster(null), { staff: [], bots: [] });
+  });
+
+  it("matches authors case-insensitively", () => {
+    const roster = { staff: ["Will"], bots: ["HelperBot"] };
+    assert.equal(isStaffAuthor(roster, " will"), true);
+    assert.equal(isBotAuthor(roster, "helperbot"), true);
+    assert.equal(isStaffAuthor(roster, "helperbot"), false);
+    assert.equal(isStaffAuthor(roster, undefined), false);
+  });
+});
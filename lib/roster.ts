@@ -0,0 +1,45 @@
+import fs from "fs/promises";
+import path from "path";
+import { writeJsonAtomic } from "./persist";
+
+export type DiscordRoster = {
+  staff: string[];
+  bots: string[];
+};
+
+const ROSTER_PATH = path.join(process.cwd(), "data", "discord", "roster.json");
+
+export const createEmptyDiscordRoster = (): DiscordRoster => ({ staff: [], bots: [] });
+
+const cleanNames = (names: unknown) =>
+  Array.isArray(names)
+    ? [...new Set(names.filter((name): name is string => typeof name === "string").map((name) => name.trim()))].filter(
+        Boolean,
+      )
+    : [];
+
+export const normalizeDiscordRoster = (roster: Partial<DiscordRoster> | null | undefined): DiscordRoster => ({
+  staff: cleanNames(roster?.staff),
+  bots: cleanNames(roster?.bots),
+});
+
+export const loadDiscordRoster = async (rosterPath = ROSTER_PATH): Promise<DiscordRoster> => {
+  try {
+    const raw = await fs.readFile(rosterPath, "utf8");
+    return normalizeDiscordRoster(JSON.parse(raw) as Partial<DiscordRoster>);
+  } catch {
+    return createEmptyDiscordRoster();
+  }
+};
+
+export const saveDiscordRoster = async (roster: DiscordRoster, rosterPath = ROSTER_PATH) => {
+  await writeJsonAtomic(rosterPath, normalizeDiscordRoster(roster));
+};
+
+const nameKey = (name: string) => name.trim().toLowerCase();
+
+export const isStaffAuthor = (roster: DiscordRoster, author?: string) =>
+  Boolean(author) && roster.staff.some((name) => nameKey(name) === nameKey(author ?? ""));
+
+export const isBotAuthor = (roster: DiscordRoster, author?: string) =>
+  Boolean(author) && roster.bots.some((name) => nameKey(name) === nameKey(author ?? ""));
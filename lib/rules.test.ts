@@ -0,0 +1,115 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { DEFAULT_TICKET_RULES, evaluateTicketRules, normalizeTicketRules, validateTicketRules } from "./rules";
+
+const ids = (hits: { group: string; ruleId: string }[], group: string) =>
+  hits.filter((hit) => hit.group === group).map((hit) => hit.ruleId);
+
+describe("evaluateTicketRules", () => {
+  it("matches phrases and patterns case-insensitively and collects phrase keywords", () => {
+    const result = evaluateTicketRules(DEFAULT_TICKET_RULES, {
+      text: "The build CRASHES with a segfault. Any idea?",
+      channel: "general",
+    });
+    assert.equal(result.candidate, true);
+    assert.deepEqual(ids(result.hits, "candidate"), ["question", "problem"]);
+    assert.equal(result.severity, "high");
+    assert.equal(result.kind, "bug");
+    assert.deepEqual(result.keywords.sort(), ["crash", "segfault"]);
+  });
+
+  it("drops negated spans before matching and reports the rules they silenced", () => {
+    const result = evaluateTicketRules(DEFAULT_TICKET_RULES, {
+      text: "This is not a bug, just curious.",
+      channel: "general",
+    });
+    assert.equal(result.candidate, false);
+    assert.equal(result.severity, "low");
+    assert.deepEqual(ids(result.suppressed, "severity"), ["high"]);
+    assert.deepEqual(result.suppressed.find((hit) => hit.group === "severity")?.negated, ["not a bug"]);
+  });
+
+  it("still fires when the phrase also appears outside the negated span", () => {
+    const result = evaluateTicketRules(DEFAULT_TICKET_RULES, {
+      text: "Not a bug in my code, but the server hits a bug on restart.",
+      channel: "general",
+    });
+    assert.deepEqual(ids(result.hits, "severity"), ["high"]);
+    assert.deepEqual(result.hits.find((hit) => hit.group === "severity")?.negated, ["not a bug"]);
+  });
+
+  it("applies channel-scoped rules and channel overrides", () => {
+    const rules = normalizeTicketRules({
+      tags: [{ id: "gpu", tag: "gpu", phrases: ["cuda"], channels: ["gpu"] }],
+      channels: [{ match: ["gpu"], minSeverity: "medium", disabledRules: ["question"] }],
+    });
+    const inChannel = evaluateTicketRules(rules, { text: "cuda question?", channel: "gpu-help" });
+    assert.deepEqual(inChannel.tags, ["gpu"]);
+    assert.equal(inChannel.severity, "medium");
+    assert.deepEqual(ids(inChannel.hits, "candidate"), []);
+    assert.deepEqual(inChannel.channelOverrides, ["gpu"]);
+
+    const elsewhere = evaluateTicketRules(rules, { text: "cuda question?", channel: "general" });
+    assert.deepEqual(elsewhere.tags, []);
+    assert.deepEqual(ids(elsewhere.hits, "candidate"), ["question"]);
+  });
+
+  it("adds rule weights towards the group threshold", () => {
+    const rules = normalizeTicketRules({
+      candidate: {
+        threshold: 2,
+        rules: [
+          { id: "slow", phrases: ["slow"] },
+          { id: "upgrade", phrases: ["after upgrading"], weight: 1.5 },
+        ],
+      },
+    });
+    assert.equal(evaluateTicketRules(rules, { text: "queries are slow", channel: "general" }).candidate, false);
+    const both = evaluateTicketRules(rules, { text: "queries are slow after upgrading", channel: "general" });
+    assert.equal(both.candidate, true);
+    assert.equal(both.candidateScore, 2.5);
+  });
+});
+
+describe("validateTicketRules", () => {
+  it("reports every problem, including invalid regexes", () => {
+    const errors = validateTicketRules({
+      candidate: { threshold: "1", rules: [{ id: "a", patterns: ["("] }, { id: "a", phrases: ["x"] }] },
+      kind: { default: "rant" },
+    });
+    assert.deepEqual(errors, [
+      "candidate.threshold must be a number.",
+      "candidate.rules[0].patterns has an invalid regex: (",
+      'candidate.rules[1].id "a" is duplicated.',
+      "kind.default must be one of bug, doc_gap, feature_request, question, announcement.",
+    ]);
+    assert.deepEqual(validateTicketRules(DEFAULT_TICKET_RULES), []);
+  });
+});
+
+describe("kind classification", () => {
+  const kindOf = (text: string, channel = "general") =>
+    evaluateTicketRules(DEFAULT_TICKET_RULES, { text, channel }).kind;
+
+  it("recognises each kind from its phrasing", () => {
+    assert.equal(kindOf("Search throws an exception since the upgrade"), "bug");
+    assert.equal(kindOf("The reranker API is not documented anywhere"), "doc_gap");
+    assert.equal(kindOf("Would love support for sparse vectors"), "feature_request");
+    assert.equal(kindOf("How do I filter by date?"), "question");
+    assert.equal(kindOf("Excited to announce our new release"), "announcement");
+  });
+
+  it("lets the channel decide when the wording is neutral", () => {
+    assert.equal(kindOf("Search results look odd", "bug-reports"), "bug");
+    assert.equal(kindOf("Hybrid search with filters", "feature-requests"), "feature_request");
+    assert.equal(kindOf("Join us for the meetup", "community-meetings"), "announcement");
+    assert.equal(kindOf("Search results look odd"), "question");
+  });
+
+  it("weighs stronger signals over a trailing question mark and honours negations", () => {
+    assert.equal(kindOf("Is this a regression? The build fails on 0.5"), "bug");
+    assert.equal(kindOf("Not a bug, but is there a way to batch inserts?"), "question");
+    const scores = evaluateTicketRules(DEFAULT_TICKET_RULES, { text: "It crashes, any idea?", channel: "general" });
+    assert.deepEqual(scores.kindScores, { bug: 1.5, question: 0.5 });
+  });
+});
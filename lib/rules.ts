@@ -0,0 +1,472 @@
+import fs from "fs/promises";
+import path from "path";
+import { writeJsonAtomic } from "./persist";
+import { TicketDocCoverage, TicketKind, TicketSeverity } from "./types";
+
+// Phrases are case-insensitive substrings and patterns are case-insensitive regexes. Negated
+// spans ("not a bug") are removed before matching; a rule that fires adds its weight (default 1)
+// towards its group's threshold. `channels` limits a rule to channels whose name contains one of them.
+export type TicketRule = {
+  id: string;
+  phrases?: string[];
+  patterns?: string[];
+  negations?: string[];
+  weight?: number;
+  channels?: string[];
+};
+
+export type SeverityRule = TicketRule & { severity: TicketSeverity };
+export type DocCoverageRule = TicketRule & { coverage: Exclude<TicketDocCoverage, "unknown" | "adequate"> };
+export type TagRule = TicketRule & { tag: string };
+export type KindRule = TicketRule & { kind: TicketKind };
+
+export type ChannelOverride = {
+  match: string[];
+  candidate?: boolean;
+  defaultSeverity?: TicketSeverity;
+  minSeverity?: TicketSeverity;
+  disabledRules?: string[];
+};
+
+export type TicketRules = {
+  candidate: { threshold: number; rules: TicketRule[] };
+  severity: { threshold: number; rules: SeverityRule[] };
+  docCoverage: { mentions: TicketRule[]; rules: DocCoverageRule[] };
+  kind: { default: TicketKind; rules: KindRule[] };
+  tags: TagRule[];
+  channels: ChannelOverride[];
+};
+
+export type RuleGroup = "candidate" | "severity" | "docMention" | "docCoverage" | "kind" | "tag";
+
+export type RuleHit = {
+  group: RuleGroup;
+  ruleId: string;
+  weight: number;
+  matched: string[];
+  negated?: string[];
+};
+
+export type RuleInput = {
+  text: string;
+  channel: string;
+  links?: string[];
+};
+
+export type RuleEvaluation = {
+  candidate: boolean;
+  candidateScore: number;
+  severity: TicketSeverity;
+  docCoverage: TicketDocCoverage;
+  kind: TicketKind;
+  kindScores: Partial<Record<TicketKind, number>>;
+  tags: string[];
+  keywords: string[];
+  channelOverrides: string[];
+  hits: RuleHit[];
+  suppressed: RuleHit[];
+};
+
+const RULES_PATH = path.join(process.cwd(), "data", "discord", "rules.json");
+const SEVERITIES: TicketSeverity[] = ["low", "medium", "high", "critical"];
+// Ties between kinds go to the earlier entry.
+export const TICKET_KINDS: TicketKind[] = ["bug", "doc_gap", "feature_request", "question", "announcement"];
+
+// Candidate, severity and doc coverage defaults mirror the keyword lists the ticket builder
+// shipped with, so a workspace without a rules file behaves as before.
+export const DEFAULT_TICKET_RULES: TicketRules = {
+  candidate: {
+    threshold: 1,
+    rules: [
+      { id: "question", patterns: ["\\?"] },
+      {
+        id: "problem",
+        phrases: ["crash", "panic", "segfault", "broken", "fail", "exception", "bug"],
+        negations: ["not a bug", "no bug"],
+      },
+      { id: "docs", phrases: ["docs", "documentation", "readme", "guide", "tutorial", "example", "how do i"] },
+      {
+        id: "feature",
+        phrases: ["feature request", "request", "would love", "can we", "could we", "nice to have"],
+      },
+      { id: "github-issue", patterns: ["github\\.com/\\S+/issues/"] },
+    ],
+  },
+  severity: {
+    threshold: 1,
+    rules: [
+      {
+        id: "critical",
+        severity: "critical",
+        phrases: ["data loss", "security", "vulnerability", "corrupt", "irreversible"],
+      },
+      {
+        id: "high",
+        severity: "high",
+        phrases: ["crash", "panic", "segfault", "broken", "fail", "exception", "bug"],
+        negations: ["not a bug", "no bug"],
+      },
+      {
+        id: "medium",
+        severity: "medium",
+        phrases: ["slow", "performance", "latency", "timeout", "scaling", "benchmark"],
+      },
+    ],
+  },
+  docCoverage: {
+    mentions: [
+      { id: "docs", phrases: ["docs", "documentation", "readme", "guide", "tutorial", "example", "how do i"] },
+    ],
+    rules: [
+      { id: "missing", coverage: "missing", phrases: ["missing", "no doc", "not documented"] },
+      { id: "partial", coverage: "partial", phrases: ["unclear", "confusing", "outdated"] },
+    ],
+  },
+  kind: {
+    default: "question",
+    rules: [
+      {
+        id: "bug",
+        kind: "bug",
+        phrases: [
+          "crash", "panic", "segfault", "broken", "exception", "traceback", "error", "bug", "regression",
+          "doesn't work", "not working", "fails", "failed",
+        ],
+        negations: ["not a bug", "no bug", "no error"],
+        weight: 1.5,
+      },
+      {
+        id: "doc-gap",
+        kind: "doc_gap",
+        phrases: [
+          "not documented", "undocumented", "no docs", "docs are missing", "missing from the docs", "not in the docs",
+          "docs are outdated", "documentation is outdated", "docs don't", "docs do not", "unclear in the docs",
+        ],
+        weight: 2,
+      },
+      {
+        id: "feature",
+        kind: "feature_request",
+        phrases: [
+          "feature request", "would love", "would be nice", "would be great", "nice to have", "can we add",
+          "could we add", "please add", "support for", "any plans to",
+        ],
+        weight: 1.5,
+      },
+      { id: "bug-channel", kind: "bug", patterns: ["\\S"], channels: ["bug"] },
+      { id: "feature-channel", kind: "feature_request", patterns: ["\\S"], channels: ["feature"], weight: 1.5 },
+      { id: "question-phrase", kind: "question", phrases: ["how do i", "how to", "is there a way", "anyone know"] },
+      { id: "question-mark", kind: "question", patterns: ["\\?"], weight: 0.5 },
+      {
+        id: "announcement",
+        kind: "announcement",
+        phrases: [
+          "we're hiring", "we are hiring", "excited to announce", "excited to share", "just released",
+          "has been released", "we released", "latest release", "is now available", "new blog post", "welcome to the",
+          "check out our", "join us",
+        ],
+        weight: 2,
+      },
+      {
+        id: "announcement-channel",
+        kind: "announcement",
+        patterns: ["\\S"],
+        channels: ["announcement", "blog", "hiring", "welcome", "release", "news", "hear-ye", "show-and-tell"],
+        weight: 3,
+      },
+    ],
+  },
+  tags: [],
+  channels: [
+    { match: ["bug"], candidate: true, defaultSeverity: "high" },
+    { match: ["feature"], candidate: true, defaultSeverity: "medium" },
+    { match: ["help"], candidate: true },
+  ],
+};
+
+// Least recently used patterns are evicted first: dry runs compile whatever regexes a caller sends,
+// so the cache must not grow with them.
+const PATTERN_CACHE_SIZE = 256;
+const patternCache = new Map<string, RegExp | null>();
+
+const compilePattern = (pattern: string) => {
+  let compiled = patternCache.get(pattern);
+  if (compiled === undefined) {
+    try {
+      compiled = new RegExp(pattern, "i");
+    } catch {
+      compiled = null;
+    }
+  }
+  patternCache.delete(pattern);
+  patternCache.set(pattern, compiled);
+  if (patternCache.size > PATTERN_CACHE_SIZE) patternCache.delete(patternCache.keys().next().value as string);
+  return compiled;
+};
+
+const channelMatches = (channel: string, needles?: string[]) =>
+  !needles?.length || needles.some((needle) => channel.toLowerCase().includes(needle.toLowerCase()));
+
+type RuleMatch = Omit<RuleHit, "group"> & { phrases: string[] };
+
+const matchRule = (rule: TicketRule, lower: string): RuleMatch | null => {
+  let text = lower;
+  const negated: string[] = [];
+  (rule.negations ?? []).forEach((negation) => {
+    const needle = negation.toLowerCase();
+    if (needle && text.includes(needle)) {
+      negated.push(negation);
+      text = text.split(needle).join(" ");
+    }
+  });
+  const phrases = (rule.phrases ?? []).filter((phrase) => phrase && text.includes(phrase.toLowerCase()));
+  const patterns = (rule.patterns ?? []).filter((pattern) => compilePattern(pattern)?.test(text));
+  if (!phrases.length && !patterns.length && !negated.length) return null;
+  return {
+    ruleId: rule.id,
+    weight: rule.weight ?? 1,
+    matched: [...phrases, ...patterns],
+    phrases,
+    ...(negated.length ? { negated } : {}),
+  };
+};
+
+export const evaluateTicketRules = (rules: TicketRules, input: RuleInput): RuleEvaluation => {
+  const lower = [input.text, ...(input.links ?? [])].join("\n").toLowerCase();
+  const overrides = rules.channels.filter((override) => channelMatches(input.channel, override.match));
+  const disabled = new Set(overrides.flatMap((override) => override.disabledRules ?? []));
+  const hits: RuleHit[] = [];
+  // Rules that only matched inside a negated span, so a dry run can show why they stayed quiet.
+  const suppressed: RuleHit[] = [];
+  // Only literal phrases become keywords; a regex like "\?" says nothing about the topic.
+  const keywords = new Set<string>();
+  const run = <T extends TicketRule>(group: RuleGroup, list: T[]) =>
+    list.flatMap((rule) => {
+      if (disabled.has(rule.id) || !channelMatches(input.channel, rule.channels)) return [];
+      const match = matchRule(rule, lower);
+      if (!match) return [];
+      const { phrases, ...hit } = match;
+      if (!hit.matched.length) {
+        suppressed.push({ group, ...hit });
+        return [];
+      }
+      hits.push({ group, ...hit });
+      if (group !== "tag" && group !== "kind") phrases.forEach((phrase) => keywords.add(phrase));
+      return [{ rule, weight: hit.weight }];
+    });
+
+  const candidateScore = run("candidate", rules.candidate.rules).reduce((acc, { weight }) => acc + weight, 0);
+  const candidate = candidateScore >= rules.candidate.threshold || overrides.some((override) => override.candidate);
+
+  const severityScores = new Map<TicketSeverity, number>();
+  run("severity", rules.severity.rules).forEach(({ rule, weight }) => {
+    severityScores.set(rule.severity, (severityScores.get(rule.severity) ?? 0) + weight);
+  });
+  const matchedSeverity = [...SEVERITIES]
+    .reverse()
+    .find((level) => (severityScores.get(level) ?? 0) >= rules.severity.threshold);
+  let severity = matchedSeverity ?? overrides.find((override) => override.defaultSeverity)?.defaultSeverity ?? "low";
+  overrides.forEach((override) => {
+    if (override.minSeverity && SEVERITIES.indexOf(override.minSeverity) > SEVERITIES.indexOf(severity)) {
+      severity = override.minSeverity;
+    }
+  });
+
+  let docCoverage: TicketDocCoverage = "unknown";
+  if (run("docMention", rules.docCoverage.mentions).length) {
+    const coverageHits = run("docCoverage", rules.docCoverage.rules);
+    docCoverage = coverageHits.some(({ rule }) => rule.coverage === "missing")
+      ? "missing"
+      : coverageHits.some(({ rule }) => rule.coverage === "partial")
+        ? "partial"
+        : "adequate";
+  }
+
+  const kindScores: Partial<Record<TicketKind, number>> = {};
+  run("kind", rules.kind.rules).forEach(({ rule, weight }) => {
+    kindScores[rule.kind] = (kindScores[rule.kind] ?? 0) + weight;
+  });
+  const kind = TICKET_KINDS.reduce<TicketKind | null>(
+    (best, level) => ((kindScores[level] ?? 0) > (best ? kindScores[best] ?? 0 : 0) ? level : best),
+    null,
+  );
+
+  const tags = [...new Set(run("tag", rules.tags).map(({ rule }) => rule.tag))];
+
+  return {
+    candidate,
+    candidateScore,
+    severity,
+    docCoverage,
+    kind: kind ?? rules.kind.default,
+    kindScores,
+    tags,
+    keywords: [...keywords],
+    channelOverrides: overrides.map((override) => override.match.join("|")),
+    hits,
+    suppressed,
+  };
+};
+
+const isStringList = (value: unknown) => Array.isArray(value) && value.every((item) => typeof item === "string");
+
+const validateRuleList = (
+  value: unknown,
+  label: string,
+  errors: string[],
+  extra?: (rule: Record<string, unknown>, at: string) => void,
+) => {
+  if (!Array.isArray(value)) {
+    errors.push(`${label} must be an array.`);
+    return;
+  }
+  const ids = new Set<string>();
+  value.forEach((raw, i) => {
+    const at = `${label}[${i}]`;
+    if (!raw || typeof raw !== "object") {
+      errors.push(`${at} must be an object.`);
+      return;
+    }
+    const rule = raw as Record<string, unknown>;
+    if (typeof rule.id !== "string" || !rule.id) errors.push(`${at}.id must be a non-empty string.`);
+    else if (ids.has(rule.id)) errors.push(`${at}.id "${rule.id}" is duplicated.`);
+    else ids.add(rule.id);
+    (["phrases", "patterns", "negations", "channels"] as const).forEach((key) => {
+      if (rule[key] !== undefined && !isStringList(rule[key])) errors.push(`${at}.${key} must be a list of strings.`);
+    });
+    if (!isStringList(rule.phrases) && !isStringList(rule.patterns)) {
+      errors.push(`${at} needs at least one phrase or pattern.`);
+    }
+    if (isStringList(rule.patterns)) {
+      (rule.patterns as string[]).forEach((pattern) => {
+        if (!compilePattern(pattern)) errors.push(`${at}.patterns has an invalid regex: ${pattern}`);
+      });
+    }
+    if (rule.weight !== undefined && (typeof rule.weight !== "number" || !Number.isFinite(rule.weight))) {
+      errors.push(`${at}.weight must be a number.`);
+    }
+    extra?.(rule, at);
+  });
+};
+
+const isSeverity = (value: unknown): value is TicketSeverity => SEVERITIES.includes(value as TicketSeverity);
+const isKind = (value: unknown): value is TicketKind => TICKET_KINDS.includes(value as TicketKind);
+
+// Returns every problem found rather than stopping at the first, so a rules file can be fixed in one pass.
+export const validateTicketRules = (value: unknown): string[] => {
+  const errors: string[] = [];
+  if (!value || typeof value !== "object") return ["Rules must be a JSON object."];
+  const rules = value as Partial<Record<keyof TicketRules, unknown>>;
+  const candidate = rules.candidate as Partial<TicketRules["candidate"]> | undefined;
+  const severity = rules.severity as Partial<TicketRules["severity"]> | undefined;
+  const docCoverage = rules.docCoverage as Partial<TicketRules["docCoverage"]> | undefined;
+  const kind = rules.kind as Partial<TicketRules["kind"]> | undefined;
+
+  if (candidate !== undefined) {
+    if (candidate.threshold !== undefined && typeof candidate.threshold !== "number") {
+      errors.push("candidate.threshold must be a number.");
+    }
+    if (candidate.rules !== undefined) validateRuleList(candidate.rules, "candidate.rules", errors);
+  }
+  if (severity !== undefined) {
+    if (severity.threshold !== undefined && typeof severity.threshold !== "number") {
+      errors.push("severity.threshold must be a number.");
+    }
+    if (severity.rules !== undefined) {
+      validateRuleList(severity.rules, "severity.rules", errors, (rule, at) => {
+        if (!isSeverity(rule.severity)) errors.push(`${at}.severity must be one of ${SEVERITIES.join(", ")}.`);
+      });
+    }
+  }
+  if (docCoverage !== undefined) {
+    if (docCoverage.mentions !== undefined) validateRuleList(docCoverage.mentions, "docCoverage.mentions", errors);
+    if (docCoverage.rules !== undefined) {
+      validateRuleList(docCoverage.rules, "docCoverage.rules", errors, (rule, at) => {
+        if (rule.coverage !== "missing" && rule.coverage !== "partial") {
+          errors.push(`${at}.coverage must be "missing" or "partial".`);
+        }
+      });
+    }
+  }
+  if (kind !== undefined) {
+    if (kind.default !== undefined && !isKind(kind.default)) {
+      errors.push(`kind.default must be one of ${TICKET_KINDS.join(", ")}.`);
+    }
+    if (kind.rules !== undefined) {
+      validateRuleList(kind.rules, "kind.rules", errors, (rule, at) => {
+        if (!isKind(rule.kind)) errors.push(`${at}.kind must be one of ${TICKET_KINDS.join(", ")}.`);
+      });
+    }
+  }
+  if (rules.tags !== undefined) {
+    validateRuleList(rules.tags, "tags", errors, (rule, at) => {
+      if (typeof rule.tag !== "string" || !rule.tag) errors.push(`${at}.tag must be a non-empty string.`);
+    });
+  }
+  if (rules.channels !== undefined) {
+    if (!Array.isArray(rules.channels)) {
+      errors.push("channels must be an array.");
+    } else {
+      rules.channels.forEach((raw, i) => {
+        const at = `channels[${i}]`;
+        const override = (raw ?? {}) as Partial<Record<keyof ChannelOverride, unknown>>;
+        if (!isStringList(override.match) || !(override.match as string[]).length) {
+          errors.push(`${at}.match must be a non-empty list of strings.`);
+        }
+        if (override.candidate !== undefined && typeof override.candidate !== "boolean") {
+          errors.push(`${at}.candidate must be a boolean.`);
+        }
+        (["defaultSeverity", "minSeverity"] as const).forEach((key) => {
+          if (override[key] !== undefined && !isSeverity(override[key])) errors.push(`${at}.${key} is not a severity.`);
+        });
+        if (override.disabledRules !== undefined && !isStringList(override.disabledRules)) {
+          errors.push(`${at}.disabledRules must be a list of strings.`);
+        }
+      });
+    }
+  }
+  return errors;
+};
+
+// Sections left out of a rules file fall back to the defaults, so a workspace can override
+// just its tags or channels.
+export const normalizeTicketRules = (value: Partial<TicketRules>): TicketRules => ({
+  candidate: { ...DEFAULT_TICKET_RULES.candidate, ...value.candidate },
+  severity: { ...DEFAULT_TICKET_RULES.severity, ...value.severity },
+  docCoverage: { ...DEFAULT_TICKET_RULES.docCoverage, ...value.docCoverage },
+  kind: { ...DEFAULT_TICKET_RULES.kind, ...value.kind },
+  tags: value.tags ?? DEFAULT_TICKET_RULES.tags,
+  channels: value.channels ?? DEFAULT_TICKET_RULES.channels,
+});
+
+export type LoadedTicketRules = {
+  rules: TicketRules;
+  custom: boolean;
+  errors: string[];
+};
+
+export const loadTicketRules = async (rulesPath = RULES_PATH): Promise<LoadedTicketRules> => {
+  let raw: string;
+  try {
+    raw = await fs.readFile(rulesPath, "utf8");
+  } catch {
+    return { rules: DEFAULT_TICKET_RULES, custom: false, errors: [] };
+  }
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (err) {
+    const message = `Rules file is not valid JSON: ${(err as Error).message}`;
+    return { rules: DEFAULT_TICKET_RULES, custom: true, errors: [message] };
+  }
+  const errors = validateTicketRules(parsed);
+  return {
+    rules: errors.length ? DEFAULT_TICKET_RULES : normalizeTicketRules(parsed as Partial<TicketRules>),
+    custom: true,
+    errors,
+  };
+};
+
+export const saveTicketRules = async (rules: TicketRules, rulesPath = RULES_PATH) => {
+  await writeJsonAtomic(rulesPath, rules);
+};
@@ -0,0 +1,106 @@
+import { z } from "zod";
+import { Edge, Ticket, TicketEntities, TicketEvidence, TicketRefinement } from "./types";
+
+export const ticketSeveritySchema = z.enum(["low", "medium", "high", "critical"]);
+export const ticketDocCoverageSchema = z.enum(["missing", "partial", "adequate", "unknown"]);
+export const ticketStatusSchema = z.enum(["open", "answered", "resolved"]);
+export const ticketKindSchema = z.enum(["bug", "question", "feature_request", "doc_gap", "announcement"]);
+export const edgeRelationSchema = z.enum(["duplicate", "same_symbol", "same_doc_gap", "follow_up"]);
+
+const stringList = z.array(z.string());
+
+export const ticketEvidenceSchema: z.ZodType<TicketEvidence> = z.object({
+  messageId: z.string(),
+  channel: z.string(),
+  snippet: z.string(),
+  url: z.string().optional(),
+  author: z.string().optional(),
+  timestamp: z.string().optional(),
+});
+
+export const ticketEntitiesSchema: z.ZodType<TicketEntities> = z.object({
+  languages: stringList.optional(),
+  deployments: stringList.optional(),
+  versions: stringList.optional(),
+  errors: stringList.optional(),
+  symbols: stringList.optional(),
+});
+
+export const ticketRefinementSchema: z.ZodType<TicketRefinement> = z.object({
+  status: z.enum(["refined", "rejected"]),
+  provider: z.string(),
+  model: z.string(),
+  reason: z.string().optional(),
+  message: z.string().optional(),
+  at: z.string(),
+});
+
+export const ticketSchema: z.ZodType<Ticket> = z.object({
+  id: z.string().min(1),
+  title: z.string(),
+  summary: z.string(),
+  severity: ticketSeveritySchema,
+  docCoverage: ticketDocCoverageSchema,
+  kind: ticketKindSchema.optional(),
+  evidence: z.array(ticketEvidenceSchema),
+  affectedItems: stringList.optional(),
+  entities: ticketEntitiesSchema.optional(),
+  reasoning: z.string().optional(),
+  tags: stringList.optional(),
+  channel: z.string().optional(),
+  reactionCount: z.number().nonnegative().optional(),
+  threadId: z.string().optional(),
+  titleCandidates: stringList.optional(),
+  status: ticketStatusSchema.optional(),
+  firstResponseMinutes: z.number().optional(),
+  staffReplied: z.boolean().optional(),
+  askerConfirmed: z.boolean().optional(),
+  occurrenceCount: z.number().int().positive().optional(),
+  firstSeen: z.string().optional(),
+  lastSeen: z.string().optional(),
+  duplicateIds: stringList.optional(),
+  refinement: ticketRefinementSchema.optional(),
+});
+
+export const edgeSchema: z.ZodType<Edge> = z.object({
+  from: z.string(),
+  to: z.string(),
+  rationale: z.string().optional(),
+  relation: edgeRelationSchema.optional(),
+  confidence: z.number().min(0).max(1).optional(),
+  inferred: z.boolean().optional(),
+});
+
+export const channelMarkSchema = z.object({
+  lastMessageId: z.string(),
+  lastTimestamp: z.string().optional(),
+  updatedAt: z.string(),
+});
+
+// Entries are checked one by one when a store is loaded, so one bad ticket does not cost the
+// whole store; only the envelope has to be intact.
+export const knowledgeStoreSchema = z.object({
+  version: z.literal(1),
+  updatedAt: z.string(),
+  ticketsById: z.record(z.unknown()).default({}),
+  edges: z.array(z.unknown()).default([]),
+  channelMarks: z.record(z.unknown()).default({}),
+  aliases: z.record(z.unknown()).default({}),
+});
+
+// What the LLM is asked to return. Blank titles and summaries are rejected rather than stored.
+export const structuredTicketSchema = z.object({
+  title: z.string().trim().min(1).max(200),
+  summary: z.string().trim().min(1),
+  severity: ticketSeveritySchema,
+  docCoverage: ticketDocCoverageSchema,
+  kind: ticketKindSchema.optional(),
+  affectedItems: stringList.optional(),
+  reasoning: z.string().optional(),
+  tags: stringList.optional(),
+});
+
+export type StructuredTicket = z.infer<typeof structuredTicketSchema>;
+
+export const formatSchemaIssues = (error: z.ZodError) =>
+  error.issues.map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`).join("; ");
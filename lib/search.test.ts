@@ -0,0 +1,36 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { createEmbedder } from "./embeddings";
+import { buildSearchIndex, searchIndex } from "./search";
+import { Ticket } from "./types";
+
+const ticket = (id: string, timestamp: string): Ticket => ({
+  id,
+  title: `Index build crash ${id}`,
+  summary: "create_index crashes on an empty table",
+  severity: "high",
+  docCoverage: "unknown",
+  channel: "help",
+  lastSeen: timestamp,
+  evidence: [{ messageId: `${id}-m`, channel: "help", snippet: "create_index crashes", timestamp }],
+});
+
+describe("searchIndex date filters", () => {
+  it("treats a date-only until as the end of that day", async () => {
+    const tickets = [
+      ticket("a", "2026-02-27T09:00:00.000Z"),
+      ticket("b", "2026-02-28T18:30:00.000Z"),
+      ticket("c", "2026-03-01T00:00:00.000Z"),
+    ];
+    const built = await buildSearchIndex(tickets, createEmbedder({ provider: "hashing", model: "hashing-256" }));
+    assert.ok("index" in built);
+    const ids = (filters: { since?: string; until?: string }) => {
+      const hits = searchIndex(built.index, "create_index crash", undefined, filters);
+      return [...new Set(hits.map((hit) => hit.ticketId))].sort();
+    };
+
+    assert.deepEqual(ids({ until: "2026-02-28" }), ["a", "b"]);
+    assert.deepEqual(ids({ since: "2026-02-28", until: "2026-02-28" }), ["b"]);
+    assert.deepEqual(ids({ until: "2026-02-28T12:00:00Z" }), ["a"]);
+  });
+});
@@ -0,0 +1,269 @@
+import { createHash } from "crypto";
+import fs from "fs/promises";
+import { parseSampleBound } from "./discord";
+import { Embedder, EmbeddingProviderName, normalizeVector } from "./embeddings";
+import { LLMFailure } from "./llm";
+import { writeJsonAtomic } from "./persist";
+import { tokenizeWords } from "./segment";
+import { Ticket, TicketSeverity } from "./types";
+
+export type SearchDocumentType = "ticket" | "message";
+
+export type SearchDocument = {
+  id: string;
+  type: SearchDocumentType;
+  ticketId: string;
+  title: string;
+  text: string;
+  textHash: string;
+  severity: TicketSeverity;
+  channel?: string;
+  timestamp?: string;
+  url?: string;
+  vector: number[];
+};
+
+export type SearchIndex = {
+  version: 1;
+  builtAt: string;
+  embedder: { provider: EmbeddingProviderName; model: string };
+  // Per-dimension IDF for hashed vectors; absent for model embeddings.
+  idf?: number[];
+  documents: SearchDocument[];
+};
+
+export type SearchIndexStats = {
+  documents: number;
+  embedded: number;
+  reused: number;
+  embedder: string;
+};
+
+export type SearchFilters = {
+  types?: SearchDocumentType[];
+  channels?: string[];
+  severities?: TicketSeverity[];
+  since?: string;
+  until?: string;
+};
+
+export type SearchResult = Omit<SearchDocument, "vector" | "textHash" | "text"> & {
+  snippet: string;
+  score: number;
+  keywordScore: number;
+  vectorScore: number;
+};
+
+const MAX_MESSAGE_CHARS = 1000;
+
+const textHash = (text: string) => createHash("sha256").update(text).digest("hex").slice(0, 16);
+
+const ticketDocumentText = (ticket: Ticket) =>
+  [ticket.title, ticket.summary, ...(ticket.tags ?? []), ...Object.values(ticket.entities ?? {}).flat()]
+    .filter(Boolean)
+    .join("\n");
+
+// BM25 scores of `docs` (already tokenized) for the query terms.
+export const bm25Scores = (queryTerms: string[], docs: string[][], k1 = 1.2, b = 0.75) => {
+  const terms = [...new Set(queryTerms)];
+  if (!terms.length || !docs.length) return docs.map(() => 0);
+  const avgLength = docs.reduce((sum, doc) => sum + doc.length, 0) / docs.length || 1;
+  const docFreq = new Map<string, number>();
+  docs.forEach((doc) => new Set(doc).forEach((term) => docFreq.set(term, (docFreq.get(term) ?? 0) + 1)));
+  return docs.map((doc) => {
+    const counts = new Map<string, number>();
+    doc.forEach((term) => counts.set(term, (counts.get(term) ?? 0) + 1));
+    return terms.reduce((sum, term) => {
+      const tf = counts.get(term) ?? 0;
+      if (!tf) return sum;
+      const df = docFreq.get(term) ?? 0;
+      const idf = Math.log(1 + (docs.length - df + 0.5) / (df + 0.5));
+      return sum + (idf * tf * (k1 + 1)) / (tf + k1 * (1 - b + (b * doc.length) / avgLength));
+    }, 0);
+  });
+};
+
+const applyIdf = (vector: number[], idf?: number[]) =>
+  idf ? normalizeVector(vector.map((value, i) => value * (idf[i] ?? 1))) : vector;
+
+const roundVector = (vector: number[]) => vector.map((value) => Number(value.toFixed(4)));
+
+// One document per ticket (title, summary, tags, entities) and one per evidence message. Full
+// message content is used when the caller has it; otherwise the text already in the previous
+// index, then the stored snippet. Model embeddings are reused for documents whose text did not
+// change, so a rebuild only pays for new text.
+export const buildSearchIndex = async (
+  tickets: Ticket[],
+  embedder: Embedder,
+  options: { messageContent?: Record<string, string>; previous?: SearchIndex | null; signal?: AbortSignal } = {},
+): Promise<{ index: SearchIndex; stats: SearchIndexStats } | { failure: LLMFailure }> => {
+  const previousDocs = new Map((options.previous?.documents ?? []).map((doc) => [doc.id, doc] as const));
+  const drafts: Array<Omit<SearchDocument, "vector">> = [];
+  const seen = new Set<string>();
+  tickets.forEach((ticket) => {
+    const text = ticketDocumentText(ticket);
+    const lastTimestamp = ticket.lastSeen ?? ticket.evidence[ticket.evidence.length - 1]?.timestamp;
+    drafts.push({
+      id: `ticket:${ticket.id}`,
+      type: "ticket",
+      ticketId: ticket.id,
+      title: ticket.title,
+      text,
+      textHash: textHash(text),
+      severity: ticket.severity,
+      ...(ticket.channel ? { channel: ticket.channel } : {}),
+      ...(lastTimestamp ? { timestamp: lastTimestamp } : {}),
+      ...(ticket.evidence[0]?.url ? { url: ticket.evidence[0].url } : {}),
+    });
+    ticket.evidence.forEach((ev) => {
+      const id = `message:${ev.messageId}`;
+      if (seen.has(id)) return;
+      seen.add(id);
+      const content = options.messageContent?.[ev.messageId] ?? previousDocs.get(id)?.text ?? ev.snippet;
+      const messageText = content.slice(0, MAX_MESSAGE_CHARS);
+      if (!messageText.trim()) return;
+      drafts.push({
+        id,
+        type: "message",
+        ticketId: ticket.id,
+        title: ticket.title,
+        text: messageText,
+        textHash: textHash(messageText),
+        severity: ticket.severity,
+        channel: ev.channel,
+        ...(ev.timestamp ? { timestamp: ev.timestamp } : {}),
+        ...(ev.url ? { url: ev.url } : {}),
+      });
+    });
+  });
+
+  const hashed = embedder.name === "hashing";
+  const sameEmbedder =
+    !hashed &&
+    options.previous?.embedder.provider === embedder.name &&
+    options.previous?.embedder.model === embedder.model;
+  const reusable = (draft: Omit<SearchDocument, "vector">) => {
+    const prev = sameEmbedder ? previousDocs.get(draft.id) : undefined;
+    return prev?.textHash === draft.textHash ? prev.vector : undefined;
+  };
+  const pending = drafts.filter((draft) => !reusable(draft));
+  const embedded = await embedder.embed(
+    pending.map((draft) => `${draft.title}\n${draft.text}`),
+    options.signal,
+  );
+  if (!embedded.ok) return { failure: embedded.failure };
+  const fresh = new Map(pending.map((draft, i) => [draft.id, embedded.vectors[i]] as const));
+  let documents: SearchDocument[] = drafts.map((draft) => ({
+    ...draft,
+    vector: reusable(draft) ?? fresh.get(draft.id) ?? [],
+  }));
+
+  let idf: number[] | undefined;
+  if (hashed && documents.length) {
+    const dimensions = documents[0].vector.length;
+    const docFreq = new Array<number>(dimensions).fill(0);
+    documents.forEach((doc) => doc.vector.forEach((value, i) => (docFreq[i] += value !== 0 ? 1 : 0)));
+    idf = docFreq.map((df) => Number((Math.log((documents.length + 1) / (df + 1)) + 1).toFixed(4)));
+    documents = documents.map((doc) => ({ ...doc, vector: applyIdf(doc.vector, idf) }));
+  }
+
+  return {
+    index: {
+      version: 1,
+      builtAt: new Date().toISOString(),
+      embedder: { provider: embedder.name, model: embedder.model },
+      ...(idf ? { idf } : {}),
+      documents: documents.map((doc) => ({ ...doc, vector: roundVector(doc.vector) })),
+    },
+    stats: {
+      documents: documents.length,
+      embedded: pending.length,
+      reused: drafts.length - pending.length,
+      embedder: `${embedder.name}:${embedder.model}`,
+    },
+  };
+};
+
+const cosine = (a: number[], b: number[]) => {
+  let dot = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) dot += a[i] * b[i];
+  return dot;
+};
+
+const matchesFilters = (doc: SearchDocument, filters: SearchFilters) => {
+  if (filters.types?.length && !filters.types.includes(doc.type)) return false;
+  if (filters.severities?.length && !filters.severities.includes(doc.severity)) return false;
+  if (filters.channels?.length) {
+    const channel = doc.channel?.toLowerCase();
+    if (!channel || !filters.channels.some((name) => name.toLowerCase() === channel)) return false;
+  }
+  const since = parseSampleBound(filters.since, "start");
+  const until = parseSampleBound(filters.until, "end");
+  if (since !== undefined || until !== undefined) {
+    const time = doc.timestamp ? Date.parse(doc.timestamp) : NaN;
+    if (Number.isNaN(time)) return false;
+    if (since !== undefined && time < since) return false;
+    if (until !== undefined && time > until) return false;
+  }
+  return true;
+};
+
+// Hybrid ranking: `alpha` weighs cosine similarity against BM25 scaled to the best keyword hit
+// among the filtered documents. alpha=0 is keyword-only, alpha=1 vector-only. Without a query
+// vector the search is keyword-only.
+export const searchIndex = (
+  index: SearchIndex,
+  query: string,
+  queryVector: number[] | undefined,
+  options: SearchFilters & { limit?: number; alpha?: number } = {},
+): SearchResult[] => {
+  const { limit = 20 } = options;
+  const alpha = queryVector ? options.alpha ?? 0.5 : 0;
+  const candidates = index.documents.filter((doc) => matchesFilters(doc, options));
+  const keyword = bm25Scores(
+    tokenizeWords(query),
+    candidates.map((doc) => tokenizeWords(`${doc.title}\n${doc.text}`)),
+  );
+  const maxKeyword = Math.max(0, ...keyword);
+  const vector = queryVector ? applyIdf(queryVector, index.idf) : undefined;
+
+  return candidates
+    .map((doc, i) => {
+      const keywordScore = maxKeyword ? keyword[i] / maxKeyword : 0;
+      const vectorScore = vector ? Math.max(0, cosine(vector, doc.vector)) : 0;
+      return { doc, keywordScore, vectorScore, score: alpha * vectorScore + (1 - alpha) * keywordScore };
+    })
+    .filter((hit) => hit.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ doc, keywordScore, vectorScore, score }) => {
+      const rest: Partial<SearchDocument> = { ...doc };
+      delete rest.vector;
+      delete rest.textHash;
+      delete rest.text;
+      return {
+        ...(rest as Omit<SearchDocument, "vector" | "textHash" | "text">),
+        snippet: doc.text.slice(0, 280),
+        score: Number(score.toFixed(4)),
+        keywordScore: Number(keywordScore.toFixed(4)),
+        vectorScore: Number(vectorScore.toFixed(4)),
+      };
+    });
+};
+
+export const loadSearchIndex = async (indexPath: string): Promise<SearchIndex | null> => {
+  try {
+    const raw = JSON.parse(await fs.readFile(indexPath, "utf8")) as SearchIndex;
+    return raw?.version === 1 && Array.isArray(raw.documents) ? raw : null;
+  } catch {
+    return null;
+  }
+};
+
+export const saveSearchIndex = async (index: SearchIndex, indexPath: string) => {
+  await writeJsonAtomic(indexPath, index, 0);
+};
+
+export const clearSearchIndex = async (indexPath: string) => {
+  await fs.rm(indexPath, { force: true });
+};
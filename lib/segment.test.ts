@@ -0,0 +1,75 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { DEFAULT_MAX_MESSAGES_PER_SEGMENT, segmentConversations } from "./segment";
+import { DiscordMessage } from "./types";
+
+const message = (
+  id: string,
+  author: string,
+  content: string,
+  minute: number,
+  extra: Partial<DiscordMessage> = {},
+): DiscordMessage => ({
+  id,
+  channel: "help",
+  author,
+  content,
+  timestamp: new Date(Date.UTC(2026, 0, 1, 10, minute)).toISOString(),
+  links: [],
+  file: "help.json",
+  ...extra,
+});
+
+const groups = (messages: DiscordMessage[], config = {}) =>
+  segmentConversations(messages, config).map((segment) => segment.messages.map((msg) => msg.id));
+
+describe("segmentConversations", () => {
+  it("keeps a back-and-forth on one topic together", () => {
+    assert.deepEqual(
+      groups([
+        message("1", "ann", "create_index crashes on my empty table, any idea?", 0),
+        message("2", "bob", "Does create_index crash with IVF_PQ on an empty table for you too?", 2),
+        message("3", "ann", "Yes, the empty table create_index crash happens with IVF_PQ.", 3),
+      ]),
+      [["1", "2", "3"]],
+    );
+  });
+
+  it("starts a new conversation after a gap longer than maxGapMinutes", () => {
+    assert.deepEqual(
+      groups(
+        [
+          message("1", "ann", "create_index crashes on my empty table", 0),
+          message("2", "ann", "create_index still crashes on the empty table", 40),
+        ],
+        { maxGapMinutes: 30 },
+      ),
+      [["1"], ["2"]],
+    );
+  });
+
+  it("chains replies regardless of gap or wording", () => {
+    assert.deepEqual(
+      groups([
+        message("1", "ann", "create_index crashes on my empty table", 0),
+        message("2", "cy", "Unrelated: is the meetup on Friday?", 1),
+        message("3", "bob", "Fixed in 0.5", 300, { replyToId: "1" }),
+        message("4", "ann", "Thanks!", 301, { replyToId: "3" }),
+      ]),
+      [["1", "3", "4"], ["2"]],
+    );
+  });
+
+  it("caps a conversation at maxMessagesPerSegment and spills over into a new one", () => {
+    const chain = Array.from({ length: DEFAULT_MAX_MESSAGES_PER_SEGMENT + 2 }, (_, i) =>
+      message(`${i + 1}`, i % 2 ? "bob" : "ann", `step ${i + 1}`, i, i ? { replyToId: `${i}` } : {}),
+    );
+    const segments = segmentConversations(chain);
+    assert.equal(segments[0].messages.length, DEFAULT_MAX_MESSAGES_PER_SEGMENT);
+    assert.equal(segments.reduce((acc, segment) => acc + segment.messages.length, 0), chain.length);
+    assert.deepEqual(
+      groups(chain.slice(0, 4), { maxMessagesPerSegment: 2 }).map((ids) => ids.length),
+      [2, 2],
+    );
+  });
+});
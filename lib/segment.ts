@@ -0,0 +1,322 @@
+import { extractCodeFingerprints } from "./fingerprints";
+import { stripCodeBlocks } from "./markdown";
+import { DiscordMessage } from "./types";
+
+export type LinkReason =
+  | "reply"
+  | "thread"
+  | "mention"
+  | "turn-taking"
+  | "same-author"
+  | "fingerprint"
+  | "lexical"
+  | "recency";
+
+export type SegmentLink = {
+  from: string;
+  to: string;
+  score: number;
+  reasons: LinkReason[];
+};
+
+export type ConversationSegment = {
+  id: string;
+  channel: string;
+  threadId?: string;
+  messages: DiscordMessage[];
+  links: SegmentLink[];
+};
+
+export type LinkWeights = {
+  mention: number;
+  turnTaking: number;
+  sameAuthor: number;
+  fingerprint: number;
+  lexical: number;
+  recency: number;
+};
+
+export type SegmentationConfig = {
+  linkThreshold?: number;
+  maxGapMinutes?: number;
+  maxMessagesPerSegment?: number;
+  compareLast?: number;
+  weights?: Partial<LinkWeights>;
+};
+
+const DEFAULT_LINK_WEIGHTS: LinkWeights = {
+  mention: 0.45,
+  turnTaking: 0.2,
+  sameAuthor: 0.25,
+  fingerprint: 0.45,
+  lexical: 0.6,
+  recency: 0.25,
+};
+
+const stopWords = new Set([
+  "the", "and", "for", "are", "but", "not", "you", "your", "with", "this", "that", "have", "has",
+  "was", "were", "can", "could", "would", "should", "will", "just", "any", "all", "its", "it's",
+  "what", "when", "how", "why", "who", "there", "here", "from", "into", "about", "also", "then",
+  "than", "some", "one", "get", "got", "use", "using", "like", "does", "did", "doing", "i'm",
+  "thanks", "thank", "yes", "yeah", "ok", "okay", "hey", "hi", "hello",
+]);
+
+// Lowercased content words in order, without code blocks, links or stop words.
+export const tokenizeWords = (text: string) =>
+  stripCodeBlocks(text)
+    .toLowerCase()
+    .replace(/https?:\/\/\S+/g, " ")
+    .split(/[^a-z0-9_'.-]+/)
+    .map((token) => token.replace(/^[.'-]+|[.'-]+$/g, ""))
+    .filter((token) => token.length >= 3 && !stopWords.has(token));
+
+const tokenize = (text: string) => new Set(tokenizeWords(text));
+
+const jaccard = (a: Set<string>, b: Set<string>) => {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  a.forEach((token) => {
+    if (b.has(token)) shared += 1;
+  });
+  return shared / (a.size + b.size - shared);
+};
+
+const getTime = (msg: DiscordMessage) => {
+  const t = msg.timestamp ? new Date(msg.timestamp).getTime() : Number.NaN;
+  return Number.isNaN(t) ? 0 : t;
+};
+
+const sameName = (a?: string, b?: string) =>
+  Boolean(a && b) && (a ?? "").trim().toLowerCase() === (b ?? "").trim().toLowerCase();
+
+type MessageFeatures = {
+  tokens: Set<string>;
+  fingerprints: Set<string>;
+};
+
+// Scores how likely `next` continues the conversation that `prev` belongs to. `participants`
+// are the authors already in that conversation, which is what makes turn-taking visible.
+export const scoreMessageLink = (
+  prev: DiscordMessage,
+  next: DiscordMessage,
+  participants: Set<string>,
+  weights: LinkWeights = DEFAULT_LINK_WEIGHTS,
+  features?: { prev: MessageFeatures; next: MessageFeatures },
+): SegmentLink => {
+  if (next.replyToId === prev.id) return { from: prev.id, to: next.id, score: 1, reasons: ["reply"] };
+  const prevFeatures = features?.prev ?? { tokens: tokenize(prev.content), fingerprints: extractCodeFingerprints(prev) };
+  const nextFeatures = features?.next ?? { tokens: tokenize(next.content), fingerprints: extractCodeFingerprints(next) };
+  const gapMinutes = Math.abs(getTime(next) - getTime(prev)) / 60000;
+  const contributions: Array<[LinkReason, number]> = [];
+
+  const mentioned =
+    (next.mentions ?? []).some((name) => sameName(name, prev.author)) ||
+    (prev.mentions ?? []).some((name) => sameName(name, next.author));
+  if (mentioned) contributions.push(["mention", weights.mention]);
+
+  const sameAuthor = sameName(prev.author, next.author);
+  if (sameAuthor && gapMinutes <= 5) contributions.push(["same-author", weights.sameAuthor]);
+  if (!sameAuthor && (participants.has((next.author ?? "").toLowerCase()) || /\?\s*$/.test(prev.content.trim()))) {
+    contributions.push(["turn-taking", weights.turnTaking]);
+  }
+
+  const sharedFingerprints = [...nextFeatures.fingerprints].filter((fp) => prevFeatures.fingerprints.has(fp)).length;
+  if (sharedFingerprints) contributions.push(["fingerprint", weights.fingerprint * Math.min(1, sharedFingerprints / 2)]);
+
+  const similarity = jaccard(prevFeatures.tokens, nextFeatures.tokens);
+  if (similarity > 0) contributions.push(["lexical", weights.lexical * Math.min(1, similarity * 2.5)]);
+
+  const recency = Math.max(0, 1 - gapMinutes / 30);
+  if (recency > 0) contributions.push(["recency", weights.recency * recency]);
+
+  const score = Math.min(1, contributions.reduce((acc, [, value]) => acc + value, 0));
+  return {
+    from: prev.id,
+    to: next.id,
+    score: Number(score.toFixed(3)),
+    reasons: contributions.filter(([, value]) => value > 0).map(([reason]) => reason),
+  };
+};
+
+type OpenSegment = ConversationSegment & {
+  participants: Set<string>;
+  lastTime: number;
+};
+
+export const DEFAULT_MAX_MESSAGES_PER_SEGMENT = 12;
+
+// Walks messages in time order and attaches each one to the best-scoring open conversation in
+// its channel. Replies and thread membership are definitive; otherwise a message whose best link
+// scores below the threshold is treated as a topic shift and starts a new conversation.
+export const segmentConversations = (
+  messages: DiscordMessage[],
+  config: SegmentationConfig = {},
+): ConversationSegment[] => {
+  const {
+    linkThreshold = 0.35,
+    maxGapMinutes = 180,
+    maxMessagesPerSegment = DEFAULT_MAX_MESSAGES_PER_SEGMENT,
+    compareLast = 4,
+  } = config;
+  const weights = { ...DEFAULT_LINK_WEIGHTS, ...config.weights };
+  const sorted = [...messages].sort((a, b) => getTime(a) - getTime(b));
+  const segments: OpenSegment[] = [];
+  const segmentByMessageId = new Map<string, OpenSegment>();
+  const segmentByThreadId = new Map<string, OpenSegment>();
+  const openByChannel = new Map<string, OpenSegment[]>();
+  const featureCache = new Map<string, MessageFeatures>();
+  const featuresOf = (msg: DiscordMessage) => {
+    let cached = featureCache.get(msg.id);
+    if (!cached) {
+      cached = { tokens: tokenize(msg.content), fingerprints: extractCodeFingerprints(msg) };
+      featureCache.set(msg.id, cached);
+    }
+    return cached;
+  };
+
+  const attach = (segment: OpenSegment, msg: DiscordMessage, link?: SegmentLink) => {
+    segment.messages.push(msg);
+    if (link) segment.links.push(link);
+    if (msg.author) segment.participants.add(msg.author.toLowerCase());
+    segment.lastTime = getTime(msg);
+    segmentByMessageId.set(msg.id, segment);
+  };
+
+  const open = (msg: DiscordMessage) => {
+    const segment: OpenSegment = {
+      id: msg.id,
+      channel: msg.channel,
+      ...(msg.threadId ? { threadId: msg.threadId } : {}),
+      messages: [],
+      links: [],
+      participants: new Set(),
+      lastTime: getTime(msg),
+    };
+    segments.push(segment);
+    attach(segment, msg);
+    if (msg.threadId) {
+      segmentByThreadId.set(msg.threadId, segment);
+    } else {
+      openByChannel.set(msg.channel, [...(openByChannel.get(msg.channel) ?? []), segment]);
+    }
+  };
+
+  sorted.forEach((msg) => {
+    if (msg.system) {
+      // A new thread starts a new conversation, as in the window heuristic.
+      if (msg.system.kind === "thread_created") openByChannel.delete(msg.channel);
+      return;
+    }
+
+    if (msg.threadId) {
+      const thread = segmentByThreadId.get(msg.threadId);
+      if (thread) {
+        const prev = thread.messages[thread.messages.length - 1];
+        attach(thread, msg, { from: prev.id, to: msg.id, score: 1, reasons: ["thread"] });
+      } else {
+        open(msg);
+      }
+      return;
+    }
+
+    const replyTarget = msg.replyToId ? segmentByMessageId.get(msg.replyToId) : undefined;
+    if (replyTarget && !replyTarget.threadId && replyTarget.messages.length < maxMessagesPerSegment) {
+      attach(replyTarget, msg, { from: msg.replyToId!, to: msg.id, score: 1, reasons: ["reply"] });
+      return;
+    }
+
+    const time = getTime(msg);
+    const candidates = (openByChannel.get(msg.channel) ?? []).filter(
+      (segment) => time - segment.lastTime <= maxGapMinutes * 60000,
+    );
+    openByChannel.set(msg.channel, candidates);
+
+    let best: { segment: OpenSegment; link: SegmentLink } | null = null;
+    for (const segment of candidates) {
+      if (segment.messages.length >= maxMessagesPerSegment) continue;
+      for (const prev of segment.messages.slice(-compareLast)) {
+        const link = scoreMessageLink(prev, msg, segment.participants, weights, {
+          prev: featuresOf(prev),
+          next: featuresOf(msg),
+        });
+        if (!best || link.score > best.link.score) best = { segment, link };
+      }
+    }
+
+    if (best && best.link.score >= linkThreshold) {
+      attach(best.segment, msg, best.link);
+    } else {
+      open(msg);
+    }
+  });
+
+  return segments.map((segment) => ({
+    id: segment.id,
+    channel: segment.channel,
+    ...(segment.threadId ? { threadId: segment.threadId } : {}),
+    messages: segment.messages,
+    links: segment.links,
+  }));
+};
+
+export type SegmentationStats = {
+  groups: number;
+  messagesCovered: number;
+  avgMessagesPerGroup: number;
+  singleAuthorGroups: number;
+};
+
+export type SegmentationComparison = {
+  baseline: SegmentationStats;
+  candidate: SegmentationStats;
+  sharedPairs: number;
+  pairPrecision: number;
+  pairRecall: number;
+  pairF1: number;
+};
+
+const groupStats = (groups: DiscordMessage[][]): SegmentationStats => {
+  const messagesCovered = groups.reduce((acc, group) => acc + group.length, 0);
+  return {
+    groups: groups.length,
+    messagesCovered,
+    avgMessagesPerGroup: groups.length ? Number((messagesCovered / groups.length).toFixed(2)) : 0,
+    singleAuthorGroups: groups.filter((group) => new Set(group.map((m) => m.author)).size <= 1).length,
+  };
+};
+
+const samePairs = (groups: DiscordMessage[][]) => {
+  const pairs = new Set<string>();
+  groups.forEach((group) => {
+    const ids = group.map((m) => m.id).sort();
+    for (let i = 0; i < ids.length; i++) {
+      for (let j = i + 1; j < ids.length; j++) pairs.add(`${ids[i]}::${ids[j]}`);
+    }
+  });
+  return pairs;
+};
+
+// Pairwise agreement: how many "these two messages belong together" decisions the candidate
+// grouping shares with the baseline.
+export const compareSegmentations = (
+  baseline: DiscordMessage[][],
+  candidate: DiscordMessage[][],
+): SegmentationComparison => {
+  const baselinePairs = samePairs(baseline);
+  const candidatePairs = samePairs(candidate);
+  let sharedPairs = 0;
+  candidatePairs.forEach((pair) => {
+    if (baselinePairs.has(pair)) sharedPairs += 1;
+  });
+  const pairPrecision = candidatePairs.size ? sharedPairs / candidatePairs.size : 0;
+  const pairRecall = baselinePairs.size ? sharedPairs / baselinePairs.size : 0;
+  const pairF1 = pairPrecision + pairRecall ? (2 * pairPrecision * pairRecall) / (pairPrecision + pairRecall) : 0;
+  return {
+    baseline: groupStats(baseline),
+    candidate: groupStats(candidate),
+    sharedPairs,
+    pairPrecision: Number(pairPrecision.toFixed(3)),
+    pairRecall: Number(pairRecall.toFixed(3)),
+    pairF1: Number(pairF1.toFixed(3)),
+  };
+};
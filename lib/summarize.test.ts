@@ -0,0 +1,67 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { summarizeConversation } from "./summarize";
+
+describe("summarizeConversation", () => {
+  const conversation = [
+    {
+      author: "ann",
+      content:
+        "Hi all, quick question. The create_index call crashes with ValueError on empty tables. " +
+        "I use lancedb 0.5 on Linux.",
+    },
+    { author: "bob", content: "Thanks! Upgrade to 0.6, the empty table bug was fixed there." },
+    { author: "ann", content: "thanks so much!" },
+  ];
+
+  it("titles the conversation with the asker's best-ranked sentence", () => {
+    const summary = summarizeConversation(conversation);
+    assert.equal(summary?.title, "The create_index call crashes with ValueError on empty tables.");
+  });
+
+  it("pairs the problem with the best reply", () => {
+    const summary = summarizeConversation(conversation);
+    assert.equal(
+      summary?.summary,
+      "The create_index call crashes with ValueError on empty tables. I use lancedb 0.5 on Linux. " +
+        "Answer: Upgrade to 0.6, the empty table bug was fixed there.",
+    );
+  });
+
+  it("prefers a sentence naming a known entity", () => {
+    const summary = summarizeConversation(
+      [{ author: "ann", content: "The build is slow on my laptop today. Calling optimize_table never returns." }],
+      { entities: { symbols: ["optimize_table"] } },
+    );
+    assert.equal(summary?.title, "Calling optimize_table never returns.");
+  });
+
+  it("drops greetings, thanks and filler openers", () => {
+    const summary = summarizeConversation([
+      { author: "ann", content: "Hello everyone! Quick question. Thanks in advance." },
+      { author: "ann", content: "Hey team, the python client hangs on connect." },
+    ]);
+    assert.equal(summary?.title, "the python client hangs on connect.");
+    assert.doesNotMatch(summary?.summary ?? "", /thanks|quick question/i);
+  });
+
+  it("returns nothing when every sentence is a pleasantry", () => {
+    assert.equal(
+      summarizeConversation([
+        { author: "ann", content: "thanks!" },
+        { author: "bob", content: "makes sense!" },
+        { author: "ann", content: "ok" },
+      ]),
+      undefined,
+    );
+  });
+
+  it("truncates long titles on a word boundary", () => {
+    const summary = summarizeConversation(
+      [{ author: "ann", content: `The ingestion job fails ${"while reading parquet files ".repeat(6)}from S3.` }],
+      { maxTitleLength: 40 },
+    );
+    assert.ok(summary && summary.title.length <= 43);
+    assert.match(summary.title, /\w\.\.\.$/);
+  });
+});
@@ -0,0 +1,160 @@
+import { entityKeys } from "./entities";
+import { extractErrorSignatures } from "./fingerprints";
+import { stripCodeBlocks } from "./markdown";
+import { tokenizeWords } from "./segment";
+import { DiscordMessage, TicketEntities } from "./types";
+
+export type ConversationSummary = {
+  title: string;
+  summary: string;
+};
+
+export type SummarizeConfig = {
+  asker?: string;
+  entities?: TicketEntities;
+  maxTitleLength?: number;
+  maxSummaryLength?: number;
+};
+
+type Sentence = {
+  text: string;
+  words: Set<string>;
+  fromAsker: boolean;
+  order: number;
+};
+
+const acknowledgements = [
+  "thanks?", "thank you", "thx", "ty", "cheers", "much appreciated", "np", "no problem", "you're welcome",
+  "awesome", "great", "cool", "nice", "perfect", "got it", "makes sense", "sounds good", "ok(?:ay)?", "yes",
+  "yeah", "yep", "no", "nope", "lol", "haha",
+];
+const acknowledgementRegex = new RegExp(
+  `^(?:${acknowledgements.join("|")})\\b[\\s!.,:)]*(?:so much|a lot|again|for (?:the|your) help)?[\\s!.,:)]*$`,
+  "i",
+);
+const greetingRegex =
+  /^(?:hey|hi|hello|yo|good (?:morning|afternoon|evening))(?: (?:all|everyone|guys|folks|team|there))?\b[\s,!.:-]*/i;
+const fillerPhrases = [
+  "quick question",
+  "question for (?:you|the team)",
+  "any (?:help|ideas|pointers)(?: would be)? (?:is |are )?appreciated",
+  "thanks in advance",
+  "hope (?:you're|everyone is) (?:well|doing well)",
+  "not sure if this is the right (?:place|channel)",
+];
+const fillerRegex = new RegExp(`\\b(?:${fillerPhrases.join("|")})\\b`, "i");
+
+const cleanText = (text: string) =>
+  text
+    .replace(/<[@#][!&]?\d+>/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+
+const splitSentences = (text: string) =>
+  stripCodeBlocks(text)
+    .split(/\n+/)
+    .flatMap((line) => cleanText(line).split(/(?<=[.!?])\s+(?=[A-Z0-9`"'(])/))
+    .map((sentence) => sentence.replace(greetingRegex, "").trim())
+    .filter(Boolean);
+
+// Greetings, thanks and "quick question" openers say nothing about the issue.
+const isPleasantry = (sentence: string, words: Set<string>) =>
+  words.size < 2 || acknowledgementRegex.test(sentence) || (fillerRegex.test(sentence) && words.size < 6);
+
+// TextRank's overlap similarity: shared words, normalised by sentence length so long sentences
+// do not win on size alone.
+const similarity = (a: Set<string>, b: Set<string>) => {
+  if (a.size < 2 || b.size < 2) return 0;
+  let shared = 0;
+  a.forEach((word) => {
+    if (b.has(word)) shared += 1;
+  });
+  return shared / (Math.log(a.size) + Math.log(b.size));
+};
+
+const textRank = (sentences: Sentence[], damping = 0.85, iterations = 30) => {
+  const n = sentences.length;
+  const weights = sentences.map((a, i) => sentences.map((b, j) => (i === j ? 0 : similarity(a.words, b.words))));
+  const outTotals = weights.map((row) => row.reduce((acc, value) => acc + value, 0));
+  let scores = new Array<number>(n).fill(1 / Math.max(1, n));
+  for (let iter = 0; iter < iterations; iter++) {
+    scores = scores.map((_, i) => {
+      let incoming = 0;
+      for (let j = 0; j < n; j++) {
+        if (weights[j][i] && outTotals[j]) incoming += (weights[j][i] / outTotals[j]) * scores[j];
+      }
+      return (1 - damping) / n + damping * incoming;
+    });
+  }
+  return scores;
+};
+
+const truncate = (text: string, max: number) => {
+  if (text.length <= max) return text;
+  const cut = text.slice(0, max);
+  const space = cut.lastIndexOf(" ");
+  return `${(space > max * 0.6 ? cut.slice(0, space) : cut).trimEnd()}...`;
+};
+
+const mentionsEntity = (sentence: string, names: string[]) => {
+  if (extractErrorSignatures(sentence).length) return true;
+  const lower = sentence.toLowerCase();
+  return names.some((name) => lower.includes(name));
+};
+
+// Ranks every sentence in the conversation with TextRank. The title is the asker's best sentence,
+// nudged towards ones naming an error or API symbol; the summary pairs the asker's top sentences
+// with the best-ranked reply, so it covers both the problem and the answer. The asker defaults to
+// the first author.
+export const summarizeConversation = (
+  messages: Array<Pick<DiscordMessage, "author" | "content">>,
+  config: SummarizeConfig = {},
+): ConversationSummary | undefined => {
+  const { maxTitleLength = 90, maxSummaryLength = 320 } = config;
+  const asker = (config.asker ?? messages[0]?.author)?.trim().toLowerCase();
+  const sentences: Sentence[] = [];
+  const seen = new Set<string>();
+  messages.forEach((msg) => {
+    const fromAsker = !asker || msg.author?.trim().toLowerCase() === asker;
+    splitSentences(msg.content).forEach((text) => {
+      const words = new Set(tokenizeWords(text));
+      if (isPleasantry(text, words) || seen.has(text.toLowerCase())) return;
+      seen.add(text.toLowerCase());
+      sentences.push({ text, words, fromAsker, order: sentences.length });
+    });
+  });
+  if (!sentences.length) return undefined;
+
+  const scores = textRank(sentences);
+  const entityNames = entityKeys(config.entities).map((key) => key.slice(key.indexOf(":") + 1).toLowerCase());
+  const ranked = sentences
+    .map((sentence, i) => ({ sentence, score: scores[i] }))
+    .sort((a, b) => b.score - a.score || a.sentence.order - b.sentence.order);
+  const askerRanked = ranked.filter(({ sentence }) => sentence.fromAsker);
+  const replyRanked = ranked.filter(({ sentence }) => !sentence.fromAsker);
+
+  // The opening message usually states the problem, so earlier sentences get a head start.
+  const titleCandidates = (askerRanked.length ? askerRanked : ranked).map(({ sentence, score }) => ({
+    sentence,
+    score:
+      score *
+      (1 + 1 / (1 + sentence.order)) *
+      (mentionsEntity(sentence.text, entityNames) ? 1.5 : 1) *
+      (/\?$/.test(sentence.text) ? 1.2 : 1) *
+      (sentence.text.length > maxTitleLength * 2 ? 0.7 : 1),
+  }));
+  const title = titleCandidates.sort((a, b) => b.score - a.score || a.sentence.order - b.sentence.order)[0];
+
+  const problem = (askerRanked.length ? askerRanked : ranked)
+    .slice(0, 2)
+    .map(({ sentence }) => sentence)
+    .sort((a, b) => a.order - b.order)
+    .map((sentence) => sentence.text);
+  const answer = replyRanked[0]?.sentence.text;
+  const answerText = answer ? ` Answer: ${truncate(answer, Math.floor(maxSummaryLength / 2))}` : "";
+
+  return {
+    title: truncate(title.sentence.text, maxTitleLength),
+    summary: `${truncate(problem.join(" "), maxSummaryLength - answerText.length)}${answerText}`,
+  };
+};
@@ -0,0 +1,234 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { LLMProvider } from "./llm";
+import {
+  buildTicketsFromMessages,
+  extendTicketsAcrossBoundary,
+  refineTicketsWithLLM,
+  ticketJsonSchema,
+} from "./tickets";
+import { DiscordMessage, Ticket } from "./types";
+
+const message = (id: string, author: string, content: string, minute: number): DiscordMessage => ({
+  id,
+  channel: "bug-reports",
+  author,
+  content,
+  timestamp: new Date(Date.UTC(2026, 0, 1, 10, minute)).toISOString(),
+  links: [],
+  file: "bug-reports.json",
+});
+
+describe("buildTicketsFromMessages", () => {
+  it("falls back to the opening message when the summarizer finds only pleasantries", async () => {
+    const { tickets } = await buildTicketsFromMessages(
+      [message("1", "ann", "workarounds?", 0), message("2", "bob", "makes sense!", 1)],
+      { edges: false },
+    );
+    assert.equal(tickets.length, 1);
+    assert.equal(tickets[0].title, "workarounds?");
+    assert.notEqual(tickets[0].summary, "No summary available.");
+    assert.match(tickets[0].summary, /^workarounds/);
+  });
+});
+
+describe("buildTicketsFromMessages response state", () => {
+  const roster = { staff: ["Will"], bots: ["helperbot"] };
+  const question = message("1", "ann", "create_index crashes on an empty table", 0);
+  const reply = (id: string, author: string, content: string, minute: number, replyToId: string) => ({
+    ...message(id, author, content, minute),
+    replyToId,
+  });
+  const state = async (messages: DiscordMessage[]) => {
+    const { tickets } = await buildTicketsFromMessages(messages, { edges: false, roster });
+    assert.equal(tickets.length, 1);
+    const { status, firstResponseMinutes, staffReplied, askerConfirmed } = tickets[0];
+    return { status, firstResponseMinutes, staffReplied, askerConfirmed };
+  };
+
+  it("stays open when only bots and the asker have posted", async () => {
+    assert.deepEqual(
+      await state([
+        question,
+        reply("2", "HelperBot", "Did you try the docs?", 1, "1"),
+        reply("3", "ann", "anyone?", 3, "2"),
+      ]),
+      { status: "open", firstResponseMinutes: undefined, staffReplied: false, askerConfirmed: false },
+    );
+  });
+
+  it("is answered once someone else replies, timing the first response", async () => {
+    assert.deepEqual(await state([question, reply("2", "bob", "Same crash here", 4, "1")]), {
+      status: "answered",
+      firstResponseMinutes: 4,
+      staffReplied: false,
+      askerConfirmed: false,
+    });
+  });
+
+  it("is resolved when the asker confirms a staff answer worked", async () => {
+    assert.deepEqual(
+      await state([
+        question,
+        reply("2", "will", "Upgrade to 0.5", 7, "1"),
+        reply("3", "ann", "Thanks, that worked!", 9, "2"),
+      ]),
+      { status: "resolved", firstResponseMinutes: 7, staffReplied: true, askerConfirmed: true },
+    );
+  });
+});
+
+describe("buildTicketsFromMessages thread boundaries", () => {
+  const thread = { threadId: "th", threadTitle: "Date filters" };
+
+  it("keeps a thread's messages together and apart from the parent channel", async () => {
+    const { tickets } = await buildTicketsFromMessages(
+      [
+        message("1", "ann", "create_index crashes on an empty table", 0),
+        { ...message("2", "bob", "How do I filter search results by date?", 1), ...thread },
+        message("3", "ann", "It still crashes after upgrading", 2),
+        { ...message("4", "cy", "Use a where clause on the timestamp column", 3), ...thread },
+      ],
+      { edges: false },
+    );
+    assert.deepEqual(
+      tickets.map((ticket) => [ticket.threadId, ticket.evidence.map((ev) => ev.messageId)]),
+      [
+        [undefined, ["1", "3"]],
+        ["th", ["2", "4"]],
+      ],
+    );
+    assert.match(tickets[1].reasoning ?? "", /\(thread "Date filters"\)/);
+  });
+
+  it("ends a channel conversation when a thread is started", async () => {
+    const started: DiscordMessage = {
+      ...message("2", "bob", "", 1),
+      system: { kind: "thread_created", text: "Started a thread." },
+    };
+    const { tickets } = await buildTicketsFromMessages(
+      [
+        message("1", "ann", "create_index crashes on an empty table", 0),
+        started,
+        message("3", "cy", "Is there a way to filter search results by date?", 2),
+      ],
+      { edges: false },
+    );
+    assert.deepEqual(tickets.map((ticket) => ticket.evidence.map((ev) => ev.messageId)), [["1"], ["3"]]);
+  });
+});
+
+describe("extendTicketsAcrossBoundary", () => {
+  const open: Ticket = {
+    id: "open",
+    title: "Upload fails",
+    summary: "Upload fails with a timeout",
+    severity: "medium",
+    docCoverage: "unknown",
+    channel: "bug-reports",
+    evidence: [
+      { messageId: "1", channel: "bug-reports", snippet: "Upload fails", timestamp: "2026-01-01T10:00:00.000Z" },
+    ],
+  };
+  const threaded: Ticket = {
+    ...open,
+    id: "threaded",
+    threadId: "t9",
+    evidence: [
+      { messageId: "5", channel: "bug-reports", snippet: "Index question", timestamp: "2026-01-01T10:00:00.000Z" },
+    ],
+  };
+
+  it("attaches replies, thread messages and follow-ups within the window", () => {
+    const reply = { ...message("10", "bob", "Which version?", 120), replyToId: "1" };
+    const inThread = { ...message("11", "cy", "Same here", 121), threadId: "t9" };
+    const followUp = message("12", "ann", "Still failing after a retry", 20);
+    const { tickets, remaining, ticketSources } = extendTicketsAcrossBoundary(
+      [reply, inThread, followUp],
+      [open, threaded],
+    );
+    assert.deepEqual(remaining, []);
+    assert.deepEqual(ticketSources.open.map((msg) => msg.id), ["12", "10"]);
+    assert.deepEqual(ticketSources.threaded.map((msg) => msg.id), ["11"]);
+    const extended = tickets.find((ticket) => ticket.id === "open");
+    assert.deepEqual(extended?.evidence.map((ev) => ev.messageId), ["1", "12", "10"]);
+  });
+
+  it("leaves late messages and messages after a new thread for a fresh ticket", () => {
+    const late = message("20", "dee", "Different problem entirely", 90);
+    const { tickets, remaining } = extendTicketsAcrossBoundary([late], [open]);
+    assert.equal(tickets.length, 0);
+    assert.deepEqual(remaining.map((msg) => msg.id), ["20"]);
+
+    const created: DiscordMessage = {
+      ...message("21", "eve", "", 5),
+      system: { kind: "thread_created", text: "Started a thread." },
+    };
+    const afterThread = message("22", "eve", "New question", 6);
+    const split = extendTicketsAcrossBoundary([created, afterThread], [open]);
+    assert.equal(split.tickets.length, 0);
+    assert.deepEqual(split.remaining.map((msg) => msg.id), ["21", "22"]);
+  });
+});
+
+describe("ticketJsonSchema", () => {
+  // OpenAI strict structured outputs reject a schema whose `required` misses any property.
+  it("requires every property it declares", () => {
+    const properties = Object.keys(ticketJsonSchema.properties ?? {});
+    assert.deepEqual([...(ticketJsonSchema.required ?? [])].sort(), properties.sort());
+    assert.equal(ticketJsonSchema.additionalProperties, false);
+  });
+});
+
+describe("refineTicketsWithLLM repair", () => {
+  const refined = {
+    title: "create_index crashes on empty tables",
+    summary: "Building an IVF_PQ index on an empty table segfaults.",
+    severity: "high",
+    docCoverage: "unknown",
+  };
+
+  // Answers with `replies` in order, repeating the last one, and records each prompt.
+  const scripted = (replies: string[]) => {
+    const prompts: string[] = [];
+    const provider: LLMProvider = {
+      name: "mock",
+      model: "mock",
+      completeJSON: async (request) => {
+        prompts.push(request.prompt);
+        return { ok: true, content: replies[Math.min(prompts.length - 1, replies.length - 1)] };
+      },
+    };
+    return { provider, prompts };
+  };
+
+  const refine = async (replies: string[]) => {
+    const built = await buildTicketsFromMessages([message("1", "ann", "create_index crashes on an empty table", 0)], {
+      edges: false,
+    });
+    const { provider, prompts } = scripted(replies);
+    const result = await refineTicketsWithLLM(built.tickets, built.ticketSources, { provider, maxRetries: 0 });
+    return { ...result, prompts };
+  };
+
+  it("accepts output fixed by one repair round-trip", async () => {
+    const blankTitle = JSON.stringify({ ...refined, title: " " });
+    const { tickets, stats, prompts } = await refine([blankTitle, JSON.stringify(refined)]);
+    assert.equal(prompts.length, 2);
+    assert.match(prompts[1], /title/);
+    assert.equal(stats.repaired, 1);
+    assert.equal(stats.succeeded, 1);
+    assert.equal(tickets[0].title, refined.title);
+    assert.equal(tickets[0].refinement?.status, "refined");
+  });
+
+  it("keeps the heuristic ticket when the repair fails too", async () => {
+    const { tickets, stats, prompts } = await refine(["not json", "{}"]);
+    assert.equal(prompts.length, 2);
+    assert.equal(stats.failed, 1);
+    assert.equal(stats.failures[0].attempts, 2);
+    assert.match(stats.failures[0].message, /after one repair attempt/);
+    assert.equal(tickets[0].title, "create_index crashes on an empty table");
+    assert.equal(tickets[0].refinement?.status, "rejected");
+  });
+});
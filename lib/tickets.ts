@@ -1,10 +1,67 @@
-import { DiscordMessage, Ticket, TicketDocCoverage, TicketEvidence, TicketSeverity, Edge } from "./types";
-import { createStructuredTicketWithOpenAI, OpenAIConfig } from "./openai";
+import {
+  DiscordMessage,
+  Ticket,
+  TicketDocCoverage,
+  TicketEvidence,
+  TicketKind,
+  TicketSeverity,
+  TicketStatus,
+  Edge,
+} from "./types";
+import { truncateMarkdown } from "./markdown";
+import { EdgeInferenceConfig, inferTicketEdges } from "./edges";
+import { extractTicketEntities, mergeTicketEntities } from "./entities";
+import { extractErrorSignatures } from "./fingerprints";
+import {
+  completeWithRetries,
+  estimateLLMCost,
+  JsonSchema,
+  llmCost,
+  LLMFailure,
+  LLMPrice,
+  LLMProvider,
+  LLMRetryConfig,
+  LLMUsage,
+  mapWithConcurrency,
+} from "./llm";
+import { createEmptyDiscordRoster, DiscordRoster, isBotAuthor, isStaffAuthor } from "./roster";
+import { DEFAULT_TICKET_RULES, evaluateTicketRules, TicketRules } from "./rules";
+import {
+  detectInjectedOutput,
+  findInjectionAttempts,
+  pseudonymizeAuthor,
+  pseudonymizeMentions,
+  RedactionCounts,
+  RedactionKind,
+  redactSecrets,
+  UNTRUSTED_CONTENT_NOTICE,
+  wrapUntrusted,
+} from "./sanitize";
+import { formatSchemaIssues, StructuredTicket, structuredTicketSchema } from "./schemas";
+import {
+  compareSegmentations,
+  DEFAULT_MAX_MESSAGES_PER_SEGMENT,
+  segmentConversations,
+  SegmentationComparison,
+  SegmentationConfig,
+} from "./segment";
+import { summarizeConversation } from "./summarize";
 
+export type TicketSegmenter = "conversation" | "window";
+
+// maxMessagesPerTicket and windowMinutes only apply to the window segmenter; conversations and
+// threads are capped by maxMessagesPerThread. Pass `edges: false` when edges are inferred later
+// over a larger set of tickets.
 export type TicketBuildConfig = {
   maxTickets?: number;
   maxMessagesPerTicket?: number;
+  maxMessagesPerThread?: number;
   windowMinutes?: number;
+  roster?: DiscordRoster;
+  rules?: TicketRules;
+  segmenter?: TicketSegmenter;
+  segmentation?: SegmentationConfig;
+  edges?: EdgeInferenceConfig | false;
 };
 
 const severityWeight: Record<TicketSeverity, number> = {
@@ -14,44 +71,13 @@ const severityWeight: Record<TicketSeverity, number> = {
   critical: 10,
 };
 
-const keywordBuckets = {
-  critical: ["data loss", "security", "vulnerability", "corrupt", "irreversible"],
-  high: ["crash", "panic", "segfault", "broken", "fail", "exception", "bug"],
-  medium: ["slow", "performance", "latency", "timeout", "scaling", "benchmark"],
-  doc: ["docs", "documentation", "readme", "guide", "tutorial", "example", "how do i"],
-  feature: ["feature request", "request", "would love", "can we", "could we", "nice to have"],
-};
-
-const normalize = (text: string) => text.toLowerCase();
-
-const extractKeywords = (text: string) => {
-  const found = new Set<string>();
-  const lower = normalize(text);
-  Object.values(keywordBuckets).flat().forEach((kw) => {
-    if (lower.includes(kw)) found.add(kw);
-  });
-  return [...found];
-};
-
-const inferSeverity = (text: string, channel: string): TicketSeverity => {
-  const lower = normalize(text);
-  if (keywordBuckets.critical.some((kw) => lower.includes(kw))) return "critical";
-  if (keywordBuckets.high.some((kw) => lower.includes(kw))) return "high";
-  if (keywordBuckets.medium.some((kw) => lower.includes(kw))) return "medium";
-  if (normalize(channel).includes("bug")) return "high";
-  if (normalize(channel).includes("feature")) return "medium";
-  return "low";
-};
-
-const inferDocCoverage = (text: string): TicketDocCoverage => {
-  const lower = normalize(text);
-  const mentionsDocs = keywordBuckets.doc.some((kw) => lower.includes(kw));
-  if (!mentionsDocs) return "unknown";
-  if (lower.includes("missing") || lower.includes("no doc") || lower.includes("not documented")) return "missing";
-  if (lower.includes("unclear") || lower.includes("confusing") || lower.includes("outdated")) return "partial";
-  return "adequate";
-};
+const messageText = (msg: DiscordMessage) =>
+  [msg.content, ...(msg.embeds ?? []).flatMap((embed) => [embed.title, embed.description])]
+    .filter(Boolean)
+    .join("\n");
 
+// Fallbacks for conversations the summarizer finds nothing but pleasantries in: the opening
+// message's first sentence, and the first two sentences of the conversation.
 const buildTitle = (text: string, fallback: string) => {
   const trimmed = text.replace(/\s+/g, " ").trim();
   if (!trimmed) return fallback;
@@ -68,55 +94,116 @@ const buildSummary = (text: string) => {
   return summary.length > 240 ? `${summary.slice(0, 240)}...` : summary;
 };
 
+const countReactions = (messages: DiscordMessage[]) =>
+  messages.reduce(
+    (acc, msg) => acc + (msg.reactions ?? []).reduce((sum, reaction) => sum + reaction.count, 0),
+    0,
+  );
+
 const getTime = (msg: DiscordMessage) => {
   if (!msg.timestamp) return 0;
   const t = new Date(msg.timestamp).getTime();
   return Number.isNaN(t) ? 0 : t;
 };
 
-const isTicketCandidate = (msg: DiscordMessage) => {
-  const lower = normalize(msg.content);
-  if (lower.includes("?")) return true;
-  if (keywordBuckets.high.some((kw) => lower.includes(kw))) return true;
-  if (keywordBuckets.doc.some((kw) => lower.includes(kw))) return true;
-  if (keywordBuckets.feature.some((kw) => lower.includes(kw))) return true;
-  if (msg.links.some((link) => link.includes("github.com") && link.includes("/issues/"))) return true;
-  const channelLower = normalize(msg.channel);
-  if (channelLower.includes("bug") || channelLower.includes("feature") || channelLower.includes("help")) return true;
-  return false;
+const isTicketCandidate = (msg: DiscordMessage, rules: TicketRules) =>
+  evaluateTicketRules(rules, { text: msg.content, channel: msg.channel, links: msg.links }).candidate;
+
+type ResponseEntry = {
+  author?: string;
+  timestamp?: string;
+  text: string;
+  isBot?: boolean;
 };
 
+const confirmationRegex =
+  /\b(that|it|this) (worked|works now|fixed it|did the trick|solved it)\b|\b(works|working) now\b|\b(fixed|solved|resolved) (it|now|the issue|my issue)\b|\bthanks?\b.{0,40}\b(worked|works|fixed|solved)\b/i;
+
+const entryTime = (entry?: ResponseEntry) => {
+  const t = entry?.timestamp ? new Date(entry.timestamp).getTime() : Number.NaN;
+  return Number.isNaN(t) ? undefined : t;
+};
+
+// The asker is the first human author; anyone else posting afterwards counts as a response,
+// and the asker coming back with "that worked" after a response marks the ticket resolved.
+const deriveResponseState = (entries: ResponseEntry[], roster: DiscordRoster) => {
+  const humans = entries.filter((entry) => !entry.isBot && !isBotAuthor(roster, entry.author));
+  const asker = humans[0]?.author;
+  const firstResponseIndex = humans.findIndex((entry, i) => i > 0 && entry.author && entry.author !== asker);
+  const responses = firstResponseIndex >= 0 ? humans.slice(firstResponseIndex).filter((e) => e.author !== asker) : [];
+  const askedAt = entryTime(humans[0]);
+  const respondedAt = entryTime(humans[firstResponseIndex]);
+  const firstResponseMinutes =
+    askedAt !== undefined && respondedAt !== undefined
+      ? Math.max(0, Math.round((respondedAt - askedAt) / 60000))
+      : undefined;
+  const staffReplied = responses.some((entry) => isStaffAuthor(roster, entry.author));
+  const askerConfirmed =
+    firstResponseIndex >= 0 &&
+    humans.slice(firstResponseIndex + 1).some((entry) => entry.author === asker && confirmationRegex.test(entry.text));
+  const status: TicketStatus = askerConfirmed ? "resolved" : responses.length ? "answered" : "open";
+  return {
+    status,
+    ...(firstResponseMinutes !== undefined ? { firstResponseMinutes } : {}),
+    staffReplied,
+    askerConfirmed,
+  };
+};
+
+const messageEntries = (messages: DiscordMessage[]): ResponseEntry[] =>
+  messages.map((msg) => ({ author: msg.author, timestamp: msg.timestamp, text: msg.content, isBot: msg.isBot }));
+
 const buildEvidence = (messages: DiscordMessage[]): TicketEvidence[] =>
   messages.map((msg) => ({
     messageId: msg.id,
     channel: msg.channel,
-    snippet: msg.content.length > 200 ? `${msg.content.slice(0, 200)}...` : msg.content,
+    snippet: truncateMarkdown(msg.content, 200),
     url: msg.url,
     author: msg.author,
     timestamp: msg.timestamp,
   }));
 
+const isAffectedLink = (link: string) =>
+  link.includes("github.com") || link.includes("docs") || link.includes("documentation");
+
 const extractAffectedItems = (messages: DiscordMessage[]) => {
   const items = new Set<string>();
   messages.forEach((msg) => {
-    msg.links.forEach((link) => {
-      if (link.includes("github.com")) items.add(link);
-      if (link.includes("docs") || link.includes("documentation")) items.add(link);
+    const previewTitles = new Map<string, string>();
+    msg.embeds?.forEach((embed) => {
+      if (embed.url && embed.title) previewTitles.set(embed.url, embed.title);
+    });
+    const links = new Set([...msg.links, ...previewTitles.keys()]);
+    links.forEach((link) => {
+      if (!isAffectedLink(link)) return;
+      const title = previewTitles.get(link);
+      items.add(title ? `${title} (${link})` : link);
     });
   });
   return items.size ? [...items] : undefined;
 };
 
-const buildReasoning = (messages: DiscordMessage[], severity: TicketSeverity, docCoverage: TicketDocCoverage) => {
-  const keywords = extractKeywords(messages.map((m) => m.content).join(" "));
+const buildReasoning = (
+  messages: DiscordMessage[],
+  severity: TicketSeverity,
+  docCoverage: TicketDocCoverage,
+  kind: TicketKind,
+  keywords: string[],
+) => {
   const timeStart = messages[0]?.timestamp ?? "unknown";
   const timeEnd = messages[messages.length - 1]?.timestamp ?? timeStart;
+  const replyCount = messages.filter((m) => m.replyToId).length;
+  const threadTitle = messages[0]?.threadTitle;
   return [
-    `Collected ${messages.length} message(s) from ${messages[0]?.channel ?? "unknown channel"}.`,
+    `Collected ${messages.length} message(s) from ${messages[0]?.channel ?? "unknown channel"}${
+      threadTitle ? ` (thread "${threadTitle}")` : ""
+    }.`,
     `Window: ${timeStart} -> ${timeEnd}.`,
+    replyCount ? `Linked replies: ${replyCount}.` : "Linked replies: none.",
     keywords.length ? `Keywords: ${keywords.join(", ")}.` : "Keywords: none.",
     `Severity inferred as ${severity}.`,
     `Documentation coverage inferred as ${docCoverage}.`,
+    `Kind inferred as ${kind}.`,
   ].join(" ");
 };
 
@@ -162,48 +249,249 @@ export const buildTicketPrompt = (tickets: Ticket[]) => {
   return lines.join("\n");
 };
 
+const collectReplyChain = (
+  seeds: DiscordMessage[],
+  repliesByParent: Map<string, DiscordMessage[]>,
+  used: Set<string>,
+  limit: number,
+) => {
+  const chain: DiscordMessage[] = [];
+  const queue = seeds.map((m) => m.id);
+  while (queue.length && chain.length < limit) {
+    const parentId = queue.shift()!;
+    for (const reply of repliesByParent.get(parentId) ?? []) {
+      if (chain.length >= limit) break;
+      if (used.has(reply.id)) continue;
+      used.add(reply.id);
+      chain.push(reply);
+      queue.push(reply.id);
+    }
+  }
+  return chain;
+};
+
+type WindowContextParams = {
+  sorted: DiscordMessage[];
+  index: number;
+  used: Set<string>;
+  knownIds: Set<string>;
+  repliesByParent: Map<string, DiscordMessage[]>;
+  maxMessages: number;
+  windowMinutes: number;
+};
+
+const collectWindowContext = ({
+  sorted,
+  index,
+  used,
+  knownIds,
+  repliesByParent,
+  maxMessages,
+  windowMinutes,
+}: WindowContextParams) => {
+  const msg = sorted[index];
+  const context: DiscordMessage[] = [msg];
+  const contextIds = new Set([msg.id]);
+  const startTime = getTime(msg);
+  used.add(msg.id);
+
+  // Explicit replies belong to the conversation regardless of the time window.
+  collectReplyChain([msg], repliesByParent, used, maxMessages - context.length).forEach((m) => {
+    context.push(m);
+    contextIds.add(m.id);
+  });
+
+  const windowed: DiscordMessage[] = [];
+  for (let j = index + 1; j < sorted.length; j++) {
+    const next = sorted[j];
+    if (context.length >= maxMessages) break;
+    if (used.has(next.id)) continue;
+    const deltaMinutes = Math.abs(getTime(next) - startTime) / (1000 * 60);
+    if (deltaMinutes > windowMinutes) break;
+    // A new thread in the same channel starts a new conversation.
+    if (next.system) {
+      if (next.system.kind === "thread_created" && next.channel === msg.channel) break;
+      continue;
+    }
+    if (next.threadId !== msg.threadId) continue;
+    // A reply to a message outside this ticket is part of another conversation.
+    if (next.replyToId && knownIds.has(next.replyToId) && !contextIds.has(next.replyToId)) continue;
+    context.push(next);
+    contextIds.add(next.id);
+    windowed.push(next);
+    used.add(next.id);
+  }
+
+  context.push(...collectReplyChain(windowed, repliesByParent, used, maxMessages - context.length));
+  return context;
+};
+
+// A thread is a natural ticket boundary: all of its messages form one conversation.
+const collectThreadContext = (
+  thread: DiscordMessage[],
+  used: Set<string>,
+  maxMessages: number,
+  rules: TicketRules,
+): DiscordMessage[] | null => {
+  const remaining = thread.filter((m) => !used.has(m.id));
+  remaining.forEach((m) => used.add(m.id));
+  if (!remaining.some((m) => isTicketCandidate(m, rules))) return null;
+  return remaining.slice(0, maxMessages);
+};
+
+type TicketContext = {
+  seed: DiscordMessage;
+  messages: DiscordMessage[];
+};
+
+const isSeedCandidate = (msg: DiscordMessage, roster: DiscordRoster, rules: TicketRules) =>
+  !msg.isBot && !isBotAuthor(roster, msg.author) && isTicketCandidate(msg, rules);
+
+// The original heuristic: each candidate message opens a ticket and sweeps its reply chain plus
+// the following messages within the time window.
+const collectWindowContexts = (
+  sorted: DiscordMessage[],
+  config: Required<Pick<TicketBuildConfig, "maxTickets" | "maxMessagesPerTicket" | "maxMessagesPerThread" | "windowMinutes">>,
+  roster: DiscordRoster,
+  rules: TicketRules,
+): TicketContext[] => {
+  const contexts: TicketContext[] = [];
+  const used = new Set<string>();
+  const knownIds = new Set(sorted.map((m) => m.id));
+  const repliesByParent = sorted.reduce<Map<string, DiscordMessage[]>>((acc, m) => {
+    if (!m.replyToId || m.system) return acc;
+    const bucket = acc.get(m.replyToId) ?? [];
+    bucket.push(m);
+    acc.set(m.replyToId, bucket);
+    return acc;
+  }, new Map());
+  const threads = sorted.reduce<Map<string, DiscordMessage[]>>((acc, m) => {
+    if (!m.threadId || m.system) return acc;
+    const bucket = acc.get(m.threadId) ?? [];
+    bucket.push(m);
+    acc.set(m.threadId, bucket);
+    return acc;
+  }, new Map());
+
+  for (let i = 0; i < sorted.length; i++) {
+    if (contexts.length >= config.maxTickets) break;
+    const msg = sorted[i];
+    if (used.has(msg.id) || msg.system) continue;
+
+    if (msg.threadId) {
+      const threadContext = collectThreadContext(
+        threads.get(msg.threadId) ?? [msg],
+        used,
+        config.maxMessagesPerThread,
+        rules,
+      );
+      if (threadContext) contexts.push({ seed: msg, messages: threadContext });
+      continue;
+    }
+    if (!isSeedCandidate(msg, roster, rules)) continue;
+    contexts.push({
+      seed: msg,
+      messages: collectWindowContext({
+        sorted,
+        index: i,
+        used,
+        knownIds,
+        repliesByParent,
+        maxMessages: config.maxMessagesPerTicket,
+        windowMinutes: config.windowMinutes,
+      }),
+    });
+  }
+  return contexts;
+};
+
+const maxMessagesPerThreadFor = (config: TicketBuildConfig) =>
+  config.maxMessagesPerThread ?? Math.max(config.maxMessagesPerTicket ?? 6, DEFAULT_MAX_MESSAGES_PER_SEGMENT);
+
+// Conversations are capped like threads. The segmentation preview uses the same config, so its
+// segments match the ones tickets are built from.
+export const ticketSegmentationConfig = (config: TicketBuildConfig = {}): SegmentationConfig => ({
+  maxMessagesPerSegment: maxMessagesPerThreadFor(config),
+  ...config.segmentation,
+});
+
+// Segments the sample into conversations and keeps those that contain a ticket candidate.
+const collectConversationContexts = (
+  sorted: DiscordMessage[],
+  config: Required<Pick<TicketBuildConfig, "maxTickets" | "maxMessagesPerThread">> & {
+    segmentation?: SegmentationConfig;
+  },
+  roster: DiscordRoster,
+  rules: TicketRules,
+): TicketContext[] => {
+  const segments = segmentConversations(sorted, ticketSegmentationConfig(config));
+  const contexts: TicketContext[] = [];
+  for (const segment of segments) {
+    if (contexts.length >= config.maxTickets) break;
+    const seed = segment.threadId
+      ? segment.messages.some((m) => isTicketCandidate(m, rules))
+        ? segment.messages[0]
+        : undefined
+      : segment.messages.find((m) => isSeedCandidate(m, roster, rules));
+    if (!seed) continue;
+    contexts.push({ seed, messages: segment.messages.slice(0, config.maxMessagesPerThread) });
+  }
+  return contexts;
+};
+
 export const buildTicketsFromMessages = async (
   messages: DiscordMessage[],
   config: TicketBuildConfig = {},
 ): Promise<TicketGraphResult> => {
-  const { maxTickets = 80, maxMessagesPerTicket = 6, windowMinutes = 45 } = config;
+  const { maxTickets = 80, maxMessagesPerTicket = 6, windowMinutes = 45, segmenter = "conversation" } = config;
+  const roster = config.roster ?? createEmptyDiscordRoster();
+  const rules = config.rules ?? DEFAULT_TICKET_RULES;
+  const maxMessagesPerThread = maxMessagesPerThreadFor(config);
+  // System events stay in the timeline as conversation boundaries but never join a ticket.
   const sorted = [...messages].sort((a, b) => getTime(a) - getTime(b));
+  const contexts =
+    segmenter === "window"
+      ? collectWindowContexts(
+          sorted,
+          { maxTickets, maxMessagesPerTicket, maxMessagesPerThread, windowMinutes },
+          roster,
+          rules,
+        )
+      : collectConversationContexts(
+          sorted,
+          { maxTickets, maxMessagesPerThread, segmentation: config.segmentation },
+          roster,
+          rules,
+        );
+
   const tickets: Ticket[] = [];
   const ticketSources: Record<string, DiscordMessage[]> = {};
-  const used = new Set<string>();
-
-  for (let i = 0; i < sorted.length; i++) {
-    if (tickets.length >= maxTickets) break;
-    const msg = sorted[i];
-    if (used.has(msg.id)) continue;
-    if (!isTicketCandidate(msg)) continue;
-
-    const context: DiscordMessage[] = [msg];
-    const startTime = getTime(msg);
-    used.add(msg.id);
-
-    for (let j = i + 1; j < sorted.length; j++) {
-      const next = sorted[j];
-      if (context.length >= maxMessagesPerTicket) break;
-      if (used.has(next.id)) continue;
-      const deltaMinutes = Math.abs(getTime(next) - startTime) / (1000 * 60);
-      if (deltaMinutes > windowMinutes) break;
-      context.push(next);
-      used.add(next.id);
-    }
+  contexts.forEach(({ seed: msg, messages: context }) => {
+    context.sort((a, b) => getTime(a) - getTime(b));
 
-    const combinedText = context.map((m) => m.content).join("\n");
-    const severity = inferSeverity(combinedText, msg.channel);
-    const docCoverage = inferDocCoverage(combinedText);
-    const title = buildTitle(msg.content, `Ticket from ${msg.channel}`);
-    const summary = buildSummary(combinedText);
+    const combinedText = context.map(messageText).join("\n");
+    const { severity, docCoverage, kind, keywords, tags: ruleTags } = evaluateTicketRules(rules, {
+      text: combinedText,
+      channel: msg.channel,
+    });
+    const entities = extractTicketEntities(context);
+    const extractive = summarizeConversation(
+      context.map((m) => ({ author: m.author, content: messageText(m) })),
+      { asker: msg.author, entities },
+    );
+    const heuristicTitle = extractive?.title ?? buildTitle(messageText(msg), `Ticket from ${msg.channel}`);
+    const titleCandidates = msg.threadTitle ? [msg.threadTitle, heuristicTitle] : undefined;
+    const title = titleCandidates?.[0] ?? heuristicTitle;
+    const summary = extractive?.summary ?? buildSummary(combinedText);
     const evidence = buildEvidence(context);
     const affectedItems = extractAffectedItems(context);
-    const reasoning = buildReasoning(context, severity, docCoverage);
-    const tags = extractKeywords(combinedText);
+    const reasoning = buildReasoning(context, severity, docCoverage, kind, keywords);
+    const tags = [...new Set([...keywords, ...ruleTags, ...extractErrorSignatures(combinedText)])];
+    const reactionCount = countReactions(context);
+    const responseState = deriveResponseState(messageEntries(context), roster);
 
     const channelKey = (msg.channelId ?? msg.channel).replace(/[^a-z0-9]+/gi, "-");
-    const ticketId = `ticket-${channelKey}-${msg.id}`;
+    const ticketId = `ticket-${channelKey}-${context[0].id}`;
     ticketSources[ticketId] = context;
     tickets.push({
       id: ticketId,
@@ -211,101 +499,498 @@ export const buildTicketsFromMessages = async (
       summary,
       severity,
       docCoverage,
+      kind,
       evidence,
       affectedItems,
+      ...(entities ? { entities } : {}),
       reasoning,
       tags,
       channel: msg.channel,
+      ...(reactionCount ? { reactionCount } : {}),
+      ...(msg.threadId ? { threadId: msg.threadId, titleCandidates } : {}),
+      ...responseState,
     });
-  }
+  });
+
+  const edges = config.edges === false ? [] : inferTicketEdges(tickets, config.edges);
+  return { tickets, edges, ticketSources };
+};
 
-  return { tickets, edges: [], ticketSources };
+export type SegmenterComparison = SegmentationComparison & {
+  baselineSegmenter: TicketSegmenter;
+  candidateSegmenter: TicketSegmenter;
 };
 
-export const ticketWeight = (ticket: Ticket) =>
-  severityWeight[ticket.severity] + Math.min(6, ticket.evidence.length) * 0.6;
+// Builds tickets from the same sample with both segmenters; the window heuristic is the baseline.
+export const compareTicketSegmenters = async (
+  messages: DiscordMessage[],
+  config: TicketBuildConfig = {},
+): Promise<SegmenterComparison> => {
+  const windowResult = await buildTicketsFromMessages(messages, { ...config, segmenter: "window" });
+  const conversationResult = await buildTicketsFromMessages(messages, { ...config, segmenter: "conversation" });
+  return {
+    baselineSegmenter: "window",
+    candidateSegmenter: "conversation",
+    ...compareSegmentations(Object.values(windowResult.ticketSources), Object.values(conversationResult.ticketSources)),
+  };
+};
+
+export type TicketExtensionConfig = {
+  maxMessagesPerTicket?: number;
+  windowMinutes?: number;
+  roster?: DiscordRoster;
+  rules?: TicketRules;
+};
+
+export type TicketExtensionResult = {
+  tickets: Ticket[];
+  remaining: DiscordMessage[];
+  ticketSources: Record<string, DiscordMessage[]>;
+};
+
+const extendTicket = (
+  ticket: Ticket,
+  messages: DiscordMessage[],
+  roster: DiscordRoster,
+  rules: TicketRules,
+): Ticket => {
+  const combinedText = messages.map(messageText).join("\n");
+  const inferred = evaluateTicketRules(rules, { text: combinedText, channel: ticket.channel ?? "" });
+  const severity =
+    severityWeight[inferred.severity] > severityWeight[ticket.severity] ? inferred.severity : ticket.severity;
+  const tags = new Set([
+    ...(ticket.tags ?? []),
+    ...inferred.keywords,
+    ...inferred.tags,
+    ...extractErrorSignatures(combinedText),
+  ]);
+  const affectedItems = new Set([...(ticket.affectedItems ?? []), ...(extractAffectedItems(messages) ?? [])]);
+  const reactionCount = (ticket.reactionCount ?? 0) + countReactions(messages);
+  const entities = mergeTicketEntities(ticket.entities, extractTicketEntities(messages));
+  const evidenceEntries = ticket.evidence.map((ev) => ({ author: ev.author, timestamp: ev.timestamp, text: ev.snippet }));
+  return {
+    ...ticket,
+    severity,
+    kind: ticket.kind ?? inferred.kind,
+    evidence: [...ticket.evidence, ...buildEvidence(messages)],
+    affectedItems: affectedItems.size ? [...affectedItems] : undefined,
+    ...(entities ? { entities } : {}),
+    tags: [...tags],
+    reasoning: `${ticket.reasoning ?? ""} Extended with ${messages.length} message(s) from a later ingest.`.trim(),
+    ...(reactionCount ? { reactionCount } : {}),
+    ...deriveResponseState([...evidenceEntries, ...messageEntries(messages)], roster),
+  };
+};
+
+// Attaches messages from an incremental ingest to tickets that were still open at the previous
+// high-water mark: replies to known evidence, messages in a known thread, and messages that
+// follow a channel's last ticket within the window. Everything else is left for
+// buildTicketsFromMessages.
+export const extendTicketsAcrossBoundary = (
+  messages: DiscordMessage[],
+  existingTickets: Ticket[],
+  config: TicketExtensionConfig = {},
+): TicketExtensionResult => {
+  const { maxMessagesPerTicket = 6, windowMinutes = 45 } = config;
+  const roster = config.roster ?? createEmptyDiscordRoster();
+  const rules = config.rules ?? DEFAULT_TICKET_RULES;
+  const ticketsByMessageId = new Map<string, Ticket>();
+  const ticketsByThreadId = new Map<string, Ticket>();
+  const openByChannel = new Map<string, { ticket: Ticket; lastTime: number }>();
+  existingTickets.forEach((ticket) => {
+    ticket.evidence.forEach((ev) => ticketsByMessageId.set(ev.messageId, ticket));
+    if (ticket.threadId) {
+      ticketsByThreadId.set(ticket.threadId, ticket);
+      return;
+    }
+    const lastTime = Math.max(
+      ...ticket.evidence.map((ev) => (ev.timestamp ? new Date(ev.timestamp).getTime() : 0)),
+    );
+    const channel = ticket.channel ?? ticket.evidence[0]?.channel;
+    const current = channel ? openByChannel.get(channel) : undefined;
+    if (channel && lastTime > 0 && (!current || lastTime > current.lastTime)) {
+      openByChannel.set(channel, { ticket, lastTime });
+    }
+  });
 
-export type TicketLLMConfig = OpenAIConfig & {
+  const additions = new Map<string, { ticket: Ticket; messages: DiscordMessage[] }>();
+  const remaining: DiscordMessage[] = [];
+  const sorted = [...messages].sort((a, b) => getTime(a) - getTime(b));
+  sorted.forEach((msg) => {
+    if (msg.system) {
+      if (msg.system.kind === "thread_created") openByChannel.delete(msg.channel);
+      remaining.push(msg);
+      return;
+    }
+    let target =
+      (msg.replyToId ? ticketsByMessageId.get(msg.replyToId) : undefined) ??
+      (msg.threadId ? ticketsByThreadId.get(msg.threadId) : undefined);
+    if (!target && !msg.threadId) {
+      const open = openByChannel.get(msg.channel);
+      if (open && getTime(msg) - open.lastTime <= windowMinutes * 60 * 1000) target = open.ticket;
+    }
+    const bucket = target ? additions.get(target.id) ?? { ticket: target, messages: [] } : null;
+    const limit = target?.threadId ? Math.max(maxMessagesPerTicket, 12) : maxMessagesPerTicket;
+    if (!target || !bucket || bucket.messages.length >= limit) {
+      remaining.push(msg);
+      return;
+    }
+    bucket.messages.push(msg);
+    additions.set(target.id, bucket);
+    ticketsByMessageId.set(msg.id, target);
+  });
+
+  const tickets: Ticket[] = [];
+  const ticketSources: Record<string, DiscordMessage[]> = {};
+  additions.forEach(({ ticket, messages: added }) => {
+    tickets.push(extendTicket(ticket, added, roster, rules));
+    ticketSources[ticket.id] = added;
+  });
+  return { tickets, remaining, ticketSources };
+};
+
+export type TicketLLMConfig = Omit<LLMRetryConfig, "signal"> & {
+  provider: LLMProvider;
   maxTickets?: number;
   maxInputChars?: number;
   extraContext?: string;
+  concurrency?: number;
+  timeoutMs?: number;
+  signal?: AbortSignal;
+  price?: LLMPrice;
+  budgetUsd?: number;
+};
+
+export type TicketLLMFailure = LLMFailure & {
+  ticketId: string;
+  attempts: number;
+};
+
+export type TicketLLMCall = LLMUsage & {
+  ticketId: string;
+  cached: boolean;
+  costUsd: number;
+};
+
+export type TicketLLMUsageSummary = LLMUsage & {
+  calls: number;
+  cachedCalls: number;
+  costUsd: number;
+  budgetUsd?: number;
+  budgetExceeded: boolean;
+  skippedForBudget: number;
 };
 
 export type TicketLLMRefineStats = {
   attempted: number;
   succeeded: number;
   failed: number;
+  retried: number;
+  repaired: number;
+  aborted?: boolean;
+  redactions: RedactionCounts;
+  injectionSuspected: number;
+  failures: TicketLLMFailure[];
+  usage: TicketLLMUsageSummary;
+  calls: TicketLLMCall[];
 };
 
+// Everything taken from Discord is redacted, pseudonymized and wrapped in an untrusted block
+// before it reaches a provider. The doc-analyzer context is our own and stays outside the blocks.
 const buildLLMInput = (
   messages: DiscordMessage[],
   maxInputChars: number,
   extraContext?: string,
 ) => {
-  const lines: string[] = [];
-  lines.push("Messages:");
-  messages.forEach((msg) => {
-    const ts = msg.timestamp ?? "unknown time";
-    const author = msg.author ?? "unknown";
-    const links = msg.links.length ? ` Links: ${msg.links.join(", ")}` : "";
-    lines.push(`[${ts}] ${author}: ${msg.content}${links}`);
-  });
-  const joined = lines.join("\n");
+  const redactions: RedactionCounts = {};
+  const authors = new Set(
+    messages.flatMap((msg) => [msg.author, msg.replyToAuthor]).filter((a): a is string => Boolean(a)),
+  );
+  const clean = (text: string) => pseudonymizeMentions(redactSecrets(text, redactions), authors);
   const contextBlock = extraContext
     ? `\n\nDoc-analyzer context:\n${extraContext}`
     : "";
-  if (joined.length + contextBlock.length <= maxInputChars) {
-    return `${joined}${contextBlock}`;
+  let remaining = Math.max(0, maxInputChars - contextBlock.length - "Messages:".length);
+  const blocks: string[] = [];
+  for (const msg of messages) {
+    if (remaining <= 0) break;
+    const lines = [clean(msg.content)];
+    if (msg.links.length) lines.push(`Links: ${msg.links.map((link) => redactSecrets(link, redactions)).join(", ")}`);
+    msg.embeds?.forEach((embed) => {
+      const text = [embed.title, embed.description].filter(Boolean).join(" - ");
+      if (text) lines.push(`Link preview: ${clean(text)}`);
+    });
+    if (msg.attachments?.length) {
+      lines.push(`Attachments: ${msg.attachments.map((a) => clean(a.fileName ?? a.url)).join(", ")}`);
+    }
+    if (msg.reactions?.length) {
+      lines.push(`Reactions: ${msg.reactions.map((r) => `${r.emoji} x${r.count}`).join(" ")}`);
+    }
+    const attributes = {
+      time: msg.timestamp ?? "unknown time",
+      author: pseudonymizeAuthor(msg.author),
+      ...(msg.replyToId ? { reply_to: msg.replyToAuthor ? pseudonymizeAuthor(msg.replyToAuthor) : msg.replyToId } : {}),
+    };
+    const overhead = wrapUntrusted("", attributes).length + 1;
+    const body = lines.join("\n").slice(0, Math.max(0, remaining - overhead));
+    blocks.push(wrapUntrusted(body, attributes));
+    remaining -= overhead + body.length;
+  }
+  const text = `Messages:\n${blocks.join("\n")}${contextBlock}`;
+  return { text, redactions, injectionAttempts: findInjectionAttempts(blocks.join("\n")) };
+};
+
+// OpenAI's strict mode needs every property in `required`; the model sends an empty list or
+// string where it has nothing to add.
+export const ticketJsonSchema: JsonSchema = {
+  type: "object",
+  additionalProperties: false,
+  properties: {
+    title: { type: "string" },
+    summary: { type: "string" },
+    severity: { type: "string", enum: ["low", "medium", "high", "critical"] },
+    docCoverage: { type: "string", enum: ["missing", "partial", "adequate", "unknown"] },
+    kind: { type: "string", enum: ["bug", "question", "feature_request", "doc_gap", "announcement"] },
+    affectedItems: { type: "array", items: { type: "string" } },
+    reasoning: { type: "string" },
+    tags: { type: "array", items: { type: "string" } },
+  },
+  required: ["title", "summary", "severity", "docCoverage", "kind", "affectedItems", "reasoning", "tags"],
+};
+
+const TICKET_SYSTEM_PROMPT =
+  "You are a documentation triage assistant. Produce a compact ticket summary from Discord messages. " +
+  UNTRUSTED_CONTENT_NOTICE;
+
+const parseStructuredTicket = (content: string): { ticket: StructuredTicket } | { failure: LLMFailure } => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(content);
+  } catch (err) {
+    const message = `Response is not valid JSON: ${err instanceof Error ? err.message : String(err)}`;
+    return { failure: { reason: "parse", message } };
+  }
+  const parsed = structuredTicketSchema.safeParse(raw);
+  if (!parsed.success) {
+    const message = `Response does not match the ticket schema: ${formatSchemaIssues(parsed.error)}`;
+    return { failure: { reason: "schema", message } };
+  }
+  return { ticket: parsed.data };
+};
+
+// A reply that validates can still have been steered by the conversation; those are rejected
+// outright rather than repaired, since a repair would show the model the same content again.
+const checkStructuredTicket = (ticket: StructuredTicket, input: string): LLMFailure | undefined => {
+  const outputText = [ticket.title, ticket.summary, ticket.reasoning, ...(ticket.tags ?? [])]
+    .concat(ticket.affectedItems ?? [])
+    .filter(Boolean)
+    .join("\n");
+  const message = detectInjectedOutput(outputText, input);
+  return message ? { reason: "injection", message } : undefined;
+};
+
+const addUsage = (a?: LLMUsage, b?: LLMUsage): LLMUsage | undefined =>
+  a || b
+    ? {
+        inputTokens: (a?.inputTokens ?? 0) + (b?.inputTokens ?? 0),
+        outputTokens: (a?.outputTokens ?? 0) + (b?.outputTokens ?? 0),
+      }
+    : undefined;
+
+const ticketPrompt = (input: string, channel: string) =>
+  `Channel: ${channel}\n\n${input}\n\n` +
+  "Return a structured ticket with severity, documentation coverage and kind. " +
+  "Use kind \"announcement\" for hiring posts, welcomes, release notes and blog promotion. " +
+  "Use affectedItems only for concrete URLs or components.";
+
+// Output that fails to parse or validate gets one repair round-trip: the model sees its reply
+// and the validation errors and is asked for a corrected ticket. `reserveRepair` can refuse the
+// repair, e.g. when its cost would not fit the budget; the first failure is returned then.
+const createStructuredTicket = async (
+  input: string,
+  prompt: string,
+  config: TicketLLMConfig,
+  reserveRepair: (prompt: string) => boolean = () => true,
+): Promise<{
+  ticket?: StructuredTicket;
+  failure?: LLMFailure;
+  attempts: number;
+  repaired?: boolean;
+  response?: { usage?: LLMUsage; cached: boolean };
+}> => {
+  const complete = (text: string) =>
+    completeWithRetries(
+      () =>
+        config.provider.completeJSON({
+          system: TICKET_SYSTEM_PROMPT,
+          prompt: text,
+          schemaName: "discord_ticket",
+          schema: ticketJsonSchema,
+          timeoutMs: config.timeoutMs,
+          signal: config.signal,
+        }),
+      config,
+    );
+
+  const result = await complete(prompt);
+  if (!result.ok) return { failure: result.failure, attempts: result.attempts };
+  const first = parseStructuredTicket(result.content);
+  const response = { usage: result.usage, cached: Boolean(result.cached) };
+  if ("ticket" in first) {
+    const injected = checkStructuredTicket(first.ticket, input);
+    if (injected) return { failure: injected, attempts: result.attempts, response };
+    await result.accept?.();
+    return { ticket: first.ticket, attempts: result.attempts, response };
   }
-  const trimmed = joined.slice(0, Math.max(0, maxInputChars - contextBlock.length));
-  return `${trimmed}${contextBlock}`;
+
+  const repairPrompt =
+    `${prompt}\n\nYour previous reply was rejected: ${first.failure.message}\n\n` +
+    `Previous reply:\n${result.content.slice(0, 2000)}\n\nReturn a corrected ticket that matches the schema.`;
+  if (!reserveRepair(repairPrompt)) {
+    const failure = { ...first.failure, message: `${first.failure.message} (repair skipped: budget reached)` };
+    return { failure, attempts: result.attempts, response };
+  }
+  const repair = await complete(repairPrompt);
+  const attempts = result.attempts + repair.attempts;
+  if (!repair.ok) return { failure: first.failure, attempts, repaired: true, response };
+  const repaired = parseStructuredTicket(repair.content);
+  const combined = {
+    usage: addUsage(result.usage, repair.usage),
+    cached: response.cached && Boolean(repair.cached),
+  };
+  if ("ticket" in repaired) {
+    const injected = checkStructuredTicket(repaired.ticket, input);
+    if (injected) return { failure: injected, attempts, repaired: true, response: combined };
+    await repair.accept?.();
+    return { ticket: repaired.ticket, attempts, repaired: true, response: combined };
+  }
+  const failure = { ...repaired.failure, message: `${repaired.failure.message} (after one repair attempt)` };
+  return { failure, attempts, repaired: true, response: combined };
 };
 
+// Tickets are refined `concurrency` at a time. A ticket whose refinement fails keeps its
+// heuristic fields, and the reason is reported per ticket. Each call reserves its worst-case cost
+// against `budgetUsd` before it is sent and settles with the reported usage afterwards, so calls
+// in flight together cannot overshoot the budget; a call that does not fit is not made.
 export const refineTicketsWithLLM = async (
   tickets: Ticket[],
   ticketSources: Record<string, DiscordMessage[]>,
   config: TicketLLMConfig,
 ): Promise<{ tickets: Ticket[]; stats: TicketLLMRefineStats }> => {
-  const { apiKey, model, maxTickets = 12, maxInputChars = 6000, extraContext } = config;
-  const refined: Ticket[] = [];
-  const stats: TicketLLMRefineStats = { attempted: 0, succeeded: 0, failed: 0 };
-
-  for (let i = 0; i < tickets.length; i++) {
-    const ticket = tickets[i];
-    if (i >= maxTickets) {
-      refined.push(ticket);
-      continue;
+  const { maxTickets = 12, maxInputChars = 6000, extraContext, concurrency = 4, signal, budgetUsd } = config;
+  const usage: TicketLLMUsageSummary = {
+    calls: 0,
+    cachedCalls: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    costUsd: 0,
+    ...(budgetUsd !== undefined ? { budgetUsd } : {}),
+    budgetExceeded: false,
+    skippedForBudget: 0,
+  };
+  const stats: TicketLLMRefineStats = {
+    attempted: 0,
+    succeeded: 0,
+    failed: 0,
+    retried: 0,
+    repaired: 0,
+    redactions: {},
+    injectionSuspected: 0,
+    failures: [],
+    usage,
+    calls: [],
+  };
+
+  let reservedUsd = 0;
+  const reserve = (prompt: string) => {
+    if (budgetUsd === undefined) return 0;
+    const estimate = estimateLLMCost({ system: TICKET_SYSTEM_PROMPT, prompt }, config.price);
+    if (usage.costUsd + reservedUsd + estimate > budgetUsd) {
+      usage.budgetExceeded = true;
+      return undefined;
     }
+    reservedUsd += estimate;
+    return estimate;
+  };
+
+  const refined = await mapWithConcurrency(tickets, concurrency, async (ticket, i): Promise<Ticket> => {
     const messages = ticketSources[ticket.id] ?? [];
-    if (messages.length === 0) {
-      refined.push(ticket);
-      continue;
+    if (i >= maxTickets || messages.length === 0 || signal?.aborted) return ticket;
+    const { text: input, redactions, injectionAttempts } = buildLLMInput(messages, maxInputChars, extraContext);
+    const prompt = ticketPrompt(input, ticket.channel ?? "unknown");
+    const initial = reserve(prompt);
+    if (initial === undefined) {
+      usage.skippedForBudget += 1;
+      return ticket;
     }
-    const input = buildLLMInput(messages, maxInputChars, extraContext);
+    let held: number = initial;
+    Object.entries(redactions).forEach(([kind, count]) => {
+      stats.redactions[kind as RedactionKind] = (stats.redactions[kind as RedactionKind] ?? 0) + count;
+    });
+    if (injectionAttempts.length) stats.injectionSuspected += 1;
     stats.attempted += 1;
-    const result = await createStructuredTicketWithOpenAI({
-      apiKey,
-      model,
+    const { ticket: result, failure, attempts, repaired, response } = await createStructuredTicket(
       input,
-      channel: ticket.channel ?? "unknown",
-    });
+      prompt,
+      config,
+      (repairPrompt) => {
+        const estimate = reserve(repairPrompt);
+        if (estimate === undefined) return false;
+        held += estimate;
+        return true;
+      },
+    );
+    reservedUsd -= held;
+    stats.retried += attempts - 1 - (repaired ? 1 : 0);
+    if (repaired) stats.repaired += 1;
+    const refinement = { provider: config.provider.name, model: config.provider.model, at: new Date().toISOString() };
+    if (response) {
+      const costUsd = response.cached ? 0 : llmCost(response.usage, config.price);
+      const call = {
+        ticketId: ticket.id,
+        cached: response.cached,
+        inputTokens: response.usage?.inputTokens ?? 0,
+        outputTokens: response.usage?.outputTokens ?? 0,
+        costUsd,
+      };
+      stats.calls.push(call);
+      usage.calls += 1;
+      if (call.cached) {
+        usage.cachedCalls += 1;
+      } else {
+        usage.inputTokens += call.inputTokens;
+        usage.outputTokens += call.outputTokens;
+        usage.costUsd += costUsd;
+      }
+    }
     if (!result) {
       stats.failed += 1;
-      refined.push(ticket);
-      continue;
+      if (failure) stats.failures.push({ ticketId: ticket.id, attempts, ...failure });
+      return {
+        ...ticket,
+        refinement: {
+          status: "rejected",
+          ...refinement,
+          ...(failure ? { reason: failure.reason, message: failure.message } : {}),
+        },
+      };
     }
     stats.succeeded += 1;
-    refined.push({
+    return {
       ...ticket,
       title: result.title,
       summary: result.summary,
       severity: result.severity,
       docCoverage: result.docCoverage,
+      kind: result.kind ?? ticket.kind,
       affectedItems: result.affectedItems,
-      reasoning: result.reasoning ?? ticket.reasoning,
-      tags: result.tags ?? ticket.tags,
-    });
-  }
+      reasoning: result.reasoning || ticket.reasoning,
+      tags: result.tags?.length ? result.tags : ticket.tags,
+      refinement: { status: "refined", ...refinement },
+    };
+  });
 
+  if (signal?.aborted) stats.aborted = true;
+  usage.costUsd = Number(usage.costUsd.toFixed(6));
   return { tickets: refined, stats };
 };
@@ -9,6 +9,18 @@ export type SourceType =
   | "ticket"
   | "doc";
 
+export type WeightComponent =
+  | "severity"
+  | "kind"
+  | "status"
+  | "docCoverage"
+  | "messages"
+  | "authors"
+  | "reactions"
+  | "recurrence"
+  | "recency"
+  | "unanswered";
+
 export interface Chunk {
   id: ChunkId;
   title: string;
@@ -16,6 +28,7 @@ export interface Chunk {
   sourceType: SourceType;
   sourceRef?: string;
   weight: number;
+  weightBreakdown?: Partial<Record<WeightComponent, number>>;
   component?: string;
   tags?: string[];
   activityScore?: number;
@@ -24,10 +37,16 @@ export interface Chunk {
   ticket?: Ticket;
 }
 
+export type EdgeRelation = "duplicate" | "same_symbol" | "same_doc_gap" | "follow_up";
+
+// Edges without `inferred` were made by hand and are never replaced by inference.
 export interface Edge {
   from: ChunkId;
   to: ChunkId;
   rationale?: string;
+  relation?: EdgeRelation;
+  confidence?: number;
+  inferred?: boolean;
 }
 
 export interface Signal {
@@ -40,6 +59,40 @@ export interface Signal {
   meta?: Record<string, unknown>;
 }
 
+export interface DiscordReaction {
+  emoji: string;
+  name?: string;
+  count: number;
+}
+
+export interface DiscordEmbed {
+  title?: string;
+  description?: string;
+  url?: string;
+}
+
+export interface DiscordAttachment {
+  url: string;
+  kind: "image" | "video" | "audio" | "file";
+  fileName?: string;
+  size?: string;
+}
+
+export interface DiscordCodeBlock {
+  code: string;
+  language?: string;
+}
+
+export type DiscordSystemEventKind = "thread_created" | "message_pinned" | "member_joined" | "other";
+
+export interface DiscordSystemEvent {
+  kind: DiscordSystemEventKind;
+  text: string;
+  threadId?: string;
+  threadTitle?: string;
+  targetMessageId?: string;
+}
+
 export interface DiscordMessage {
   id: string;
   channel: string;
@@ -50,6 +103,18 @@ export interface DiscordMessage {
   links: string[];
   file: string;
   url?: string;
+  replyToId?: string;
+  replyToAuthor?: string;
+  reactions?: DiscordReaction[];
+  embeds?: DiscordEmbed[];
+  attachments?: DiscordAttachment[];
+  codeBlocks?: DiscordCodeBlock[];
+  mentions?: string[];
+  threadId?: string;
+  threadTitle?: string;
+  pinned?: boolean;
+  isBot?: boolean;
+  system?: DiscordSystemEvent;
 }
 
 export interface TicketEvidence {
@@ -63,6 +128,27 @@ export interface TicketEvidence {
 
 export type TicketSeverity = "low" | "medium" | "high" | "critical";
 export type TicketDocCoverage = "missing" | "partial" | "adequate" | "unknown";
+export type TicketStatus = "open" | "answered" | "resolved";
+export type TicketKind = "bug" | "question" | "feature_request" | "doc_gap" | "announcement";
+
+export interface TicketEntities {
+  languages?: string[];
+  deployments?: string[];
+  versions?: string[];
+  errors?: string[];
+  symbols?: string[];
+}
+
+// Set once a ticket has been through LLM refinement. A rejected refinement keeps the heuristic
+// fields, and `reason`/`message` say why.
+export interface TicketRefinement {
+  status: "refined" | "rejected";
+  provider: string;
+  model: string;
+  reason?: string;
+  message?: string;
+  at: string;
+}
 
 export interface Ticket {
   id: string;
@@ -70,11 +156,25 @@ export interface Ticket {
   summary: string;
   severity: TicketSeverity;
   docCoverage: TicketDocCoverage;
+  kind?: TicketKind;
   evidence: TicketEvidence[];
   affectedItems?: string[];
+  entities?: TicketEntities;
   reasoning?: string;
   tags?: string[];
   channel?: string;
+  reactionCount?: number;
+  threadId?: string;
+  titleCandidates?: string[];
+  status?: TicketStatus;
+  firstResponseMinutes?: number;
+  staffReplied?: boolean;
+  askerConfirmed?: boolean;
+  occurrenceCount?: number;
+  firstSeen?: string;
+  lastSeen?: string;
+  duplicateIds?: string[];
+  refinement?: TicketRefinement;
 }
 
 export interface Graph {
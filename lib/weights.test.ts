@@ -0,0 +1,83 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { Ticket } from "./types";
+import { resolveWeightModel, ticketWeight, ticketWeightBreakdown, validateWeightConfig } from "./weights";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const now = Date.UTC(2026, 5, 1);
+const daysAgo = (days: number) => new Date(now - days * DAY_MS).toISOString();
+
+const ticket = (extra: Partial<Ticket> = {}): Ticket => ({
+  id: "t",
+  title: "Index build crash",
+  summary: "create_index crashes",
+  severity: "high",
+  docCoverage: "unknown",
+  evidence: [
+    { messageId: "1", channel: "help", author: "ann", snippet: "create_index crashes", timestamp: daysAgo(2) },
+    { messageId: "2", channel: "help", author: "Bob", snippet: "same here", timestamp: daysAgo(1) },
+    { messageId: "3", channel: "help", author: "bob", snippet: "any update?", timestamp: daysAgo(0) },
+  ],
+  ...extra,
+});
+
+describe("ticketWeightBreakdown", () => {
+  it("reports each signal separately and sums them", () => {
+    const breakdown = ticketWeightBreakdown(
+      ticket({ kind: "bug", status: "answered", firstResponseMinutes: 1440, reactionCount: 2, occurrenceCount: 3 }),
+      undefined,
+      now,
+    );
+    assert.deepEqual(breakdown.components, {
+      severity: 7,
+      kind: 1.5,
+      status: 0.5,
+      messages: 1.8,
+      authors: 1,
+      reactions: 0.8,
+      recurrence: 1,
+      recency: 3,
+      unanswered: 0.143,
+    });
+    assert.equal(breakdown.total, 16.743);
+  });
+
+  it("halves the recency bonus every half-life since the ticket was last active", () => {
+    const recency = (days: number, halfLifeDays = 90) =>
+      ticketWeightBreakdown(
+        ticket({ lastSeen: daysAgo(days) }),
+        resolveWeightModel({ recency: { halfLifeDays } }),
+        now,
+      ).components.recency;
+    assert.equal(recency(0), 3);
+    assert.equal(recency(90), 1.5);
+    assert.equal(recency(180), 0.75);
+    assert.equal(recency(10, 10), 1.5);
+  });
+
+  it("caps counted signals and saturates the time an open ticket has waited", () => {
+    const busy = ticket({ status: "open", reactionCount: 50, firstSeen: daysAgo(30) });
+    const { components } = ticketWeightBreakdown(busy, undefined, now);
+    assert.equal(components.reactions, 2);
+    assert.equal(components.unanswered, 1);
+    assert.equal(components.status, 1.5);
+  });
+
+  it("ranks announcements below support work", () => {
+    assert.ok(ticketWeight(ticket({ kind: "announcement" }), undefined, now) < ticketWeight(ticket(), undefined, now));
+  });
+});
+
+describe("validateWeightConfig", () => {
+  it("rejects unknown keys, non-numbers and non-positive durations", () => {
+    assert.equal(validateWeightConfig(undefined), undefined);
+    assert.equal(validateWeightConfig({ severity: { high: 9 } }), undefined);
+    assert.equal(validateWeightConfig({ mood: {} }), "Unknown weighting section: mood");
+    assert.equal(validateWeightConfig({ kind: { rant: 1 } }), "Unknown weighting key: kind.rant");
+    assert.equal(validateWeightConfig({ messages: { cap: "6" } }), "weighting.messages.cap must be a number");
+    assert.equal(
+      validateWeightConfig({ recency: { halfLifeDays: 0 } }),
+      "weighting.recency.halfLifeDays must be positive",
+    );
+  });
+});
@@ -0,0 +1,136 @@
+import {
+  Ticket,
+  TicketDocCoverage,
+  TicketKind,
+  TicketSeverity,
+  TicketStatus,
+  WeightComponent,
+} from "./types";
+
+// A per-item weight and the count at which that signal stops adding anything.
+export type CappedWeight = {
+  weight: number;
+  cap: number;
+};
+
+export type TicketWeightModel = {
+  severity: Record<TicketSeverity, number>;
+  kind: Record<TicketKind, number>;
+  status: Record<TicketStatus, number>;
+  docCoverage: Record<TicketDocCoverage, number>;
+  messages: CappedWeight;
+  authors: CappedWeight;
+  reactions: CappedWeight;
+  recurrence: CappedWeight;
+  recency: { weight: number; halfLifeDays: number };
+  unanswered: { weight: number; saturationDays: number };
+};
+
+export type TicketWeightConfig = {
+  [K in keyof TicketWeightModel]?: Partial<TicketWeightModel[K]>;
+};
+
+export type TicketWeightBreakdown = {
+  total: number;
+  components: Partial<Record<WeightComponent, number>>;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Announcements are kept for context but should never outrank actual support work.
+export const DEFAULT_WEIGHT_MODEL: TicketWeightModel = {
+  severity: { low: 2, medium: 4, high: 7, critical: 10 },
+  kind: { bug: 1.5, doc_gap: 1.5, question: 0.5, feature_request: 0, announcement: -4 },
+  status: { open: 1.5, answered: 0.5, resolved: 0 },
+  docCoverage: { missing: 1.5, partial: 0.75, adequate: 0, unknown: 0 },
+  messages: { weight: 0.6, cap: 6 },
+  authors: { weight: 0.5, cap: 6 },
+  reactions: { weight: 0.4, cap: 5 },
+  recurrence: { weight: 0.5, cap: 5 },
+  recency: { weight: 3, halfLifeDays: 90 },
+  unanswered: { weight: 1, saturationDays: 7 },
+};
+
+export const resolveWeightModel = (config: TicketWeightConfig = {}): TicketWeightModel => ({
+  severity: { ...DEFAULT_WEIGHT_MODEL.severity, ...config.severity },
+  kind: { ...DEFAULT_WEIGHT_MODEL.kind, ...config.kind },
+  status: { ...DEFAULT_WEIGHT_MODEL.status, ...config.status },
+  docCoverage: { ...DEFAULT_WEIGHT_MODEL.docCoverage, ...config.docCoverage },
+  messages: { ...DEFAULT_WEIGHT_MODEL.messages, ...config.messages },
+  authors: { ...DEFAULT_WEIGHT_MODEL.authors, ...config.authors },
+  reactions: { ...DEFAULT_WEIGHT_MODEL.reactions, ...config.reactions },
+  recurrence: { ...DEFAULT_WEIGHT_MODEL.recurrence, ...config.recurrence },
+  recency: { ...DEFAULT_WEIGHT_MODEL.recency, ...config.recency },
+  unanswered: { ...DEFAULT_WEIGHT_MODEL.unanswered, ...config.unanswered },
+});
+
+export const validateWeightConfig = (config: unknown): string | undefined => {
+  if (config === undefined) return undefined;
+  if (!config || typeof config !== "object" || Array.isArray(config)) return "weighting must be an object";
+  for (const [section, values] of Object.entries(config)) {
+    if (!(section in DEFAULT_WEIGHT_MODEL)) return `Unknown weighting section: ${section}`;
+    if (!values || typeof values !== "object" || Array.isArray(values)) return `weighting.${section} must be an object`;
+    const known = DEFAULT_WEIGHT_MODEL[section as keyof TicketWeightModel];
+    for (const [key, value] of Object.entries(values)) {
+      if (!(key in known)) return `Unknown weighting key: ${section}.${key}`;
+      if (typeof value !== "number" || !Number.isFinite(value)) return `weighting.${section}.${key} must be a number`;
+    }
+  }
+  const model = resolveWeightModel(config as TicketWeightConfig);
+  if (model.recency.halfLifeDays <= 0) return "weighting.recency.halfLifeDays must be positive";
+  if (model.unanswered.saturationDays <= 0) return "weighting.unanswered.saturationDays must be positive";
+  return undefined;
+};
+
+const parseTime = (timestamp?: string) => {
+  const t = timestamp ? new Date(timestamp).getTime() : Number.NaN;
+  return Number.isNaN(t) ? undefined : t;
+};
+
+const capped = ({ weight, cap }: CappedWeight, count: number) => Math.min(cap, Math.max(0, count)) * weight;
+
+// Open tickets have been waiting since their first message; the rest waited until the first
+// response, when one was recorded.
+const unansweredDays = (ticket: Ticket, start: number | undefined, now: number) => {
+  if (ticket.status === "open") return start === undefined ? 0 : Math.max(0, now - start) / DAY_MS;
+  return (ticket.firstResponseMinutes ?? 0) / 1440;
+};
+
+// Each signal is reported separately so a closure result can be explained term by term. Recency
+// halves every `halfLifeDays` since the ticket was last active.
+export const ticketWeightBreakdown = (
+  ticket: Ticket,
+  model: TicketWeightModel = DEFAULT_WEIGHT_MODEL,
+  now = Date.now(),
+): TicketWeightBreakdown => {
+  const times = ticket.evidence.map((ev) => parseTime(ev.timestamp)).filter((t): t is number => t !== undefined);
+  const start = parseTime(ticket.firstSeen) ?? (times.length ? Math.min(...times) : undefined);
+  const end = parseTime(ticket.lastSeen) ?? (times.length ? Math.max(...times) : undefined);
+  const authors = new Set(ticket.evidence.map((ev) => ev.author?.trim().toLowerCase()).filter(Boolean));
+  const ageDays = end === undefined ? undefined : Math.max(0, now - end) / DAY_MS;
+
+  const components: TicketWeightBreakdown["components"] = {
+    severity: model.severity[ticket.severity],
+    kind: ticket.kind ? model.kind[ticket.kind] : 0,
+    status: ticket.status ? model.status[ticket.status] : 0,
+    docCoverage: model.docCoverage[ticket.docCoverage] ?? 0,
+    messages: capped(model.messages, ticket.evidence.length),
+    authors: capped(model.authors, authors.size),
+    reactions: capped(model.reactions, ticket.reactionCount ?? 0),
+    recurrence: capped(model.recurrence, (ticket.occurrenceCount ?? 1) - 1),
+    recency: ageDays === undefined ? 0 : model.recency.weight * 0.5 ** (ageDays / model.recency.halfLifeDays),
+    unanswered:
+      (model.unanswered.weight * Math.min(model.unanswered.saturationDays, unansweredDays(ticket, start, now))) /
+      model.unanswered.saturationDays,
+  };
+  Object.entries(components).forEach(([name, value]) => {
+    const key = name as WeightComponent;
+    if (value) components[key] = Number(value.toFixed(3));
+    else delete components[key];
+  });
+  const total = Object.values(components).reduce((acc, value) => acc + value, 0);
+  return { total: Number(total.toFixed(3)), components };
+};
+
+export const ticketWeight = (ticket: Ticket, model?: TicketWeightModel, now?: number) =>
+  ticketWeightBreakdown(ticket, model, now).total;
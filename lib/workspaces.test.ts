@@ -0,0 +1,80 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+
+// Workspace paths are resolved against the working directory when the module loads, so the
+// module is imported only after moving into a scratch directory.
+let root = "";
+let workspaces: typeof import("./workspaces");
+const cwd = process.cwd();
+
+before(async () => {
+  root = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), "discord-workspaces-")));
+  process.chdir(root);
+  await fs.mkdir(path.join(root, "data", "discord"), { recursive: true });
+  await fs.writeFile(
+    path.join(root, "data", "discord", "workspaces.json"),
+    JSON.stringify({
+      workspaces: [
+        {
+          id: "acme",
+          name: "Acme",
+          exportDir: "exports/acme",
+          settings: { llmBaseUrl: "http://10.0.0.1", model: "m" },
+        },
+        { id: "globex", exportDir: "exports/globex" },
+        { id: "../escape", exportDir: "exports/escape" },
+        { id: "no-dir" },
+      ],
+    }),
+  );
+  workspaces = await import("./workspaces");
+});
+
+after(async () => {
+  process.chdir(cwd);
+  await fs.rm(root, { recursive: true, force: true });
+});
+
+describe("workspaces", () => {
+  it("gives each workspace its own export folder and data files", async () => {
+    const list = await workspaces.listDiscordWorkspaces();
+    assert.deepEqual(list.map((workspace) => workspace.id), ["default", "acme", "globex"]);
+    const [, acme, globex] = list;
+    assert.equal(acme.exportDir, path.join(root, "exports", "acme"));
+    assert.equal(acme.storePath, path.join(root, "data", "discord", "workspaces", "acme", "knowledge.json"));
+    const paths = (workspace: typeof acme) => [
+      workspace.exportDir,
+      workspace.storePath,
+      workspace.rosterPath,
+      workspace.rulesPath,
+      workspace.llmCacheDir,
+      workspace.searchIndexPath,
+    ];
+    const shared = paths(acme).filter((value) => [...paths(globex), ...paths(list[0])].includes(value));
+    assert.deepEqual(shared, []);
+  });
+
+  it("keeps the original paths for the default workspace", async () => {
+    const workspace = await workspaces.resolveDiscordWorkspace(undefined);
+    assert.equal(workspace?.storePath, path.join(root, "data", "discord", "knowledge.json"));
+    assert.deepEqual(workspaces.workspaceExportSource(workspace!), { exportDir: workspace!.exportDir });
+  });
+
+  it("resolves only configured ids and tags their exports", async () => {
+    assert.equal(await workspaces.resolveDiscordWorkspace("../escape"), null);
+    assert.equal(await workspaces.resolveDiscordWorkspace("initech"), null);
+    const acme = await workspaces.resolveDiscordWorkspace("acme");
+    assert.deepEqual(workspaces.workspaceExportSource(acme!), {
+      exportDir: path.join(root, "exports", "acme"),
+      workspace: "acme",
+    });
+  });
+
+  it("leaves paths and provider hosts out of the public view", async () => {
+    const acme = await workspaces.resolveDiscordWorkspace("acme");
+    assert.deepEqual(workspaces.publicWorkspace(acme!), { id: "acme", name: "Acme", settings: { model: "m" } });
+  });
+});
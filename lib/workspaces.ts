@@ -0,0 +1,121 @@
+import fs from "fs/promises";
+import path from "path";
+import { DISCORD_EXPORT_DIR, DiscordExportSource, DiscordSampleConfig } from "./discord";
+import { EmbeddingProviderName } from "./embeddings";
+import { LLMPrice, LLMProviderName } from "./llm";
+import { EdgeRelation } from "./types";
+import { TicketWeightConfig } from "./weights";
+
+export type DiscordWorkspaceSettings = DiscordSampleConfig & {
+  maxTickets?: number;
+  maxMessagesPerTicket?: number;
+  windowMinutes?: number;
+  provider?: LLMProviderName;
+  model?: string;
+  // Only read from the workspaces file: requests cannot choose the host the server calls.
+  llmBaseUrl?: string;
+  // USD per million tokens by model prefix, on top of the built-in price list.
+  llmPricing?: Record<string, LLMPrice>;
+  llmBudgetUsd?: number;
+  embeddingProvider?: EmbeddingProviderName;
+  embeddingModel?: string;
+  // Server-only, like llmBaseUrl.
+  embeddingBaseUrl?: string;
+  edgeThresholds?: Partial<Record<EdgeRelation, number>>;
+  weighting?: TicketWeightConfig;
+};
+
+export type DiscordWorkspace = {
+  id: string;
+  name: string;
+  exportDir: string;
+  storePath: string;
+  rosterPath: string;
+  rulesPath: string;
+  llmCacheDir: string;
+  searchIndexPath: string;
+  settings: DiscordWorkspaceSettings;
+};
+
+type DiscordWorkspaceConfig = {
+  id: string;
+  name?: string;
+  exportDir: string;
+  settings?: DiscordWorkspaceSettings;
+};
+
+export const DEFAULT_WORKSPACE_ID = "default";
+
+const DATA_DIR = path.join(process.cwd(), "data", "discord");
+const WORKSPACES_PATH = path.join(DATA_DIR, "workspaces.json");
+const WORKSPACE_ID_REGEX = /^[a-z0-9][a-z0-9_-]*$/i;
+
+// The default workspace keeps the original export folder and store paths, so existing
+// single-server setups keep working without a workspaces file.
+const defaultWorkspace = (): DiscordWorkspace => ({
+  id: DEFAULT_WORKSPACE_ID,
+  name: "LanceDB",
+  exportDir: process.env.DISCORD_EXPORT_DIR ?? DISCORD_EXPORT_DIR,
+  storePath: path.join(DATA_DIR, "knowledge.json"),
+  rosterPath: path.join(DATA_DIR, "roster.json"),
+  rulesPath: path.join(DATA_DIR, "rules.json"),
+  llmCacheDir: path.join(DATA_DIR, "llm-cache"),
+  searchIndexPath: path.join(DATA_DIR, "search-index.json"),
+  settings: {},
+});
+
+const toWorkspace = (config: DiscordWorkspaceConfig): DiscordWorkspace => {
+  const base = config.id === DEFAULT_WORKSPACE_ID ? defaultWorkspace() : null;
+  const dataDir = path.join(DATA_DIR, "workspaces", config.id);
+  return {
+    id: config.id,
+    name: config.name ?? base?.name ?? config.id,
+    exportDir: path.resolve(process.cwd(), config.exportDir),
+    storePath: base?.storePath ?? path.join(dataDir, "knowledge.json"),
+    rosterPath: base?.rosterPath ?? path.join(dataDir, "roster.json"),
+    rulesPath: base?.rulesPath ?? path.join(dataDir, "rules.json"),
+    llmCacheDir: base?.llmCacheDir ?? path.join(dataDir, "llm-cache"),
+    searchIndexPath: base?.searchIndexPath ?? path.join(dataDir, "search-index.json"),
+    settings: config.settings ?? {},
+  };
+};
+
+const isWorkspaceConfig = (value: unknown): value is DiscordWorkspaceConfig => {
+  if (!value || typeof value !== "object") return false;
+  const { id, exportDir } = value as Partial<DiscordWorkspaceConfig>;
+  return typeof id === "string" && WORKSPACE_ID_REGEX.test(id) && typeof exportDir === "string";
+};
+
+export const listDiscordWorkspaces = async (): Promise<DiscordWorkspace[]> => {
+  let configs: DiscordWorkspaceConfig[] = [];
+  try {
+    const raw = JSON.parse(await fs.readFile(WORKSPACES_PATH, "utf8")) as { workspaces?: unknown[] };
+    configs = (raw.workspaces ?? []).filter(isWorkspaceConfig);
+  } catch {
+    configs = [];
+  }
+  const workspaces = configs.map(toWorkspace);
+  if (!workspaces.some((workspace) => workspace.id === DEFAULT_WORKSPACE_ID)) {
+    workspaces.unshift(defaultWorkspace());
+  }
+  return workspaces;
+};
+
+export const resolveDiscordWorkspace = async (id?: string | null): Promise<DiscordWorkspace | null> => {
+  const workspaces = await listDiscordWorkspaces();
+  return workspaces.find((workspace) => workspace.id === (id || DEFAULT_WORKSPACE_ID)) ?? null;
+};
+
+// Only non-default workspaces tag their channels, so evidence links from older stores still resolve.
+export const workspaceExportSource = (workspace: DiscordWorkspace): DiscordExportSource => ({
+  exportDir: workspace.exportDir,
+  ...(workspace.id !== DEFAULT_WORKSPACE_ID ? { workspace: workspace.id } : {}),
+});
+
+// Export and data paths, and the LLM and embedding hosts, stay on the server.
+export const publicWorkspace = (workspace: DiscordWorkspace) => {
+  const settings = { ...workspace.settings };
+  delete settings.llmBaseUrl;
+  delete settings.embeddingBaseUrl;
+  return { id: workspace.id, name: workspace.name, settings };
+};